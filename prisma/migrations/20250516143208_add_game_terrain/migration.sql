@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "terrainDensity" TEXT,
+ADD COLUMN     "terrainMap" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "salvo" BOOLEAN NOT NULL DEFAULT false;
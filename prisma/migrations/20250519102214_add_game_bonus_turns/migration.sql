@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "maxBonusTurns" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "turnMode" TEXT NOT NULL DEFAULT 'sequential';
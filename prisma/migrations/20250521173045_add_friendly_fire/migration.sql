@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "friendlyFire" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "GamePlayerStats" ADD COLUMN     "friendlyShipsSunk" INTEGER NOT NULL DEFAULT 0;
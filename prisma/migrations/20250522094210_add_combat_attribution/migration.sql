@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GamePlayerStats" ADD COLUMN     "eliminatedBy" INTEGER,
+ADD COLUMN     "victims" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
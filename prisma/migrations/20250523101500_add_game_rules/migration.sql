@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "rules" JSONB;
+
+-- Backfill: las partidas existentes se jugaron con las reglas del preset clásico
+UPDATE "Game" SET "rules" = '{"preset":"classic","turnDuration":10000,"maxMissedTurns":3,"roundDuration":20000,"placementDuration":60000,"suddenDeathDuration":120000,"nuclearThreshold":6,"boardSizeOffset":0}';
+
+-- AlterTable
+ALTER TABLE "Game" ALTER COLUMN "rules" SET NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "teamNuclear" BOOLEAN NOT NULL DEFAULT false;
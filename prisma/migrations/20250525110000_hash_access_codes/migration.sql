@@ -0,0 +1,10 @@
+-- Los códigos existentes se hashean con bcrypt (pgcrypto) para que la aplicación pueda verificarlos
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "accessCodeHash" TEXT;
+
+UPDATE "Game" SET "accessCodeHash" = crypt("accessCode", gen_salt('bf', 10)) WHERE "accessCode" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Game" DROP COLUMN "accessCode";
@@ -0,0 +1,6 @@
+-- Se conserva una sola fila por jugador y partida antes de crear el índice único
+DELETE FROM "GamePlayer" a USING "GamePlayer" b
+WHERE a."gameId" = b."gameId" AND a."userId" = b."userId" AND a."id" > b."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GamePlayer_gameId_userId_key" ON "GamePlayer"("gameId", "userId");
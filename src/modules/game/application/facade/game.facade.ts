@@ -3,6 +3,9 @@ import { CreateGameUseCase } from '../use-cases/create-game.use-case';
 import { CreateGameDto } from '../../domain/dto/create-game.dto';
 import { MatchmakingDto } from '../../domain/dto/matchmaking.dto';
 import { MatchmakingUseCase } from '../use-cases/matchmaking.use-case';
+import { PreviewShotUseCase } from '../use-cases/preview-shot.use-case';
+import { ListLobbyGamesUseCase } from '../use-cases/list-lobby-games.use-case';
+import { GetGameDetailUseCase } from '../use-cases/get-game-detail.use-case';
 
 /**
  * Fachada del módulo de juego.
@@ -13,12 +16,18 @@ import { MatchmakingUseCase } from '../use-cases/matchmaking.use-case';
  * Esta fachada permite:
  * - Crear una partida manual con configuración personalizada.
  * - Ingresar al sistema de emparejamiento (matchmaking).
+ * - Previsualizar las casillas que afectaría un disparo.
+ * - Listar las partidas públicas disponibles.
+ * - Consultar el detalle de una partida.
  */
 @Injectable()
 export class GameFacade {
   constructor(
     private readonly createGameService: CreateGameUseCase,
     private readonly matchmakingService: MatchmakingUseCase,
+    private readonly previewShotService: PreviewShotUseCase,
+    private readonly listLobbyGamesService: ListLobbyGamesUseCase,
+    private readonly gameDetailService: GetGameDetailUseCase,
   ) {}
 
   /**
@@ -44,4 +53,50 @@ export class GameFacade {
   async enterMatchmaking(dto: MatchmakingDto, userId: number) {
     return this.matchmakingService.execute(dto, userId);
   }
+
+  /**
+   * Calcula las casillas que afectaría un disparo sin ejecutarlo.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador que consulta
+   * @param query Tipo de disparo, coordenada (`x`, `y`) y dirección opcional
+   * @returns Vista previa del disparo
+   */
+  async previewShot(
+    gameId: number,
+    userId: number,
+    query: { shotType: string; x: number; y: number; direction?: string },
+  ) {
+    return this.previewShotService.execute(gameId, userId, query);
+  }
+
+  /**
+   * Lista las partidas públicas en espera con lugares libres.
+   *
+   * @param query Filtros, orden, tamaño de página y cursor de la página anterior
+   * @returns Partidas de la página y cursor de la página siguiente
+   */
+  async listLobbyGames(query: {
+    mode?: string;
+    difficulty?: string;
+    turnMode?: string;
+    preset?: string;
+    requiresAccessCode?: boolean;
+    sort?: string;
+    limit?: number;
+    cursor?: string;
+  }) {
+    return this.listLobbyGamesService.execute(query);
+  }
+
+  /**
+   * Obtiene el detalle de una partida.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario que consulta
+   * @returns Detalle de la partida (con el estado de la sala solo si el usuario participa)
+   */
+  async getGameDetail(gameId: number, userId: number) {
+    return this.gameDetailService.execute(gameId, userId);
+  }
 }
@@ -1,4 +1,8 @@
 import { Board } from '../../domain/models/board.model';
+import { FleetShip } from '../../domain/models/ship.model';
+import { ArsenalConfig } from '../../domain/models/arsenal.model';
+import { GameRules } from '../../domain/models/game-rules.model';
+import { GAME_RULES_PRESETS } from '../../domain/logic/game-rules.presets';
 
 /**
  * Transforma un valor crudo (`string` o `unknown`) en una instancia del modelo `Board`.
@@ -20,3 +24,54 @@ export function parseBoard(raw: unknown): Board {
   // Si ya es un objeto, se retorna directamente con cast a Board
   return raw as Board;
 }
+
+/**
+ * Transforma el valor crudo de `Game.fleet` en la flota de cada jugador.
+ *
+ * Las flotas guardadas antes de soportar cascos no lineales contienen solo longitudes;
+ * en ese caso cada barco se interpreta como recto (`line`).
+ *
+ * @param raw Valor persistido (JSON o `null`).
+ * @returns Flota personalizada, o `null` si la partida usa la flota de su dificultad.
+ */
+export function parseFleet(raw: unknown): FleetShip[] | null {
+  if (raw === null || raw === undefined) return null;
+
+  const fleet: unknown = typeof raw === 'string' ? JSON.parse(raw) : raw;
+
+  if (!Array.isArray(fleet) || !fleet.length) return null;
+
+  return (fleet as (number | FleetShip)[]).map((ship) =>
+    typeof ship === 'number' ? { size: ship, shape: 'line' } : ship,
+  );
+}
+
+/**
+ * Transforma el valor crudo de `Game.arsenal` en los límites personalizados por tipo de disparo.
+ *
+ * @param raw Valor persistido (JSON o `null`).
+ * @returns Límites personalizados, o `null` si la partida usa los valores por defecto.
+ */
+export function parseArsenal(raw: unknown): ArsenalConfig | null {
+  if (raw === null || raw === undefined) return null;
+
+  const arsenal: unknown = typeof raw === 'string' ? JSON.parse(raw) : raw;
+
+  return arsenal && typeof arsenal === 'object'
+    ? (arsenal as ArsenalConfig)
+    : null;
+}
+
+/**
+ * Transforma el valor crudo de `Game.rules` en las reglas de la partida.
+ *
+ * @param raw Valor persistido (JSON o `null`).
+ * @returns Reglas de la partida; las partidas sin reglas guardadas usan el preset `classic`.
+ */
+export function parseRules(raw: unknown): GameRules {
+  const rules: unknown = typeof raw === 'string' ? JSON.parse(raw) : raw;
+
+  return rules && typeof rules === 'object'
+    ? { ...GAME_RULES_PRESETS.classic, ...(rules as Partial<GameRules>) }
+    : GAME_RULES_PRESETS.classic;
+}
@@ -1,9 +1,16 @@
-import { Game } from '../../../../prisma/prisma.types';
+import {
+  Game,
+  GameWithCreatorAndPlayerCount,
+  GameWithDetails,
+} from '../../../../prisma/prisma.types';
 import { GameResponseDto } from '../../domain/dto/game-response.dto';
+import { LobbyGameDto } from '../../domain/dto/lobby-game.dto';
+import { GameDetailDto } from '../../domain/dto/game-detail.dto';
+import { parseArsenal, parseFleet, parseRules } from './board.mapper';
 
 /**
  * Clase encargada de transformar entidades crudas del modelo `Game` (de la base de datos)
- * en DTOs utilizados para respuesta HTTP (`GameResponseDto`).
+ * en DTOs utilizados para respuesta HTTP (`GameResponseDto`, `LobbyGameDto`, `GameDetailDto`).
  */
 export class GameMapper {
   /**
@@ -22,8 +29,8 @@ export class GameMapper {
       // El nombre de la sala solo se expone si está definido
       name: game.name ?? undefined,
 
-      // Código de acceso (si se definió, solo en salas privadas)
-      accessCode: game.accessCode ?? undefined,
+      // Solo se informa si hay código de acceso; el código (ni su hash) nunca se expone
+      requiresAccessCode: game.accessCodeHash !== null,
 
       isPublic: game.isPublic,
       isMatchmaking: game.isMatchmaking,
@@ -38,8 +45,89 @@ export class GameMapper {
       // Se incluye `teamCount` solo si fue configurado
       teamCount: game.teamCount ?? undefined,
 
+      // Flota personalizada (forma y longitud de cada barco), si se definió
+      fleet: parseFleet(game.fleet) ?? undefined,
+
+      // Configuración de terreno, si se definió
+      terrainMap:
+        (game.terrainMap as GameResponseDto['terrainMap']) ?? undefined,
+      terrainDensity:
+        (game.terrainDensity as GameResponseDto['terrainDensity']) ?? undefined,
+
+      // Límites personalizados de munición y enfriamiento, si se definieron
+      arsenal: parseArsenal(game.arsenal) ?? undefined,
+
+      // Variante salvo (varios disparos por turno)
+      salvo: game.salvo,
+
+      // Tope de turnos extra consecutivos por impacto (0 = regla desactivada)
+      maxBonusTurns: game.maxBonusTurns,
+
+      // Modo de turnos: secuencial o por rondas simultáneas
+      turnMode: game.turnMode as GameResponseDto['turnMode'],
+
+      // Fuego amigo (solo en partidas por equipos)
+      friendlyFire: game.friendlyFire,
+
+      // Medidor nuclear compartido por equipo (solo en partidas por equipos)
+      teamNuclear: game.teamNuclear,
+
+      // Duración total en minutos antes de la muerte súbita, si se definió
+      timeLimit: game.timeLimit ?? undefined,
+
+      // Reglas con las que se juega la partida (preset + ajustes)
+      rules: parseRules(game.rules),
+
       status: game.status,
       createdAt: game.createdAt,
     };
   }
+
+  /**
+   * Transforma una partida de la lista pública a `LobbyGameDto`.
+   *
+   * Solo expone lo necesario para elegir una partida: configuración básica,
+   * ocupación, creador y si requiere código de acceso.
+   *
+   * @param game Partida con el nickname del creador y la cantidad de jugadores activos
+   * @returns DTO de la partida para la lista pública
+   */
+  static toLobbyGame(game: GameWithCreatorAndPlayerCount): LobbyGameDto {
+    return {
+      id: game.id,
+      name: game.name ?? undefined,
+      mode: game.mode as LobbyGameDto['mode'],
+      difficulty: game.difficulty as LobbyGameDto['difficulty'],
+      teamCount: game.teamCount ?? undefined,
+      turnMode: game.turnMode as LobbyGameDto['turnMode'],
+      preset: parseRules(game.rules).preset,
+      playerCount: game._count.gamePlayers,
+      maxPlayers: game.maxPlayers,
+      creatorNickname: game.createdBy?.nickname ?? null,
+      requiresAccessCode: game.accessCodeHash !== null,
+      createdAt: game.createdAt,
+    };
+  }
+
+  /**
+   * Transforma una partida con sus participantes a `GameDetailDto`.
+   *
+   * Incluye la configuración, el creador y la ocupación de la partida. El estado
+   * de la sala y del turno (solo para miembros) lo agrega el caso de uso.
+   *
+   * @param game Partida con su creador, jugadores y espectadores
+   * @param isMember Si el usuario que consulta participa en la partida
+   * @returns DTO con el detalle público de la partida
+   */
+  static toDetail(game: GameWithDetails, isMember: boolean): GameDetailDto {
+    return {
+      ...GameMapper.toResponse(game),
+      creator: game.createdBy
+        ? { userId: game.createdBy.id, nickname: game.createdBy.nickname }
+        : null,
+      playerCount: game.gamePlayers.filter((p) => !p.leftAt).length,
+      spectatorCount: game.spectators.length,
+      isMember,
+    };
+  }
 }
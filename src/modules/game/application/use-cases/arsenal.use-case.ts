@@ -0,0 +1,214 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ArsenalConfig,
+  ArsenalConsumeResult,
+  ArsenalSlot,
+  PlayerArsenalState,
+  ShotLimit,
+} from '../../domain/models/arsenal.model';
+import {
+  LIMITED_SHOT_TYPES,
+  SHOT_TYPES,
+  getShotTypeDefinition,
+} from '../../domain/logic/shot-type.registry';
+import { ShotType } from '../../domain/models/shot.model';
+import { ArsenalStateRedis } from '../../infrastructure/redis/arsenal-state.redis';
+
+/**
+ * Caso de uso que gestiona la munición y los enfriamientos de los tipos de disparo.
+ *
+ * Cada partida define (o hereda del registro de tipos de disparo) un límite
+ * por cada tipo con disponibilidad `arsenal`:
+ * - `ammo`: cantidad máxima de usos por jugador (`null` = ilimitado)
+ * - `cooldown`: cada cuántos turnos propios puede usarse (1 = sin enfriamiento)
+ *
+ * Los tipos `unlimited` (como `simple`) no tienen límites y los tipos `nuclear`
+ * siguen su propio sistema de desbloqueo por aciertos consecutivos.
+ */
+@Injectable()
+export class ArsenalUseCase {
+  /** Tipos de disparo informados en el estado del arsenal (todos salvo los nucleares) */
+  private readonly STATUS_TYPES: ShotType[] = SHOT_TYPES.filter(
+    (type) => getShotTypeDefinition(type).availability !== 'nuclear',
+  );
+
+  constructor(private readonly arsenalStateRedis: ArsenalStateRedis) {}
+
+  /**
+   * Combina la configuración de la partida con los límites por defecto del registro.
+   *
+   * Los límites por defecto se aplican también a las partidas creadas sin arsenal:
+   * un tipo solo es ilimitado si la partida lo configura con `ammo: null` y `cooldown: 1`.
+   *
+   * @param custom Límites definidos al crear la partida (por tipo de disparo)
+   * @returns Configuración completa del arsenal
+   */
+  resolveConfig(custom?: ArsenalConfig | null): ArsenalConfig {
+    const config: ArsenalConfig = {};
+
+    for (const type of LIMITED_SHOT_TYPES) {
+      config[type] = {
+        ...getShotTypeDefinition(type).defaultLimit,
+        ...custom?.[type],
+      };
+    }
+
+    return config;
+  }
+
+  /**
+   * Obtiene el estado del arsenal de un jugador (munición restante y enfriamientos).
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param config Configuración del arsenal de la partida
+   * @returns Estado de cada tipo de disparo
+   */
+  async getStatus(
+    gameId: number,
+    userId: number,
+    config: ArsenalConfig,
+  ): Promise<ArsenalSlot[]> {
+    const state = await this.arsenalStateRedis.getPlayerState(gameId, userId);
+    return this.buildStatus(config, state);
+  }
+
+  /**
+   * Verifica si el jugador puede usar un tipo de disparo, sin gastar munición.
+   *
+   * Es solo una lectura del estado: sirve para rechazar pronto un disparo que se resolverá
+   * más tarde (rondas simultáneas). El gasto real se hace con `tryConsume`.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param type Tipo de disparo solicitado
+   * @param config Configuración del arsenal de la partida
+   * @returns Motivo del rechazo, o `null` si el disparo está disponible
+   */
+  async checkAvailability(
+    gameId: number,
+    userId: number,
+    type: ShotType,
+    config: ArsenalConfig,
+  ): Promise<string | null> {
+    const limit = this.getLimit(config, type);
+    if (!limit) return null;
+
+    const state = await this.arsenalStateRedis.getPlayerState(gameId, userId);
+    const slot = this.buildSlot(type, limit, state);
+
+    if (slot.remaining === 0) {
+      return `No te queda munición para el disparo ${type}.`;
+    }
+
+    if (slot.cooldown > 0) {
+      return `El disparo ${type} estará disponible en ${slot.cooldown} turno(s).`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Registra el uso de un tipo de disparo solo si está disponible (munición y enfriamiento)
+   * y avanza los enfriamientos del jugador.
+   *
+   * La disponibilidad se comprueba y la munición se descuenta en un único paso, por lo que
+   * debe invocarse antes de resolver la acción. Cada acción (incluidos disparos simples y
+   * nucleares) cuenta como un turno propio para los enfriamientos.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param type Tipo de disparo utilizado
+   * @param config Configuración del arsenal de la partida
+   * @returns Estado actualizado del arsenal, o el motivo del rechazo si el tipo no estaba disponible
+   */
+  async tryConsume(
+    gameId: number,
+    userId: number,
+    type: ShotType,
+    config: ArsenalConfig,
+  ): Promise<ArsenalConsumeResult> {
+    const limit = this.getLimit(config, type);
+
+    const state = await this.arsenalStateRedis.tryRegisterUse(
+      gameId,
+      userId,
+      type,
+      limit?.cooldown ?? 0,
+      limit?.ammo ?? null,
+    );
+
+    if (!state) {
+      return {
+        consumed: false,
+        reason:
+          (await this.checkAvailability(gameId, userId, type, config)) ??
+          `El disparo ${type} no está disponible.`,
+      };
+    }
+
+    return { consumed: true, arsenal: this.buildStatus(config, state) };
+  }
+
+  /**
+   * Construye el estado de todos los tipos de disparo informados al jugador.
+   *
+   * @param config Configuración del arsenal
+   * @param state Usos y enfriamientos del jugador
+   * @returns Estado de cada tipo de disparo
+   * @private
+   */
+  private buildStatus(
+    config: ArsenalConfig,
+    state: PlayerArsenalState,
+  ): ArsenalSlot[] {
+    return this.STATUS_TYPES.map((type) =>
+      this.buildSlot(type, this.getLimit(config, type) ?? {}, state),
+    );
+  }
+
+  /**
+   * Calcula la munición restante y el enfriamiento de un tipo de disparo.
+   *
+   * @param type Tipo de disparo
+   * @param limit Límite configurado para el tipo
+   * @param state Usos y enfriamientos del jugador
+   * @returns Estado del tipo de disparo
+   * @private
+   */
+  private buildSlot(
+    type: ShotType,
+    limit: ShotLimit,
+    state: PlayerArsenalState,
+  ): ArsenalSlot {
+    const remaining =
+      limit.ammo === undefined || limit.ammo === null
+        ? null
+        : Math.max(0, limit.ammo - (state.used[type] ?? 0));
+    const cooldown = state.cooldowns[type] ?? 0;
+
+    return {
+      type,
+      remaining,
+      cooldown,
+      available: remaining !== 0 && cooldown === 0,
+    };
+  }
+
+  /**
+   * Obtiene el límite configurado para un tipo de disparo.
+   *
+   * @param config Configuración del arsenal
+   * @param type Tipo de disparo
+   * @returns Límite del tipo, o `undefined` si no está limitado
+   * @private
+   */
+  private getLimit(
+    config: ArsenalConfig,
+    type: ShotType,
+  ): ShotLimit | undefined {
+    return getShotTypeDefinition(type).availability === 'arsenal'
+      ? config[type]
+      : undefined;
+  }
+}
@@ -1,13 +1,45 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Board, Difficulty, Mode } from '../../domain/models/board.model';
-import { Position, Ship } from '../../domain/models/ship.model';
+import {
+  Board,
+  BoardLayout,
+  Difficulty,
+  Mode,
+  PlacementValidationResult,
+  TerrainSettings,
+} from '../../domain/models/board.model';
+import {
+  FleetShip,
+  Position,
+  Ship,
+  ShipPlacement,
+} from '../../domain/models/ship.model';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
+import { TerrainGeneratorLogic } from '../../domain/logic/terrain-generator.logic';
+import { ShipShapeLogic } from '../../domain/logic/ship-shape.logic';
+
+/**
+ * Opciones adicionales para calcular el layout del tablero.
+ */
+export interface BoardLayoutOptions {
+  /** Flota personalizada de la partida; si no existe se usa la de la dificultad */
+  fleet?: FleetShip[] | null;
+  /** Mapa y/o densidad de terreno */
+  terrain?: TerrainSettings;
+  /** Generador aleatorio sembrado de la partida */
+  random: RandomGenerator;
+  /** Casillas sumadas (o restadas) al lado del tablero, según las reglas de la partida */
+  boardSizeOffset?: number;
+}
 
 /**
  * Caso de uso responsable de generar un tablero global de juego.
  *
  * Este tablero incluye:
  * - Dimensiones calculadas dinámicamente según dificultad, cantidad de jugadores y modo
- * - Barcos generados aleatoriamente por jugador, sin colisiones
+ * - Terreno (islas y arrecifes) según mapa o densidad configurados
+ * - Barcos colocados manualmente por cada jugador (fase de colocación)
+ * - Barcos generados aleatoriamente para quienes no los colocaron, sin colisiones
+ * - Cascos rectos o, en flotas personalizadas, poliominós (L, T, cuadrado) con rotación aleatoria
  *
  * La generación respeta restricciones como límite de ocupación del tablero
  * y número máximo de intentos para evitar colisiones.
@@ -19,12 +51,18 @@ export class BoardGenerationUseCase {
   private readonly MAX_PLACEMENT_ATTEMPTS = 100;
   private readonly MAX_BOARD_SIZE = 20;
 
+  constructor(
+    private readonly terrainGenerator: TerrainGeneratorLogic,
+    private readonly shipShape: ShipShapeLogic,
+  ) {}
+
   /**
-   * Genera un tablero con todos los barcos colocados para todos los jugadores.
+   * Genera un tablero con todos los barcos colocados aleatoriamente para todos los jugadores.
    *
    * @param playerIds Lista de IDs de los jugadores que participarán en la partida.
    * @param difficulty Nivel de dificultad ('easy', 'medium', 'hard') que afecta tamaño del tablero y tipo de barcos.
    * @param mode Modo de juego ('individual' o 'teams'), utilizado para ajustar la densidad del tablero.
+   * @param random Generador aleatorio (sembrado por partida) usado para ubicar los barcos.
    *
    * @returns Objeto `Board` que incluye tamaño, barcos y disparos inicializados.
    * @throws Error si no es posible colocar todos los barcos sin colisiones.
@@ -33,68 +71,402 @@ export class BoardGenerationUseCase {
     playerIds: number[],
     difficulty: Difficulty,
     mode: Mode,
+    random: RandomGenerator,
   ): Board {
-    const playersCount = playerIds.length;
+    const layout = this.prepareBoardLayout(playerIds.length, difficulty, mode, {
+      random,
+    });
+    return this.completeBoard(layout, playerIds, {}, random);
+  }
 
-    // 1. Determinar el tamaño del tablero y porcentaje máximo de ocupación
-    const { size, occupationPercentage } = this.getBoardSettings(
+  /**
+   * Calcula las dimensiones del tablero y la flota por jugador,
+   * validando que exista espacio suficiente para todos los barcos.
+   *
+   * Se usa al iniciar la fase de colocación para informar a los clientes
+   * qué barcos deben ubicar y en qué tablero.
+   *
+   * @param playersCount Número total de jugadores.
+   * @param difficulty Nivel de dificultad seleccionado.
+   * @param mode Modo de juego.
+   * @param options Flota personalizada, terreno y generador aleatorio de la partida.
+   * @returns Tamaño del tablero, flota de cada jugador y terreno.
+   * @throws Error si no hay espacio suficiente para la flota de todos los jugadores.
+   */
+  prepareBoardLayout(
+    playersCount: number,
+    difficulty: Difficulty,
+    mode: Mode,
+    options: BoardLayoutOptions,
+  ): BoardLayout {
+    // 1. Determinar el tamaño del tablero
+    const { size } = this.getBoardSettings(
       difficulty,
       playersCount,
       mode,
+      options.boardSizeOffset,
     );
 
     this.logger.log(
       `Generando tablero: ${size}x${size}, dificultad=${difficulty}, jugadores=${playersCount}, modo=${mode}`,
     );
 
-    // 2. Calcular el número máximo de celdas ocupables en el tablero
-    const totalCells = size * size;
-    const maxOccupiedCells = Math.floor(totalCells * occupationPercentage);
+    // 2. Usar la flota personalizada o la definida por la dificultad
+    const fleet = options.fleet?.length
+      ? options.fleet
+      : this.getFleetForDifficulty(difficulty);
 
-    // 3. Obtener la lista de tamaños de barcos por jugador según dificultad
-    const shipSizesPerPlayer = this.getShipSizesForDifficulty(difficulty);
+    // 3. Generar el terreno del tablero
+    const terrain = this.terrainGenerator.generate(
+      size,
+      options.terrain ?? {},
+      options.random,
+    );
 
-    // 4. Calcular el tamaño promedio de un barco
-    const averageShipSize =
-      shipSizesPerPlayer.reduce((a, b) => a + b, 0) / shipSizesPerPlayer.length;
+    // 4. Validar si hay suficiente espacio disponible (descontando el terreno)
+    const error = this.validateFleetCapacity(
+      fleet,
+      playersCount,
+      difficulty,
+      mode,
+      terrain.length,
+      options.boardSizeOffset,
+    );
 
-    // 5. Estimar cuántas celdas se necesitarían en total para todos los barcos
+    if (error) {
+      this.logger.error(error);
+      throw new Error(
+        'No hay suficiente espacio para colocar todos los barcos sin colisiones.',
+      );
+    }
+
+    return { size, fleet, terrain };
+  }
+
+  /**
+   * Verifica que una flota quepa en el tablero respetando el límite de ocupación.
+   *
+   * @param fleet Barcos (forma y longitud) de cada jugador.
+   * @param playersCount Número total de jugadores.
+   * @param difficulty Nivel de dificultad seleccionado.
+   * @param mode Modo de juego.
+   * @param blockedCells Casillas no disponibles para barcos (terreno).
+   * @param boardSizeOffset Ajuste del lado del tablero según las reglas de la partida.
+   * @returns Motivo del rechazo, o `null` si la flota es válida.
+   */
+  validateFleetCapacity(
+    fleet: FleetShip[],
+    playersCount: number,
+    difficulty: Difficulty,
+    mode: Mode,
+    blockedCells = 0,
+    boardSizeOffset = 0,
+  ): string | null {
+    // 1. Determinar el tamaño del tablero y porcentaje máximo de ocupación
+    const { size, occupationPercentage } = this.getBoardSettings(
+      difficulty,
+      playersCount,
+      mode,
+      boardSizeOffset,
+    );
+
+    // 2. Ningún barco puede exceder el tablero en su orientación más compacta
+    const longestShip = Math.max(
+      ...fleet.map((ship) => this.getShipExtent(ship)),
+    );
+    if (longestShip > size) {
+      return `Barco de ${longestShip} casillas no cabe en un tablero de ${size}x${size}`;
+    }
+
+    // 3. Calcular el número máximo de celdas ocupables en el tablero
+    const totalCells = size * size;
+    const maxOccupiedCells =
+      Math.floor(totalCells * occupationPercentage) - blockedCells;
+
+    // 4. Calcular las celdas necesarias para la flota de todos los jugadores
     const requiredCells =
-      playersCount * averageShipSize * shipSizesPerPlayer.length;
+      playersCount * fleet.reduce((total, ship) => total + ship.size, 0);
 
-    // 6. Validar si hay suficiente espacio disponible
     if (requiredCells > maxOccupiedCells) {
-      this.logger.error(
-        `Espacio insuficiente: Requerido=${requiredCells}, Disponible=${maxOccupiedCells}`,
+      return `Espacio insuficiente: Requerido=${requiredCells}, Disponible=${maxOccupiedCells}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifica que una flota quepa en el tablero para cualquier cantidad de jugadores
+   * entre 2 y `maxPlayers`, reservando el máximo de casillas que puede ocupar el terreno.
+   *
+   * Se usa al crear la partida, antes de que exista la semilla que genera el terreno.
+   *
+   * @param fleet Barcos (forma y longitud) de cada jugador.
+   * @param maxPlayers Número máximo de jugadores de la partida.
+   * @param difficulty Nivel de dificultad seleccionado.
+   * @param mode Modo de juego.
+   * @param terrain Mapa y/o densidad de terreno.
+   * @param boardSizeOffset Ajuste del lado del tablero según las reglas de la partida.
+   * @returns Motivo del rechazo, o `null` si la flota es válida.
+   */
+  validateFleetForPlayers(
+    fleet: FleetShip[],
+    maxPlayers: number,
+    difficulty: Difficulty,
+    mode: Mode,
+    terrain: TerrainSettings = {},
+    boardSizeOffset = 0,
+  ): string | null {
+    for (let players = 2; players <= maxPlayers; players++) {
+      const { size } = this.getBoardSettings(
+        difficulty,
+        players,
+        mode,
+        boardSizeOffset,
       );
-      throw new Error(
-        'No hay suficiente espacio para colocar todos los barcos sin colisiones.',
+
+      const error = this.validateFleetCapacity(
+        fleet,
+        players,
+        difficulty,
+        mode,
+        this.terrainGenerator.getMaxCells(size, terrain),
+        boardSizeOffset,
+      );
+
+      if (error) {
+        return `No cabe en el tablero con ${players} jugadores. ${error}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Valida la colocación manual de la flota de un jugador.
+   *
+   * Reglas aplicadas:
+   * - Debe enviarse exactamente la flota definida (mismas formas y longitudes).
+   * - Cada barco debe formar su casco en alguna orientación: línea recta continua
+   *   (horizontal o vertical) o el poliominó indicado (L, T o cuadrado), rotado o reflejado.
+   * - Todas las posiciones deben estar dentro del tablero.
+   * - Ninguna posición puede estar sobre terreno (islas o arrecifes).
+   * - No puede haber colisiones entre sus barcos ni con barcos de otros jugadores.
+   *
+   * @param placements Barcos enviados por el jugador.
+   * @param layout Tamaño del tablero y flota esperada.
+   * @param ownerId ID del jugador que coloca la flota.
+   * @param occupied Set de posiciones ya ocupadas por otros jugadores (formato "row:col").
+   * @returns Barcos construidos si la colocación es válida, o el motivo del rechazo.
+   */
+  validatePlacement(
+    placements: ShipPlacement[],
+    layout: BoardLayout,
+    ownerId: number,
+    occupied: Set<string>,
+  ): PlacementValidationResult {
+    const { size, fleet } = layout;
+    const terrain = new Set(
+      (layout.terrain ?? []).map((cell) => `${cell.row}:${cell.col}`),
+    );
+
+    if (!Array.isArray(placements) || placements.length !== fleet.length) {
+      return {
+        valid: false,
+        reason: `Debes colocar exactamente ${fleet.length} barcos.`,
+      };
+    }
+
+    // 1. Comparar las formas y longitudes enviadas con la flota esperada
+    const toKey = (ship: FleetShip) => `${ship.shape}:${ship.size}`;
+    const expected = fleet.map(toKey).sort();
+    const received = placements
+      .map((p) =>
+        toKey({
+          shape: p?.shape ?? 'line',
+          size: Array.isArray(p?.positions) ? p.positions.length : 0,
+        }),
+      )
+      .sort();
+
+    if (expected.some((key, i) => key !== received[i])) {
+      return {
+        valid: false,
+        reason: `La flota no coincide con la requerida: [${expected.join(', ')}].`,
+      };
+    }
+
+    const ships: Ship[] = [];
+    const ownPositions = new Set<string>();
+
+    for (const placement of placements) {
+      // 2. Validar límites del tablero
+      const inBounds = placement.positions.every(
+        (pos) =>
+          Number.isInteger(pos.row) &&
+          Number.isInteger(pos.col) &&
+          pos.row >= 0 &&
+          pos.row < size &&
+          pos.col >= 0 &&
+          pos.col < size,
       );
+
+      if (!inBounds) {
+        return {
+          valid: false,
+          reason: 'Hay barcos fuera de los límites del tablero.',
+        };
+      }
+
+      // 3. Validar que las casillas formen el casco indicado
+      const shape = placement.shape ?? 'line';
+      const matches = this.shipShape.matchesShape(placement.positions, {
+        shape,
+        size: placement.positions.length,
+      });
+
+      if (!matches) {
+        return {
+          valid: false,
+          reason:
+            shape === 'line'
+              ? 'Cada barco recto debe ocupar casillas continuas en línea recta.'
+              : `Las casillas no forman un casco con forma ${shape}.`,
+        };
+      }
+
+      // 4. Validar colisiones con terreno, barcos propios y ajenos
+      for (const pos of placement.positions) {
+        const key = `${pos.row}:${pos.col}`;
+        if (terrain.has(key)) {
+          return {
+            valid: false,
+            reason: `La casilla (${pos.row},${pos.col}) es terreno y no admite barcos.`,
+          };
+        }
+        if (ownPositions.has(key) || occupied.has(key)) {
+          return {
+            valid: false,
+            reason: `La casilla (${pos.row},${pos.col}) ya está ocupada.`,
+          };
+        }
+        ownPositions.add(key);
+      }
+
+      ships.push({
+        shipId: 0, // Se asigna definitivamente al completar el tablero
+        ownerId,
+        teamId: null,
+        positions: placement.positions.map((pos) => ({
+          row: pos.row,
+          col: pos.col,
+          isHit: false,
+        })),
+        isSunk: false,
+        shape,
+      });
     }
 
-    // 7. Iniciar el proceso de colocación de barcos
+    return { valid: true, ships };
+  }
+
+  /**
+   * Construye el tablero definitivo a partir de las flotas colocadas manualmente.
+   *
+   * Los jugadores que no enviaron su flota a tiempo reciben una colocación
+   * aleatoria que respeta las posiciones ya ocupadas por el resto.
+   *
+   * @param layout Tamaño del tablero y flota por jugador.
+   * @param playerIds Lista de IDs de los jugadores de la partida.
+   * @param placedShips Barcos colocados manualmente, indexados por userId.
+   * @param random Generador aleatorio (sembrado por partida) usado para la colocación automática.
+   * @returns Objeto `Board` con terreno, todos los barcos y sin disparos.
+   * @throws Error si no es posible colocar todos los barcos sin colisiones.
+   */
+  completeBoard(
+    layout: BoardLayout,
+    playerIds: number[],
+    placedShips: Record<number, Ship[]>,
+    random: RandomGenerator,
+  ): Board {
+    const { size, fleet } = layout;
+    const terrain = layout.terrain ?? [];
+
     const ships: Ship[] = [];
-    const occupiedPositions = new Set<string>();
     let shipId = 1;
 
+    // 0. El terreno nunca puede ser ocupado por barcos
+    const occupiedPositions = new Set<string>(
+      terrain.map((cell) => `${cell.row}:${cell.col}`),
+    );
+
+    // 1. Registrar primero las flotas colocadas manualmente.
+    // Si una flota colisiona con otra ya registrada, se descarta y se genera aleatoriamente.
+    const acceptedShips: Record<number, Ship[]> = {};
+
+    for (const playerId of playerIds) {
+      const manualShips = placedShips[playerId] ?? [];
+      if (!manualShips.length) continue;
+
+      if (
+        manualShips.some((ship) =>
+          this.hasCollisionWithSet(ship, occupiedPositions),
+        )
+      ) {
+        this.logger.warn(
+          `Colocación manual descartada por colisión: playerId=${playerId}`,
+        );
+        continue;
+      }
+
+      acceptedShips[playerId] = manualShips;
+      for (const ship of manualShips) {
+        for (const pos of ship.positions) {
+          occupiedPositions.add(`${pos.row}:${pos.col}`);
+        }
+      }
+    }
+
     for (const playerId of playerIds) {
-      for (const shipSize of shipSizesPerPlayer) {
-        let newShip = this.generateRandomShip(size, shipSize, shipId, playerId);
+      const manualShips = acceptedShips[playerId];
+
+      if (manualShips?.length) {
+        for (const ship of manualShips) {
+          ships.push({ ...ship, shipId, ownerId: playerId });
+          shipId++;
+        }
+        continue;
+      }
+
+      // 2. Colocación aleatoria para quien no envió su flota
+      for (const fleetShip of fleet) {
+        let newShip = this.generateRandomShip(
+          size,
+          fleetShip,
+          shipId,
+          playerId,
+          random,
+        );
         let attempts = 0;
 
-        // 8. Reintentar hasta ubicar un barco sin colisiones o agotar intentos
+        // 3. Reintentar hasta ubicar un barco sin colisiones o agotar intentos
         while (
           this.hasCollisionWithSet(newShip, occupiedPositions) &&
           attempts < this.MAX_PLACEMENT_ATTEMPTS
         ) {
-          newShip = this.generateRandomShip(size, shipSize, shipId, playerId);
+          newShip = this.generateRandomShip(
+            size,
+            fleetShip,
+            shipId,
+            playerId,
+            random,
+          );
           attempts++;
         }
 
-        // 9. Si se superan los intentos máximos, lanzar error
+        // 4. Si se superan los intentos máximos, lanzar error
         if (attempts >= this.MAX_PLACEMENT_ATTEMPTS) {
           this.logger.error(
-            `No se pudo colocar barco: playerId=${playerId}, shipSize=${shipSize}, intentos=${attempts}`,
+            `No se pudo colocar barco: playerId=${playerId}, forma=${fleetShip.shape}, tamaño=${fleetShip.size}, intentos=${attempts}`,
           );
           throw new Error(
             'No se pudo colocar todos los barcos sin colisiones.',
@@ -103,7 +475,7 @@ export class BoardGenerationUseCase {
 
         ships.push(newShip);
 
-        // 10. Registrar todas las posiciones del barco en el Set
+        // 5. Registrar todas las posiciones del barco en el Set
         for (const pos of newShip.positions) {
           occupiedPositions.add(`${pos.row}:${pos.col}`);
         }
@@ -112,12 +484,12 @@ export class BoardGenerationUseCase {
       }
     }
 
-    // 11. Finalizar tablero
+    // 6. Finalizar tablero
     this.logger.log(
       `Tablero generado exitosamente: ${ships.length} barcos colocados`,
     );
 
-    return { size, ships, shots: [] };
+    return { size, ships, shots: [], terrain };
   }
 
   /**
@@ -126,6 +498,7 @@ export class BoardGenerationUseCase {
    * @param difficulty Nivel de dificultad seleccionado.
    * @param playersCount Número total de jugadores.
    * @param mode Modo de juego.
+   * @param boardSizeOffset Casillas sumadas (o restadas) al lado calculado, según las reglas de la partida.
    *
    * @returns Objeto con el tamaño del tablero y el porcentaje de ocupación permitido.
    * @throws Error si la dificultad no es válida.
@@ -134,6 +507,7 @@ export class BoardGenerationUseCase {
     difficulty: Difficulty,
     playersCount: number,
     mode: Mode,
+    boardSizeOffset = 0,
   ): { size: number; occupationPercentage: number } {
     let baseSize: number;
     let incrementPerPlayer: number;
@@ -166,31 +540,37 @@ export class BoardGenerationUseCase {
 
     const size = Math.min(
       this.MAX_BOARD_SIZE,
-      Math.ceil(baseSize + playersCount * incrementPerPlayer),
+      Math.ceil(baseSize + playersCount * incrementPerPlayer) + boardSizeOffset,
     );
 
     return { size, occupationPercentage };
   }
 
   /**
-   * Determina los tamaños de los barcos por jugador según la dificultad.
+   * Determina la flota de cada jugador según la dificultad.
+   *
+   * Las flotas por defecto solo tienen cascos rectos; los cascos no lineales
+   * (poliominós) se usan únicamente si la partida define una flota personalizada.
    *
    * @param difficulty Nivel de dificultad.
-   * @returns Arreglo de longitudes de barcos.
+   * @returns Barcos (forma y longitud) de cada jugador.
    */
-  private getShipSizesForDifficulty(difficulty: Difficulty): number[] {
+  getFleetForDifficulty(difficulty: Difficulty): FleetShip[] {
+    const line = (...sizes: number[]): FleetShip[] =>
+      sizes.map((size): FleetShip => ({ size, shape: 'line' }));
+
     switch (difficulty) {
       case 'easy':
-        return [5, 4, 3, 2, 2, 1, 1];
+        return line(5, 4, 3, 2, 2, 1, 1);
       case 'medium':
-        return [4, 4, 3, 3, 2, 2, 1];
+        return line(4, 4, 3, 3, 2, 2, 1);
       case 'hard':
-        return [4, 3, 2, 2, 1];
+        return line(4, 3, 2, 2, 1);
       default:
         this.logger.warn(
           'Dificultad no reconocida: Usando configuración por defecto',
         );
-        return [4, 3, 3];
+        return line(4, 3, 3);
     }
   }
 
@@ -198,33 +578,32 @@ export class BoardGenerationUseCase {
    * Genera un barco con orientación y posición aleatoria.
    *
    * @param boardSize Tamaño del tablero.
-   * @param shipSize Tamaño del barco.
+   * @param fleetShip Forma y longitud del barco.
    * @param shipId ID único del barco.
    * @param ownerId ID del jugador propietario del barco.
+   * @param random Generador aleatorio de la partida.
    * @returns Objeto `Ship` con las posiciones generadas.
    */
   private generateRandomShip(
     boardSize: number,
-    shipSize: number,
+    fleetShip: FleetShip,
     shipId: number,
     ownerId: number,
+    random: RandomGenerator,
   ): Ship {
-    const horizontal = Math.random() < 0.5;
-    const maxStart = boardSize - shipSize;
+    // 1. Elegir una orientación (rotación/reflejo) del casco
+    const orientations = this.shipShape.getOrientations(fleetShip);
+    const cells = orientations[Math.floor(random() * orientations.length)];
 
-    let row: number, col: number;
+    // 2. Elegir una posición que mantenga el casco dentro del tablero
+    const height = Math.max(...cells.map(([r]) => r)) + 1;
+    const width = Math.max(...cells.map(([, c]) => c)) + 1;
+    const row = Math.floor(random() * (boardSize - height + 1));
+    const col = Math.floor(random() * (boardSize - width + 1));
 
-    if (horizontal) {
-      row = Math.floor(Math.random() * boardSize);
-      col = Math.floor(Math.random() * (maxStart + 1));
-    } else {
-      row = Math.floor(Math.random() * (maxStart + 1));
-      col = Math.floor(Math.random() * boardSize);
-    }
-
-    const positions: Position[] = Array.from({ length: shipSize }, (_, i) => ({
-      row: row + (horizontal ? 0 : i),
-      col: col + (horizontal ? i : 0),
+    const positions: Position[] = cells.map(([dr, dc]) => ({
+      row: row + dr,
+      col: col + dc,
       isHit: false,
     }));
 
@@ -234,9 +613,25 @@ export class BoardGenerationUseCase {
       teamId: null,
       positions,
       isSunk: false,
+      shape: fleetShip.shape,
     };
   }
 
+  /**
+   * Calcula el lado mínimo que necesita un casco para caber en el tablero,
+   * considerando su orientación más compacta.
+   *
+   * @param ship Forma y longitud del barco.
+   * @returns Número de casillas del lado más largo en su orientación más compacta.
+   */
+  private getShipExtent(ship: FleetShip): number {
+    return Math.min(
+      ...this.shipShape
+        .getOrientations(ship)
+        .map((cells) => Math.max(...cells.flatMap(([r, c]) => [r, c])) + 1),
+    );
+  }
+
   /**
    * Verifica si un barco colisiona con las posiciones ya ocupadas usando un Set.
    *
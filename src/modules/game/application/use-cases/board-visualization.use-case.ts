@@ -10,8 +10,9 @@ import { GamePlayerWithUser } from '../../../../prisma/prisma.types';
  * para ser enviada a cada jugador según su punto de vista, permitiendo:
  *
  * - Ver sus propios barcos y los de su equipo (modo teams).
+ * - Ver los barcos hundidos de cualquier jugador (también los espectadores).
  * - Obtener estado detallado de sus barcos.
- * - Visualizar disparos pasados (impacto o fallo).
+ * - Visualizar disparos pasados (impacto, fallo o absorbido por arrecife).
  */
 @Injectable()
 export class BoardVisualizationUseCase {
@@ -21,10 +22,13 @@ export class BoardVisualizationUseCase {
    * La visibilidad se determina por las siguientes reglas:
    * 1. Un jugador siempre ve sus propios barcos completos.
    * 2. Un jugador ve los barcos de sus compañeros de equipo (en modo equipos).
-   * 3. Un jugador NO ve los barcos enemigos.
+   * 3. Los barcos hundidos se revelan a todos, con todas sus casillas.
+   * 4. Un jugador NO ve los barcos enemigos a flote.
+   *
+   * Los espectadores no tienen barcos ni equipo, por lo que solo ven los barcos hundidos.
    *
    * @param ships Lista completa de barcos en el tablero.
-   * @param clientUserId ID del jugador que solicita su vista personalizada.
+   * @param clientUserId ID del jugador (o espectador) que solicita su vista personalizada.
    * @param teams Mapa userId → teamId (Record<number, number>).
    * @param gamePlayers Lista de jugadores con su información de usuario.
    * @returns Lista de barcos visibles al jugador, enriquecidos con nickname y color.
@@ -37,6 +41,32 @@ export class BoardVisualizationUseCase {
   ): VisibleShip[] {
     const myTeam = teams[clientUserId] ?? null;
 
+    // Filtrar barcos visibles (sin equipo propio no hay compañeros) y enriquecer con datos visuales
+    return this.toVisibleShips(
+      ships.filter((ship) => {
+        if (ship.ownerId === null) return false;
+        const ownerTeam = teams[ship.ownerId] ?? null;
+        return (
+          ship.ownerId === clientUserId ||
+          (myTeam !== null && ownerTeam === myTeam) ||
+          ship.isSunk
+        );
+      }),
+      gamePlayers,
+    );
+  }
+
+  /**
+   * Enriquece una lista de barcos con el nickname y color de su dueño.
+   *
+   * @param ships Barcos a mostrar (con dueño).
+   * @param gamePlayers Lista de jugadores con su información de usuario.
+   * @returns Barcos listos para ser enviados al cliente.
+   */
+  toVisibleShips(
+    ships: Ship[],
+    gamePlayers: GamePlayerWithUser[],
+  ): VisibleShip[] {
     // Crear un mapa con nickname y color por userId
     const playerInfo = new Map<number, { nickname: string; color: string }>();
     for (const gp of gamePlayers) {
@@ -46,25 +76,20 @@ export class BoardVisualizationUseCase {
       });
     }
 
-    // Filtrar barcos visibles y enriquecer con datos visuales
-    return ships
-      .filter((ship) => {
-        if (ship.ownerId === null) return false;
-        const ownerTeam = teams[ship.ownerId] ?? null;
-        return ship.ownerId === clientUserId || ownerTeam === myTeam;
-      })
-      .map((ship) => ({
-        ownerId: ship.ownerId!,
-        nickname: playerInfo.get(ship.ownerId!)?.nickname || '',
-        color: playerInfo.get(ship.ownerId!)?.color || '',
-        positions: ship.positions,
-      }));
+    return ships.map((ship) => ({
+      ownerId: ship.ownerId!,
+      nickname: playerInfo.get(ship.ownerId!)?.nickname || '',
+      color: playerInfo.get(ship.ownerId!)?.color || '',
+      isSunk: ship.isSunk,
+      positions: ship.positions,
+    }));
   }
 
   /**
    * Transforma la lista de disparos en el tablero a un formato visual simplificado.
    *
-   * Cada disparo se convierte en un objeto `{ row, col, result }` donde result es 'hit' o 'miss'.
+   * Cada disparo se convierte en un objeto `{ row, col, result }` donde result es 'hit', 'miss'
+   * o 'absorbed' (disparo detenido por un arrecife).
    * Este formato es ideal para renderizado gráfico en la interfaz del cliente.
    *
    * @param shots Lista completa de disparos registrados
@@ -74,7 +99,7 @@ export class BoardVisualizationUseCase {
     return shots.map((shot) => ({
       row: shot.target.row,
       col: shot.target.col,
-      result: shot.hit ? 'hit' : 'miss',
+      result: shot.absorbed ? 'absorbed' : shot.hit ? 'hit' : 'miss',
     }));
   }
 
@@ -3,36 +3,135 @@ import { GameRepository } from '../../domain/repository/game.repository';
 import { CreateGameDto } from '../../domain/dto/create-game.dto';
 import { GameResponseDto } from '../../domain/dto/game-response.dto';
 import { GameMapper } from '../mapper/game.mapper';
+import { FleetShipDto } from '../../domain/dto/fleet-ship.dto';
+import {
+  FleetShip,
+  SHIP_CLASS_SIZES,
+  SHIP_SHAPE_CELLS,
+} from '../../domain/models/ship.model';
+import { BoardGenerationUseCase } from './board-generation.use-case';
+import { ShotLimitDto } from '../../domain/dto/shot-limit.dto';
+import { ArsenalConfig, ShotLimit } from '../../domain/models/arsenal.model';
+import { LIMITED_SHOT_TYPES } from '../../domain/logic/shot-type.registry';
+import { resolveGameRules } from '../../domain/logic/game-rules.presets';
+import { BcryptPasswordService } from '../../../user/infrastructure/bcrypt/bcrypt-password.service';
+import { LobbyManager } from '../../infrastructure/managers/lobby.manager';
 
 /**
  * Caso de uso encargado de crear una nueva partida de juego manualmente.
  *
- * Aplica validaciones de configuración según el modo de juego y
- * delega la persistencia al repositorio.
+ * Aplica validaciones de configuración según el modo de juego, el modo de turnos, la flota
+ * personalizada y los límites del arsenal (si se definen), resuelve las reglas de la partida
+ * (preset + ajustes), hashea el código de acceso (si se define) y delega la persistencia al repositorio.
+ * Las partidas públicas se anuncian a los clientes suscritos a la lista de partidas.
  */
 @Injectable()
 export class CreateGameUseCase {
-  constructor(private readonly gameRepository: GameRepository) {}
+  /** Cantidad máxima de barcos por jugador en una flota personalizada */
+  private readonly MAX_FLEET_SHIPS = 15;
+
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly boardGenerationService: BoardGenerationUseCase,
+    private readonly bcrypt: BcryptPasswordService,
+    private readonly lobbyManager: LobbyManager,
+  ) {}
 
   /**
    * Ejecuta la creación de una nueva partida.
    *
    * Si el modo es "teams", valida que se haya proporcionado `teamCount`
-   * con valor numérico ≥ 2. Luego crea la partida junto al primer jugador (el creador).
+   * con valor numérico ≥ 2. Valida que la flota (personalizada o la de la dificultad)
+   * quepa en el tablero con el terreno y el tamaño elegidos. Luego crea la partida junto al primer jugador (el creador).
    *
    * @param dto Objeto con configuración de la partida (modo, dificultad, visibilidad, etc.)
    * @param userId ID del usuario que crea la partida
    * @returns Objeto `GameResponseDto` con los datos de la partida creada
-   * @throws BadRequestException Si el modo es 'teams' pero el `teamCount` no es válido
+   * @throws BadRequestException Si el modo es 'teams' pero el `teamCount` no es válido,
+   * si se activa el fuego amigo o el medidor nuclear por equipo fuera del modo por equipos, si las reglas de turnos son incompatibles, o si la flota o los límites
+   * del arsenal no son válidos
    */
   async execute(dto: CreateGameDto, userId: number): Promise<GameResponseDto> {
     this.validateTeamMode(dto.mode, dto.teamCount);
+    this.validateTeamOnlyOptions(dto);
+    this.validateTurnRules(dto);
+
+    const rules = resolveGameRules(dto.preset, dto.rules);
+
+    const fleet = dto.fleet?.length ? this.resolveFleet(dto.fleet) : undefined;
+    this.validateFleet(fleet, dto, rules.boardSizeOffset);
+
+    const arsenal = dto.arsenal?.length
+      ? this.resolveArsenal(dto.arsenal)
+      : undefined;
+
+    // El código de acceso solo se guarda hasheado; se verifica al unirse a la partida
+    const accessCodeHash = dto.accessCode
+      ? await this.bcrypt.hash(dto.accessCode)
+      : null;
 
-    const game = await this.gameRepository.createGameWithPlayer(dto, userId);
+    const game = await this.gameRepository.createGameWithPlayer(
+      dto,
+      userId,
+      rules,
+      accessCodeHash,
+      fleet,
+      arsenal,
+    );
+
+    await this.lobbyManager.announceGameCreated(game.id);
 
     return GameMapper.toResponse(game);
   }
 
+  /**
+   * Valida que las opciones exclusivas del modo por equipos no se activen en otros modos.
+   *
+   * @param dto Configuración de la partida
+   * @throws BadRequestException Si se activa el fuego amigo o el medidor nuclear por equipo
+   * fuera del modo por equipos
+   */
+  private validateTeamOnlyOptions(dto: CreateGameDto): void {
+    if (dto.mode === 'teams') return;
+
+    if (dto.friendlyFire) {
+      throw new BadRequestException(
+        'El fuego amigo solo está disponible en partidas por equipos.',
+      );
+    }
+
+    if (dto.teamNuclear) {
+      throw new BadRequestException(
+        'El medidor nuclear por equipo solo está disponible en partidas por equipos.',
+      );
+    }
+  }
+
+  /**
+   * Valida que las reglas de turnos sean compatibles entre sí.
+   *
+   * En las partidas por rondas todos los jugadores disparan a la vez, por lo que
+   * no admiten la variante salvo ni los turnos extra por impacto.
+   *
+   * @param dto Configuración de la partida
+   * @throws BadRequestException Si se combinan rondas simultáneas con salvo o turnos extra
+   */
+  private validateTurnRules(dto: CreateGameDto): void {
+    if (dto.turnMode !== 'simultaneous') return;
+
+    if (dto.salvo) {
+      throw new BadRequestException(
+        'La variante salvo no está disponible en partidas por rondas.',
+      );
+    }
+
+    if (dto.maxBonusTurns) {
+      throw new BadRequestException(
+        'Los turnos extra no están disponibles en partidas por rondas.',
+      );
+    }
+  }
+
   /**
    * Valida que si el modo es 'teams', se haya proporcionado un número válido de equipos.
    *
@@ -53,4 +152,146 @@ export class CreateGameUseCase {
       );
     }
   }
+
+  /**
+   * Convierte la definición de flota (longitudes, clases o formas con cantidad)
+   * en la lista de barcos de cada jugador.
+   *
+   * @param entries Entradas de la flota personalizada
+   * @returns Barcos (forma y longitud), ordenados de mayor a menor longitud
+   * @throws BadRequestException Si alguna entrada es inválida o la flota es demasiado grande
+   */
+  private resolveFleet(entries: FleetShipDto[]): FleetShip[] {
+    const fleet: FleetShip[] = [];
+
+    for (const entry of entries) {
+      const shape = entry.shape ?? 'line';
+
+      if (shape !== 'line' && entry.shipClass) {
+        throw new BadRequestException(
+          'Las clases de barco con nombre solo admiten cascos rectos.',
+        );
+      }
+
+      const size =
+        shape !== 'line'
+          ? SHIP_SHAPE_CELLS[shape].length
+          : entry.shipClass
+            ? SHIP_CLASS_SIZES[entry.shipClass]
+            : entry.size;
+
+      if (size === undefined || !Number.isInteger(size) || size < 1) {
+        throw new BadRequestException(
+          'Cada barco de la flota debe indicar una longitud válida o una clase conocida.',
+        );
+      }
+
+      if (!Number.isInteger(entry.count) || entry.count < 1) {
+        throw new BadRequestException(
+          'La cantidad de cada barco de la flota debe ser al menos 1.',
+        );
+      }
+
+      for (let i = 0; i < entry.count; i++) {
+        fleet.push({ size, shape });
+      }
+    }
+
+    if (fleet.length > this.MAX_FLEET_SHIPS) {
+      throw new BadRequestException(
+        `La flota no puede superar los ${this.MAX_FLEET_SHIPS} barcos por jugador.`,
+      );
+    }
+
+    return fleet.sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * Valida que la flota de la partida (personalizada o la de la dificultad) quepa
+   * en el tablero para cualquier cantidad de jugadores entre 2 y `maxPlayers`,
+   * usando los mismos límites de tamaño y ocupación que la generación del tablero.
+   * Descuenta el máximo de casillas que puede ocupar el terreno configurado.
+   *
+   * @param fleet Flota personalizada, o `undefined` para usar la de la dificultad
+   * @param dto Configuración de la partida
+   * @param boardSizeOffset Ajuste del lado del tablero según las reglas de la partida
+   * @throws BadRequestException Si la flota no cabe en el tablero
+   */
+  private validateFleet(
+    fleet: FleetShip[] | undefined,
+    dto: CreateGameDto,
+    boardSizeOffset: number,
+  ): void {
+    const error = this.boardGenerationService.validateFleetForPlayers(
+      fleet ??
+        this.boardGenerationService.getFleetForDifficulty(dto.difficulty),
+      dto.maxPlayers,
+      dto.difficulty,
+      dto.mode,
+      { map: dto.terrainMap, density: dto.terrainDensity },
+      boardSizeOffset,
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        fleet
+          ? `La flota personalizada no es válida. ${error}`
+          : `La flota de la dificultad no es compatible con el terreno o el tamaño de tablero elegidos. ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Convierte los límites enviados por tipo de disparo en la configuración del arsenal.
+   *
+   * @param entries Límites personalizados
+   * @returns Configuración del arsenal indexada por tipo de disparo
+   * @throws BadRequestException Si algún tipo es inválido, se repite o sus límites no son válidos
+   */
+  private resolveArsenal(entries: ShotLimitDto[]): ArsenalConfig {
+    const arsenal: ArsenalConfig = {};
+
+    for (const entry of entries) {
+      if (!LIMITED_SHOT_TYPES.includes(entry.type)) {
+        throw new BadRequestException(
+          `Solo se pueden limitar los disparos: ${LIMITED_SHOT_TYPES.join(', ')}.`,
+        );
+      }
+
+      if (arsenal[entry.type]) {
+        throw new BadRequestException(
+          `El disparo ${entry.type} está repetido en el arsenal.`,
+        );
+      }
+
+      const { ammo, cooldown } = entry;
+
+      if (
+        ammo !== undefined &&
+        ammo !== null &&
+        (!Number.isInteger(ammo) || ammo < 0)
+      ) {
+        throw new BadRequestException(
+          'La munición de cada disparo debe ser un entero mayor o igual a 0.',
+        );
+      }
+
+      if (
+        cooldown !== undefined &&
+        (!Number.isInteger(cooldown) || cooldown < 1)
+      ) {
+        throw new BadRequestException(
+          'El enfriamiento de cada disparo debe ser un entero mayor o igual a 1.',
+        );
+      }
+
+      const limit: ShotLimit = {};
+      if (ammo !== undefined) limit.ammo = ammo;
+      if (cooldown !== undefined) limit.cooldown = cooldown;
+
+      arsenal[entry.type] = limit;
+    }
+
+    return arsenal;
+  }
 }
@@ -0,0 +1,186 @@
+import { FireShotUseCase } from './fire-shot.use-case';
+import { ShotRepository } from '../../domain/repository/shot.repository';
+import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
+import { ShotEvaluatorLogic } from '../../domain/logic/shot-evaluator.logic';
+import { Board } from '../../domain/models/board.model';
+import { Shot, ShotTarget, ShotType } from '../../domain/models/shot.model';
+import { getLaunchTarget } from '../../domain/logic/shot-type.registry';
+
+describe('FireShotUseCase', () => {
+  const gameId = 1;
+  const shooterId = 10;
+  const enemyId = 20;
+
+  let shotRepository: { registerShot: jest.Mock };
+  let useCase: FireShotUseCase;
+
+  const miss = (row: number, col: number): Shot => ({
+    id: row * 10 + col,
+    gameId,
+    shooterId: enemyId,
+    type: 'simple',
+    target: { row, col },
+    hit: false,
+    createdAt: new Date(0).toISOString(),
+  });
+
+  const createBoard = (shots: Shot[]): Board => ({
+    size: 5,
+    ships: [
+      {
+        shipId: 1,
+        ownerId: enemyId,
+        teamId: null,
+        positions: [{ row: 3, col: 3, isHit: false }],
+        isSunk: false,
+      },
+    ],
+    shots,
+  });
+
+  const torpedo = (board: Board, direction: 'east' | 'west' = 'east') => ({
+    gameId,
+    shooterId,
+    type: 'torpedo' as ShotType,
+    target: getLaunchTarget('torpedo', 0, 0, board.size, direction),
+    board,
+    random: () => 0,
+    direction,
+  });
+
+  beforeEach(() => {
+    shotRepository = {
+      registerShot: jest.fn(
+        (
+          game: number,
+          shooter: number,
+          type: ShotType,
+          target: ShotTarget,
+          hit: boolean,
+        ) =>
+          Promise.resolve({
+            id: 99,
+            gameId: game,
+            shooterId: shooter,
+            type,
+            target,
+            hit,
+            createdAt: new Date(0),
+          }),
+      ),
+    };
+
+    useCase = new FireShotUseCase(
+      shotRepository as unknown as ShotRepository,
+      {
+        getAllTeams: jest.fn().mockResolvedValue({}),
+      } as unknown as TeamStateRedis,
+      new ShotEvaluatorLogic(),
+    );
+  });
+
+  describe('torpedo', () => {
+    it('impacta en la última casilla libre si el borde contrario ya fue disparado', async () => {
+      const board = createBoard([miss(0, 4)]);
+
+      const result = await useCase.registerShot(torpedo(board));
+
+      expect(shotRepository.registerShot).toHaveBeenCalledWith(
+        gameId,
+        shooterId,
+        'torpedo',
+        { row: 0, col: 3 },
+        false,
+      );
+      expect(result.impacts).toHaveLength(1);
+      expect(result.shot.target).toEqual({ row: 0, col: 3 });
+      expect(result.updatedBoard.shots).toHaveLength(2);
+    });
+
+    it('no permite sondear una fila gratis: el disparo siempre se registra como un disparo nuevo', async () => {
+      const board = createBoard([miss(0, 3), miss(0, 4)]);
+
+      await expect(useCase.hasImpact(torpedo(board))).resolves.toBe(true);
+
+      const result = await useCase.registerShot(torpedo(board));
+
+      expect(result.shot.target).toEqual({ row: 0, col: 2 });
+      expect(
+        result.updatedBoard.shots.filter(
+          (shot) => shot.target.row === 0 && shot.target.col === 2,
+        ),
+      ).toHaveLength(1);
+    });
+
+    it('no tiene impacto si todas las casillas de su recorrido ya fueron disparadas', async () => {
+      const board = createBoard([0, 1, 2, 3, 4].map((col) => miss(0, col)));
+
+      await expect(useCase.hasImpact(torpedo(board))).resolves.toBe(false);
+    });
+  });
+
+  describe('validateSalvo', () => {
+    const ownShip = (shipId: number, row: number, col: number) => ({
+      shipId,
+      ownerId: shooterId,
+      teamId: null,
+      positions: [{ row, col, isHit: false }],
+      isSunk: false,
+    });
+
+    const salvo = (board: Board, targets: ShotTarget[], friendlyFire = false) =>
+      useCase.validateSalvo({
+        gameId,
+        shooterId,
+        shotType: 'simple',
+        targets,
+        board,
+        friendlyFire,
+      });
+
+    it('rechaza las casillas de barcos propios sin fuego amigo', async () => {
+      const board = createBoard([]);
+      board.ships.push(ownShip(2, 4, 0));
+
+      await expect(salvo(board, [{ row: 4, col: 0 }])).resolves.toBe(
+        'No puedes disparar a tus barcos ni a los de tu equipo.',
+      );
+      await expect(salvo(board, [{ row: 4, col: 0 }], true)).resolves.toBe(
+        null,
+      );
+    });
+
+    it('no cuenta las casillas de barcos propios como disponibles sin fuego amigo', async () => {
+      const board: Board = {
+        size: 3,
+        ships: [
+          ownShip(1, 0, 0),
+          ownShip(2, 2, 2),
+          {
+            shipId: 3,
+            ownerId: enemyId,
+            teamId: null,
+            positions: [{ row: 1, col: 1, isHit: false }],
+            isSunk: false,
+          },
+        ],
+        shots: [
+          [0, 1],
+          [0, 2],
+          [1, 0],
+          [1, 2],
+          [2, 0],
+          [2, 1],
+        ].map(([row, col]) => miss(row, col)),
+      };
+
+      await expect(salvo(board, [{ row: 1, col: 1 }])).resolves.toBe(null);
+      await expect(
+        salvo(board, [
+          { row: 1, col: 1 },
+          { row: 0, col: 0 },
+        ]),
+      ).resolves.toBe('Tu andanada debe tener exactamente 1 disparo(s).');
+    });
+  });
+});
@@ -1,18 +1,35 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Board } from '../../domain/models/board.model';
-import { Shot, ShotType, ShotTarget } from '../../domain/models/shot.model';
+import {
+  Shot,
+  ShotDirection,
+  ShotImpact,
+  ShotResult,
+  ShotType,
+  ShotTarget,
+} from '../../domain/models/shot.model';
 import { ShotRepository } from '../../domain/repository/shot.repository';
 import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
 import { ShotEvaluatorLogic } from '../../domain/logic/shot-evaluator.logic';
+import { getShotTypeDefinition } from '../../domain/logic/shot-type.registry';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
+import {
+  CombatRecord,
+  CombatRecordKind,
+} from '../../domain/models/combat.model';
+import { Ship } from '../../domain/models/ship.model';
+import { TurnLogicUseCase } from './turn-logic.use-case';
 
 /**
  * Caso de uso que orquesta la ejecución de un disparo durante la partida.
  *
  * Este servicio gestiona:
- * - Validación de objetivos (ya disparados o aliados)
+ * - Validación de objetivos (ya disparados o aliados, salvo con fuego amigo)
+ * - Absorción de disparos por arrecifes
  * - Generación de coordenadas afectadas por el tipo de disparo
  * - Evaluación de impactos y hundimientos
  * - Registro del disparo principal en la base de datos
+ * - Atribución de daños, hundimientos y eliminaciones (historial de combate)
  * - Actualización del tablero en memoria
  */
 @Injectable()
@@ -28,11 +45,14 @@ export class FireShotUseCase {
   /**
    * Registra un disparo ejecutado por un jugador.
    *
-   * Genera los objetivos afectados por el tipo de disparo, filtra los inválidos,
-   * evalúa impactos, registra el disparo principal y actualiza el tablero.
+   * Resuelve los objetivos afectados por el tipo de disparo, evalúa impactos,
+   * registra el disparo principal y actualiza el tablero.
    *
-   * @param params Información del disparo: ID de juego, jugador, tipo, objetivo inicial y tablero actual.
-   * @returns Objeto con el disparo principal registrado y el tablero actualizado con todos los impactos.
+   * @param params Información del disparo: ID de juego, jugador, tipo, objetivo inicial, tablero actual,
+   * generador aleatorio sembrado de la partida, dirección (solo armas direccionales) y si la
+   * partida tiene fuego amigo (los barcos propios y aliados se impactan como cualquier otro).
+   * @returns Objeto con el disparo principal registrado, el resultado de cada casilla alcanzada,
+   * los registros de combate que generó y el tablero actualizado con todos los impactos.
    *
    * @throws Error si no se logra registrar el disparo principal.
    */
@@ -42,83 +62,45 @@ export class FireShotUseCase {
     type: ShotType;
     target: ShotTarget;
     board: Board;
+    random: RandomGenerator;
+    direction?: ShotDirection;
+    friendlyFire?: boolean;
   }): Promise<{
     shot: Shot;
+    impacts: ShotImpact[];
+    records: CombatRecord[];
     updatedBoard: Board;
   }> {
-    const { gameId, shooterId, type, target, board } = params;
+    const { gameId, shooterId, type, board } = params;
 
-    // 1. Obtener el mapa de equipos desde Redis (formato userId → teamId)
-    const teams = await this.teamStateRedis.getAllTeams(gameId);
-
-    // 2. Generar coordenadas afectadas según el tipo de disparo
-    const targets = this.shotEvaluator.generateTargetsForShotType(
-      type,
-      target,
-      board.size,
-    );
-
-    this.logger.debug(
-      `Generadas ${targets.length} coordenadas para disparo tipo ${type}`,
-    );
+    // 1. Resolver el objetivo principal y las coordenadas afectadas
+    const { target, targets: validTargets } = await this.resolveTargets(params);
 
-    // 3. Inicializar estructuras de control
     let primaryShot: Shot | null = null;
-    const validTargets: ShotTarget[] = [];
-
-    // 4. Filtrar coordenadas ya disparadas o que impactan barcos aliados
-    for (const currentTarget of targets) {
-      const alreadyShot = board.shots?.some(
-        (shot) =>
-          shot.target.row === currentTarget.row &&
-          shot.target.col === currentTarget.col,
-      );
-
-      if (alreadyShot) {
-        this.logger.debug(
-          `Objetivo (${currentTarget.row},${currentTarget.col}) ya disparado, se omite.`,
-        );
-        continue;
-      }
-
-      const isAlliedShip = this.shotEvaluator.isAlliedShipPosition(
-        board.ships,
-        currentTarget.row,
-        currentTarget.col,
-        shooterId,
-        teams,
-      );
-
-      if (isAlliedShip) {
-        this.logger.debug(
-          `Objetivo (${currentTarget.row},${currentTarget.col}) contiene barco aliado, se omite.`,
-        );
-        continue;
-      }
-
-      validTargets.push(currentTarget);
-    }
+    const impacts: ShotImpact[] = [];
+    const records: CombatRecord[] = [];
 
-    // 5. Si no hay objetivos válidos, usar solo el original
-    if (validTargets.length === 0) {
-      this.logger.warn(
-        `No hay objetivos válidos para el disparo tipo ${type}, se usará solo el objetivo principal.`,
-      );
-      validTargets.push(target);
-    }
-
-    // 6. Procesar impactos en cada coordenada válida
+    // 2. Procesar impactos en cada coordenada válida (los arrecifes absorben el impacto)
     for (const currentTarget of validTargets) {
-      const result = ShotEvaluatorLogic.evaluate(
-        board.ships,
-        currentTarget.row,
-        currentTarget.col,
-      );
+      const isReef =
+        this.shotEvaluator.getTerrainAt(
+          board.terrain,
+          currentTarget.row,
+          currentTarget.col,
+        ) === 'reef';
+
+      const result: ShotResult = isReef
+        ? { hit: false, absorbed: true }
+        : ShotEvaluatorLogic.evaluate(
+            board.ships,
+            currentTarget.row,
+            currentTarget.col,
+          );
 
       const isMainShot =
         currentTarget.row === target.row && currentTarget.col === target.col;
 
-      // 7. Registrar el disparo principal en base de datos
+      // 3. Registrar el disparo principal en base de datos
       if (isMainShot) {
         const createdShot = await this.shotRepository.registerShot(
           gameId,
@@ -136,16 +118,17 @@ export class FireShotUseCase {
           target: createdShot.target as ShotTarget,
           hit: createdShot.hit,
           sunkShipId: result.sunkShipId,
+          absorbed: result.absorbed,
           createdAt: createdShot.createdAt.toISOString(),
         };
       }
 
-      // 8. Inicializar estructura de disparos si aún no existe
+      // 4. Inicializar estructura de disparos si aún no existe
       if (!board.shots) {
         board.shots = [];
       }
 
-      // 9. Construir el disparo visual y añadirlo al tablero
+      // 5. Construir el disparo visual y añadirlo al tablero
       const shotToAdd: Shot =
         isMainShot && primaryShot
           ? { ...primaryShot }
@@ -157,22 +140,458 @@ export class FireShotUseCase {
               target: currentTarget,
               hit: result.hit,
               sunkShipId: result.sunkShipId,
+              absorbed: result.absorbed,
               createdAt: new Date().toISOString(),
             };
 
       board.shots.push(shotToAdd);
+
+      // 6. Registrar el resultado de la casilla y atribuir el daño al tirador
+      const ship = result.hit
+        ? board.ships.find((s) =>
+            s.positions.some(
+              (p) => p.row === currentTarget.row && p.col === currentTarget.col,
+            ),
+          )
+        : undefined;
+
+      impacts.push(this.buildImpact(currentTarget, result, ship));
+
+      if (ship && ship.ownerId !== null) {
+        records.push(
+          this.buildRecord('hit', shooterId, ship.ownerId, type, ship.shipId),
+        );
+
+        if (result.sunkShipId !== undefined) {
+          records.push(
+            this.buildRecord(
+              'sink',
+              shooterId,
+              ship.ownerId,
+              type,
+              ship.shipId,
+            ),
+          );
+        }
+      }
     }
 
-    // 10. Validar que el disparo principal se haya registrado correctamente
+    // 7. Registrar las eliminaciones: dueños de barcos dañados que quedaron sin barcos a flote
+    const victims = new Set(records.map((record) => record.victimUserId));
+    for (const victimUserId of victims) {
+      if (!TurnLogicUseCase.hasShipsAlive(board, victimUserId)) {
+        records.push(
+          this.buildRecord('elimination', shooterId, victimUserId, type),
+        );
+      }
+    }
+
+    board.combatLog = [...(board.combatLog ?? []), ...records];
+
+    // 8. Validar que el disparo principal se haya registrado correctamente
     if (!primaryShot) {
       this.logger.error('No se pudo registrar el disparo principal');
       throw new Error('Error al registrar el disparo principal');
     }
 
-    // 11. Devolver el disparo principal y el tablero actualizado
+    // 9. Devolver el disparo principal, los impactos, los registros de combate y el tablero actualizado
     return {
       shot: primaryShot,
+      impacts,
+      records,
       updatedBoard: board,
     };
   }
+
+  /**
+   * Resuelve las coordenadas que afectaría un disparo, sin registrarlo.
+   *
+   * Genera el patrón del tipo de disparo (un arrecife en el objetivo principal absorbe
+   * el disparo completo), ajusta el objetivo principal de las armas direccionales al
+   * punto de impacto y descarta las casillas ya disparadas y las de barcos aliados
+   * (salvo con fuego amigo). La vista previa de disparos usa este mismo cálculo.
+   *
+   * Las armas lanzadas desde el borde solo impactan en casillas libres de su recorrido:
+   * si no queda ninguna, no se devuelve ninguna coordenada afectada.
+   *
+   * @param params Información del disparo: ID de juego, jugador, tipo, objetivo inicial, tablero actual,
+   * generador aleatorio sembrado de la partida, dirección y si la partida tiene fuego amigo.
+   * @returns Objetivo principal (punto de impacto) y coordenadas afectadas.
+   */
+  async resolveTargets(params: {
+    gameId: number;
+    shooterId: number;
+    type: ShotType;
+    target: ShotTarget;
+    board: Board;
+    random: RandomGenerator;
+    direction?: ShotDirection;
+    friendlyFire?: boolean;
+  }): Promise<{
+    target: ShotTarget;
+    targets: ShotTarget[];
+  }> {
+    const { gameId, shooterId, type, board, random, direction, friendlyFire } =
+      params;
+    let { target } = params;
+
+    // 1. Obtener el mapa de equipos desde Redis (formato userId → teamId)
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+
+    // 2. Generar coordenadas afectadas según el tipo de disparo.
+    // Un arrecife en el objetivo principal absorbe el disparo completo; las armas lanzadas
+    // desde el borde no apuntan a su casilla de lanzamiento y se detienen solas en los arrecifes.
+    const fromEdge = getShotTypeDefinition(type).origin === 'row';
+    const mainOnReef =
+      !fromEdge &&
+      this.shotEvaluator.getTerrainAt(board.terrain, target.row, target.col) ===
+        'reef';
+
+    const targets = mainOnReef
+      ? [target]
+      : this.shotEvaluator.generateTargetsForShotType(
+          type,
+          target,
+          board.size,
+          random,
+          board.terrain,
+          {
+            direction,
+            isObstacle: (row, col) =>
+              this.shotEvaluator.getTerrainAt(board.terrain, row, col) ===
+                'reef' ||
+              (friendlyFire
+                ? this.shotEvaluator.isIntactShipPartAt(board.ships, row, col)
+                : this.shotEvaluator.isEnemyShipAfloatAt(
+                    board.ships,
+                    row,
+                    col,
+                    shooterId,
+                    teams,
+                  )),
+            isOpen: (row, col) =>
+              !board.shots?.some(
+                (shot) => shot.target.row === row && shot.target.col === col,
+              ) &&
+              (friendlyFire ||
+                !this.shotEvaluator.isAlliedShipPosition(
+                  board.ships,
+                  row,
+                  col,
+                  shooterId,
+                  teams,
+                )),
+          },
+        );
+
+    // Las armas direccionales (torpedo) no incluyen la coordenada indicada:
+    // su disparo principal es la primera casilla del patrón (punto de impacto).
+    if (
+      targets.length > 0 &&
+      !targets.some((t) => t.row === target.row && t.col === target.col)
+    ) {
+      target = targets[0];
+    }
+
+    this.logger.debug(
+      `Generadas ${targets.length} coordenadas para disparo tipo ${type}`,
+    );
+
+    // 3. Filtrar coordenadas ya disparadas o que impactan barcos aliados (salvo con fuego amigo)
+    const validTargets: ShotTarget[] = [];
+
+    for (const currentTarget of targets) {
+      const alreadyShot = board.shots?.some(
+        (shot) =>
+          shot.target.row === currentTarget.row &&
+          shot.target.col === currentTarget.col,
+      );
+
+      if (alreadyShot) {
+        this.logger.debug(
+          `Objetivo (${currentTarget.row},${currentTarget.col}) ya disparado, se omite.`,
+        );
+        continue;
+      }
+
+      const isAlliedShip =
+        !friendlyFire &&
+        this.shotEvaluator.isAlliedShipPosition(
+          board.ships,
+          currentTarget.row,
+          currentTarget.col,
+          shooterId,
+          teams,
+        );
+
+      if (isAlliedShip) {
+        this.logger.debug(
+          `Objetivo (${currentTarget.row},${currentTarget.col}) contiene barco aliado, se omite.`,
+        );
+        continue;
+      }
+
+      validTargets.push(currentTarget);
+    }
+
+    // 4. Si no hay objetivos válidos, usar solo el original (las armas lanzadas desde el borde no impactan)
+    if (validTargets.length === 0 && !fromEdge) {
+      this.logger.warn(
+        `No hay objetivos válidos para el disparo tipo ${type}, se usará solo el objetivo principal.`,
+      );
+      validTargets.push(target);
+    }
+
+    return { target, targets: validTargets };
+  }
+
+  /**
+   * Indica si un disparo alcanzaría al menos una casilla.
+   *
+   * Se usa con las armas que entran por el borde (torpedo): atraviesan casillas ya
+   * disparadas e impactan en la última casilla libre de su recorrido, por lo que solo
+   * se quedan sin objetivo si toda la fila alcanzable ya fue disparada (o es aliada).
+   * Esa información es pública, por lo que rechazar el disparo no revela barcos ocultos.
+   *
+   * @param params Información del disparo (la misma que recibe `resolveTargets`).
+   * @returns `true` si el disparo tiene al menos una casilla afectada.
+   */
+  async hasImpact(params: {
+    gameId: number;
+    shooterId: number;
+    type: ShotType;
+    target: ShotTarget;
+    board: Board;
+    random: RandomGenerator;
+    direction?: ShotDirection;
+    friendlyFire?: boolean;
+  }): Promise<boolean> {
+    const { targets } = await this.resolveTargets(params);
+
+    return targets.length > 0;
+  }
+
+  /**
+   * Valida una andanada completa de la variante salvo.
+   *
+   * La andanada debe tener exactamente un disparo por barco propio a flote (o tantos
+   * como casillas queden por disparar, si son menos). Sin fuego amigo, las casillas
+   * de barcos propios y aliados no pueden ser objetivo ni cuentan como disponibles.
+   *
+   * @param params Información de la andanada: ID de juego, jugador, tipo de disparo solicitado
+   * (solo se admite `simple`), coordenadas, tablero actual y si la partida tiene fuego amigo.
+   * @returns Motivo del rechazo, o `null` si la andanada es válida
+   */
+  async validateSalvo(params: {
+    gameId: number;
+    shooterId: number;
+    shotType: ShotType;
+    targets: ShotTarget[];
+    board: Board;
+    friendlyFire?: boolean;
+  }): Promise<string | null> {
+    const { gameId, shooterId, shotType, targets, board, friendlyFire } =
+      params;
+
+    if (shotType !== 'simple') {
+      return 'En la variante salvo solo se permiten disparos simples.';
+    }
+
+    if (targets.length === 0) {
+      return 'Debes indicar las coordenadas de la andanada.';
+    }
+
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+    const isAllied = (row: number, col: number) =>
+      !friendlyFire &&
+      this.shotEvaluator.isAlliedShipPosition(
+        board.ships,
+        row,
+        col,
+        shooterId,
+        teams,
+      );
+
+    const required = Math.min(
+      TurnLogicUseCase.countShipsAlive(board, shooterId),
+      this.countOpenCells(board, isAllied),
+    );
+    if (targets.length !== required) {
+      return `Tu andanada debe tener exactamente ${required} disparo(s).`;
+    }
+
+    const seen = new Set<string>();
+
+    for (const { row, col } of targets) {
+      if (
+        !Number.isInteger(row) ||
+        !Number.isInteger(col) ||
+        row < 0 ||
+        row >= board.size ||
+        col < 0 ||
+        col >= board.size
+      ) {
+        return 'La andanada contiene coordenadas fuera del tablero.';
+      }
+
+      const key = `${row}:${col}`;
+      if (seen.has(key)) {
+        return 'La andanada contiene coordenadas repetidas.';
+      }
+      seen.add(key);
+
+      if (
+        board.shots?.some(
+          (shot) => shot.target.row === row && shot.target.col === col,
+        )
+      ) {
+        return 'Ya se ha disparado en esta posición anteriormente.';
+      }
+
+      if (
+        this.shotEvaluator.getTerrainAt(board.terrain, row, col) === 'island'
+      ) {
+        return 'No puedes disparar a una isla.';
+      }
+
+      if (isAllied(row, col)) {
+        return 'No puedes disparar a tus barcos ni a los de tu equipo.';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Registra una andanada de disparos simples (variante salvo).
+   *
+   * Los disparos se resuelven en orden sobre el mismo tablero, de modo que
+   * cada uno ve los impactos de los anteriores. Todos se registran antes de
+   * que el turno avance.
+   *
+   * @param params Información de la andanada: ID de juego, jugador, coordenadas, tablero actual,
+   * generador aleatorio sembrado de la partida y si la partida tiene fuego amigo.
+   * @returns Disparos registrados (en el orden recibido) con el resultado de sus casillas,
+   * los registros de combate de toda la andanada y el tablero actualizado.
+   */
+  async registerSalvo(params: {
+    gameId: number;
+    shooterId: number;
+    targets: ShotTarget[];
+    board: Board;
+    random: RandomGenerator;
+    friendlyFire?: boolean;
+  }): Promise<{
+    shots: { shot: Shot; impacts: ShotImpact[] }[];
+    records: CombatRecord[];
+    updatedBoard: Board;
+  }> {
+    const { gameId, shooterId, targets, random, friendlyFire } = params;
+    let board = params.board;
+    const shots: { shot: Shot; impacts: ShotImpact[] }[] = [];
+    const records: CombatRecord[] = [];
+
+    for (const target of targets) {
+      const result = await this.registerShot({
+        gameId,
+        shooterId,
+        type: 'simple',
+        target,
+        board,
+        random,
+        friendlyFire,
+      });
+
+      shots.push({ shot: result.shot, impacts: result.impacts });
+      records.push(...result.records);
+      board = result.updatedBoard;
+    }
+
+    this.logger.log(
+      `Andanada registrada: gameId=${gameId}, shooterId=${shooterId}, disparos=${shots.length}, impactos=${shots.filter(({ shot }) => shot.hit).length}`,
+    );
+
+    return { shots, records, updatedBoard: board };
+  }
+
+  /**
+   * Cuenta las casillas que todavía pueden ser objetivo de un disparo
+   * (ni disparadas anteriormente, ni islas, ni casillas excluidas por el llamador).
+   *
+   * @param board Tablero actual.
+   * @param isExcluded Casillas que tampoco pueden ser objetivo (barcos aliados sin fuego amigo).
+   * @returns Cantidad de casillas disponibles.
+   * @private
+   */
+  private countOpenCells(
+    board: Board,
+    isExcluded: (row: number, col: number) => boolean,
+  ): number {
+    const closed = new Set(
+      (board.shots ?? []).map(
+        (shot) => `${shot.target.row}:${shot.target.col}`,
+      ),
+    );
+    for (const cell of board.terrain ?? []) {
+      if (cell.type === 'island') closed.add(`${cell.row}:${cell.col}`);
+    }
+    for (const ship of board.ships) {
+      for (const { row, col } of ship.positions) {
+        if (isExcluded(row, col)) closed.add(`${row}:${col}`);
+      }
+    }
+
+    return board.size * board.size - closed.size;
+  }
+
+  /**
+   * Construye el resultado visible de una casilla alcanzada.
+   *
+   * @param target Casilla alcanzada.
+   * @param result Resultado de la evaluación.
+   * @param ship Barco dañado en la casilla (solo en impactos).
+   * @returns Impacto con resultado, barco hundido y dueño del barco dañado.
+   * @private
+   */
+  private buildImpact(
+    target: ShotTarget,
+    result: ShotResult,
+    ship?: Ship,
+  ): ShotImpact {
+    return {
+      x: target.col,
+      y: target.row,
+      result: result.absorbed ? 'absorbed' : result.hit ? 'hit' : 'miss',
+      sunkShipId: result.sunkShipId,
+      shipOwnerId: ship?.ownerId ?? undefined,
+    };
+  }
+
+  /**
+   * Construye un registro de combate.
+   *
+   * @param kind Tipo de registro (daño, hundimiento o eliminación).
+   * @param attackerUserId ID del jugador que disparó.
+   * @param victimUserId ID del dueño del barco afectado.
+   * @param shotType Tipo de disparo utilizado.
+   * @param shipId ID del barco afectado (daños y hundimientos).
+   * @returns Registro de combate.
+   * @private
+   */
+  private buildRecord(
+    kind: CombatRecordKind,
+    attackerUserId: number,
+    victimUserId: number,
+    shotType: ShotType,
+    shipId?: number,
+  ): CombatRecord {
+    return {
+      kind,
+      attackerUserId,
+      victimUserId,
+      shipId,
+      shotType,
+      createdAt: new Date().toISOString(),
+    };
+  }
 }
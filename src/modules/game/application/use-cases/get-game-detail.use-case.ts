@@ -0,0 +1,112 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { GameDetailDto } from '../../domain/dto/game-detail.dto';
+import { GameStatus } from '../../../../prisma/prisma.enum';
+import { GameWithDetails } from '../../../../prisma/prisma.types';
+import { ReadyStateRedis } from '../../infrastructure/redis/ready-state.redis';
+import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
+import { TurnStateRedis } from '../../infrastructure/redis/turn-state.redis';
+import { RoundStateRedis } from '../../infrastructure/redis/round-state.redis';
+import { SocketServerAdapter } from '../../infrastructure/adapters/socket-server.adapter';
+import { GameMapper } from '../mapper/game.mapper';
+
+/**
+ * Caso de uso que obtiene el detalle de una partida.
+ *
+ * Cualquier usuario autenticado ve la configuración, el creador, el estado y la
+ * ocupación de la partida (para enlaces directos y vistas previas). Solo sus jugadores
+ * y espectadores ven además la lista de jugadores (con equipo y estado "listo")
+ * y el turno o la ronda en curso.
+ */
+@Injectable()
+export class GetGameDetailUseCase {
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly readyStateRedis: ReadyStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly turnStateRedis: TurnStateRedis,
+    private readonly roundStateRedis: RoundStateRedis,
+    private readonly socketServerAdapter: SocketServerAdapter,
+  ) {}
+
+  /**
+   * Obtiene el detalle de una partida según quién lo consulta.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario que consulta
+   * @returns Detalle de la partida (con el estado de la sala solo si el usuario participa)
+   * @throws NotFoundException Si la partida no existe
+   */
+  async execute(gameId: number, userId: number): Promise<GameDetailDto> {
+    // 1. Obtener la partida con sus jugadores, espectadores y creador
+    const game = await this.gameRepository.findByIdWithDetails(gameId);
+    if (!game) {
+      throw new NotFoundException('Partida no encontrada.');
+    }
+
+    // 2. Determinar si el usuario participa en la partida
+    const isMember =
+      game.gamePlayers.some((p) => p.userId === userId) ||
+      game.spectators.some((s) => s.userId === userId);
+
+    const detail = GameMapper.toDetail(game, isMember);
+    if (!isMember) return detail;
+
+    // 3. Agregar el estado de la sala y del turno, solo visible para los miembros
+    return {
+      ...detail,
+      players: await this.getPlayers(game),
+      ...(await this.getTurnState(game)),
+    };
+  }
+
+  /**
+   * Construye la lista de jugadores con su equipo y estado "listo".
+   *
+   * El estado "listo" se guarda por socket, por lo que un jugador está listo
+   * si alguno de sus sockets conectados a la sala lo está.
+   *
+   * @param game Partida con sus jugadores
+   * @returns Jugadores de la partida
+   * @private
+   */
+  private async getPlayers(game: GameWithDetails) {
+    const [readySocketIds, teams] = await Promise.all([
+      this.readyStateRedis.getAllReady(game.id),
+      this.teamStateRedis.getAllTeams(game.id),
+    ]);
+    const userSockets = this.socketServerAdapter.getUsersInGame(game.id);
+
+    return game.gamePlayers.map((p) => ({
+      userId: p.userId,
+      nickname: p.user.nickname,
+      color: p.user.color,
+      team: teams[p.userId] ?? p.team,
+      ready: (userSockets.get(p.userId) ?? []).some((socketId) =>
+        readySocketIds.includes(socketId),
+      ),
+      eliminated: p.leftAt !== null,
+    }));
+  }
+
+  /**
+   * Obtiene el turno (partidas por turnos) o la ronda (partidas simultáneas) en curso.
+   *
+   * @param game Partida consultada
+   * @returns Turno o ronda en curso (vacío si la partida no está en curso)
+   * @private
+   */
+  private async getTurnState(
+    game: GameWithDetails,
+  ): Promise<Pick<GameDetailDto, 'currentTurnUserId' | 'currentRound'>> {
+    if (game.status !== GameStatus.in_progress) return {};
+
+    if (game.turnMode === 'simultaneous') {
+      return { currentRound: await this.roundStateRedis.getRound(game.id) };
+    }
+
+    return {
+      currentTurnUserId: await this.turnStateRedis.getCurrentTurn(game.id),
+    };
+  }
+}
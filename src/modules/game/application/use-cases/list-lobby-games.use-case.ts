@@ -0,0 +1,167 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { LobbyGamesPageDto } from '../../domain/dto/lobby-game.dto';
+import {
+  LOBBY_SORTS,
+  LobbyCursor,
+  LobbyFilters,
+  LobbySort,
+} from '../../domain/models/lobby.model';
+import { RULES_PRESETS } from '../../domain/logic/game-rules.presets';
+import { GameMapper } from '../mapper/game.mapper';
+
+/**
+ * Caso de uso que lista las partidas públicas a las que un jugador puede unirse.
+ *
+ * Solo devuelve partidas públicas en espera con lugares libres (nunca salas de
+ * matchmaking ni partidas llenas), con filtros opcionales, orden y paginación por cursor.
+ *
+ * El cursor es opaco para el cliente: codifica los valores de orden de la última partida
+ * devuelta, de modo que la página siguiente no depende de que esa partida siga existiendo.
+ */
+@Injectable()
+export class ListLobbyGamesUseCase {
+  /** Cantidad de partidas por página si no se indica `limit` */
+  private readonly DEFAULT_LIMIT = 20;
+
+  /** Cantidad máxima de partidas por página */
+  private readonly MAX_LIMIT = 50;
+
+  constructor(private readonly gameRepository: GameRepository) {}
+
+  /**
+   * Obtiene una página de la lista pública de partidas.
+   *
+   * @param query Filtros (`mode`, `difficulty`, `turnMode`, `preset`, `requiresAccessCode`),
+   * orden (`sort`), tamaño de página (`limit`) y cursor de la página anterior (`cursor`)
+   * @returns Partidas de la página y cursor de la página siguiente
+   * @throws BadRequestException Si algún filtro, el orden, el tamaño de página o el cursor no son válidos
+   */
+  async execute(query: {
+    mode?: string;
+    difficulty?: string;
+    turnMode?: string;
+    preset?: string;
+    requiresAccessCode?: boolean;
+    sort?: string;
+    limit?: number;
+    cursor?: string;
+  }): Promise<LobbyGamesPageDto> {
+    // 1. Validar filtros y orden
+    const filters: LobbyFilters = {
+      mode: this.parseOption(query.mode, ['individual', 'teams'], 'mode'),
+      difficulty: this.parseOption(
+        query.difficulty,
+        ['easy', 'medium', 'hard'],
+        'difficulty',
+      ),
+      turnMode: this.parseOption(
+        query.turnMode,
+        ['sequential', 'simultaneous'],
+        'turnMode',
+      ),
+      preset: this.parseOption(query.preset, RULES_PRESETS, 'preset'),
+      requiresAccessCode: query.requiresAccessCode,
+    };
+    const sort: LobbySort =
+      this.parseOption(query.sort, LOBBY_SORTS, 'sort') ?? 'newest';
+
+    // 2. Validar tamaño de página
+    const limit = query.limit ?? this.DEFAULT_LIMIT;
+    if (limit < 1 || limit > this.MAX_LIMIT) {
+      throw new BadRequestException(
+        `El tamaño de página debe estar entre 1 y ${this.MAX_LIMIT}.`,
+      );
+    }
+
+    // 3. Consultar la página y transformar cada partida
+    const { games, nextCursor } = await this.gameRepository.findLobbyGames(
+      filters,
+      sort,
+      limit,
+      query.cursor !== undefined ? this.decodeCursor(query.cursor) : undefined,
+    );
+
+    return {
+      games: games.map((game) => GameMapper.toLobbyGame(game)),
+      nextCursor: nextCursor ? this.encodeCursor(nextCursor) : null,
+    };
+  }
+
+  /**
+   * Codifica la posición de la última partida de la página como cursor opaco.
+   *
+   * @param cursor Valores de orden de la última partida devuelta
+   * @returns Cursor en base64url
+   * @private
+   */
+  private encodeCursor(cursor: LobbyCursor): string {
+    return Buffer.from(
+      JSON.stringify([
+        cursor.id,
+        cursor.createdAt.toISOString(),
+        cursor.maxPlayers,
+      ]),
+    ).toString('base64url');
+  }
+
+  /**
+   * Decodifica un cursor recibido del cliente.
+   *
+   * @param value Cursor en base64url (el `nextCursor` de la página anterior)
+   * @returns Valores de orden de la última partida de la página anterior
+   * @throws BadRequestException Si el cursor no tiene el formato esperado
+   * @private
+   */
+  private decodeCursor(value: string): LobbyCursor {
+    try {
+      const [id, createdAt, maxPlayers] = JSON.parse(
+        Buffer.from(value, 'base64url').toString('utf8'),
+      ) as [unknown, unknown, unknown];
+      const date = new Date(createdAt as string);
+
+      if (
+        Number.isInteger(id) &&
+        Number.isInteger(maxPlayers) &&
+        typeof createdAt === 'string' &&
+        !isNaN(date.getTime())
+      ) {
+        return {
+          id: id as number,
+          createdAt: date,
+          maxPlayers: maxPlayers as number,
+        };
+      }
+    } catch {
+      // Se trata igual que un cursor con formato incorrecto
+    }
+
+    throw new BadRequestException('Cursor de paginación no válido.');
+  }
+
+  /**
+   * Valida que un parámetro opcional sea uno de los valores admitidos.
+   *
+   * @param value Valor recibido (o `undefined` si no se indicó)
+   * @param allowed Valores admitidos
+   * @param name Nombre del parámetro (para el mensaje de error)
+   * @returns El valor tipado, o `undefined` si no se indicó
+   * @throws BadRequestException Si el valor no es uno de los admitidos
+   * @private
+   */
+  private parseOption<T extends string>(
+    value: string | undefined,
+    allowed: readonly T[],
+    name: string,
+  ): T | undefined {
+    if (value === undefined) return undefined;
+
+    if (!allowed.includes(value as T)) {
+      throw new BadRequestException(
+        `Valor de ${name} no válido (${allowed.join(', ')}).`,
+      );
+    }
+
+    return value as T;
+  }
+}
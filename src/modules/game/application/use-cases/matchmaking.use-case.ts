@@ -1,18 +1,23 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { GameRepository } from '../../domain/repository/game.repository';
 import { MatchmakingDto } from '../../domain/dto/matchmaking.dto';
 import { GameResponseDto } from '../../domain/dto/game-response.dto';
 import { GameMapper } from '../mapper/game.mapper';
+import { resolveGameRules } from '../../domain/logic/game-rules.presets';
+import { BoardGenerationUseCase } from './board-generation.use-case';
 
 /**
  * Caso de uso encargado de ingresar a un sistema de emparejamiento automático.
  *
- * El servicio busca una partida compatible disponible para el jugador actual.
+ * El servicio busca una partida compatible (incluidas sus reglas) disponible para el jugador actual.
  * Si no encuentra ninguna, crea una nueva automáticamente.
  */
 @Injectable()
 export class MatchmakingUseCase {
-  constructor(private readonly gameRepository: GameRepository) {}
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly boardGenerationService: BoardGenerationUseCase,
+  ) {}
 
   /**
    * Ejecuta el emparejamiento para el jugador dado.
@@ -20,12 +25,35 @@ export class MatchmakingUseCase {
    * Busca una partida existente que coincida con el criterio del jugador.
    * Si no hay coincidencia, crea una nueva y lo añade como primer jugador.
    *
-   * @param dto Datos de entrada del jugador para emparejamiento (modo, dificultad, etc.)
+   * @param dto Datos de entrada del jugador para emparejamiento (modo, dificultad, preset de reglas, etc.)
    * @param userId ID del jugador que desea entrar a una partida
    * @returns Detalle de la partida a la que fue asignado o creada
+   * @throws BadRequestException Si la flota de la dificultad no cabe en el tablero con las reglas elegidas
    */
   async execute(dto: MatchmakingDto, userId: number): Promise<GameResponseDto> {
-    const game = await this.gameRepository.findOrCreateMatch(dto, userId);
+    const rules = resolveGameRules(dto.preset, dto.rules);
+
+    // Las reglas pueden reducir el tablero; la flota debe caber con cualquier número de jugadores
+    const difficulty = dto.difficulty ?? 'medium';
+    const error = this.boardGenerationService.validateFleetForPlayers(
+      this.boardGenerationService.getFleetForDifficulty(difficulty),
+      dto.maxPlayers ?? 2,
+      difficulty,
+      dto.mode ?? 'individual',
+      {},
+      rules.boardSizeOffset,
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `La flota de la dificultad no es compatible con el tamaño de tablero elegido. ${error}`,
+      );
+    }
+    const game = await this.gameRepository.findOrCreateMatch(
+      dto,
+      userId,
+      rules,
+    );
     return GameMapper.toResponse(game);
   }
 }
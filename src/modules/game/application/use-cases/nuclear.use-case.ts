@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { getShotTypeDefinition } from '../../domain/logic/shot-type.registry';
+import { ShotType } from '../../domain/models/shot.model';
+import { NuclearOwner, NuclearStatus } from '../../domain/models/nuclear.model';
+import { NuclearStateRedis } from '../../infrastructure/redis/nuclear-state.redis';
+import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
+
+/**
+ * Caso de uso que gestiona el desbloqueo y el uso de la bomba nuclear.
+ *
+ * Cada acierto consecutivo de un disparo que cuenta para la racha nuclear
+ * (`countsTowardNuclear`) suma al medidor; un fallo lo reinicia. Al alcanzar
+ * el umbral de las reglas de la partida, la bomba se desbloquea y puede usarse una vez.
+ *
+ * En partidas por equipos creadas con `teamNuclear`, el medidor es del equipo:
+ * los aciertos de cualquier miembro suman, el fallo de cualquiera lo reinicia
+ * y la bomba desbloqueada la puede lanzar un solo miembro, una única vez.
+ */
+@Injectable()
+export class NuclearUseCase {
+  constructor(
+    private readonly nuclearStateRedis: NuclearStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+  ) {}
+
+  /**
+   * Determina a quién pertenece el medidor nuclear de un jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param teamNuclear Si la partida usa medidor compartido por equipo
+   * @returns Equipo del jugador si el medidor es compartido, o el propio jugador
+   */
+  async resolveOwner(
+    gameId: number,
+    userId: number,
+    teamNuclear: boolean,
+  ): Promise<NuclearOwner> {
+    if (teamNuclear) {
+      const team = await this.teamStateRedis.getPlayerTeam(gameId, userId);
+      if (team !== null) return { team };
+    }
+
+    return { userId };
+  }
+
+  /**
+   * Verifica si el dueño del medidor puede lanzar la bomba nuclear.
+   *
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor
+   * @returns `true` si la bomba está desbloqueada y aún no se usó
+   */
+  async canUse(gameId: number, owner: NuclearOwner): Promise<boolean> {
+    const [hasNuclear, used] = await Promise.all([
+      this.nuclearStateRedis.hasNuclearAvailable(gameId, owner),
+      this.nuclearStateRedis.hasNuclearUsed(gameId, owner),
+    ]);
+
+    return hasNuclear && !used;
+  }
+
+  /**
+   * Actualiza el medidor nuclear tras un disparo resuelto.
+   *
+   * - Los tipos que cuentan para la racha suman un acierto o reinician el progreso
+   * - Los tipos nucleares marcan la bomba como usada
+   *
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor
+   * @param type Tipo de disparo
+   * @param hit Si el disparo impactó algún barco enemigo
+   * @param threshold Aciertos necesarios para desbloquear la bomba
+   */
+  async registerShot(
+    gameId: number,
+    owner: NuclearOwner,
+    type: ShotType,
+    hit: boolean,
+    threshold: number,
+  ): Promise<void> {
+    const definition = getShotTypeDefinition(type);
+
+    if (definition.countsTowardNuclear) {
+      if (!hit) {
+        await this.nuclearStateRedis.resetNuclearProgress(gameId, owner);
+      } else if (
+        (await this.nuclearStateRedis.incrementNuclearProgress(
+          gameId,
+          owner,
+        )) === threshold
+      ) {
+        await this.nuclearStateRedis.unlockNuclear(gameId, owner);
+      }
+    }
+
+    if (definition.availability === 'nuclear') {
+      await this.nuclearStateRedis.markNuclearUsed(gameId, owner);
+    }
+  }
+
+  /**
+   * Obtiene el estado del medidor nuclear.
+   *
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor
+   * @param threshold Aciertos necesarios para desbloquear la bomba
+   * @returns Progreso, disponibilidad y uso de la bomba
+   */
+  async getStatus(
+    gameId: number,
+    owner: NuclearOwner,
+    threshold: number,
+  ): Promise<NuclearStatus> {
+    const [progress, hasNuclear, used] = await Promise.all([
+      this.nuclearStateRedis.getNuclearProgress(gameId, owner),
+      this.nuclearStateRedis.hasNuclearAvailable(gameId, owner),
+      this.nuclearStateRedis.hasNuclearUsed(gameId, owner),
+    ]);
+
+    return {
+      progress,
+      threshold,
+      hasNuclear,
+      used,
+      ...('team' in owner && { team: owner.team }),
+    };
+  }
+
+  /**
+   * Obtiene los jugadores que deben recibir el estado de un medidor nuclear.
+   *
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor
+   * @returns El propio jugador o todos los miembros del equipo
+   */
+  async getRecipients(gameId: number, owner: NuclearOwner): Promise<number[]> {
+    if (!('team' in owner)) return [owner.userId];
+
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+    return Object.entries(teams)
+      .filter(([, team]) => team === owner.team)
+      .map(([memberId]) => Number(memberId));
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { FireShotUseCase } from './fire-shot.use-case';
+import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
+import { ShotEvaluatorLogic } from '../../domain/logic/shot-evaluator.logic';
+import {
+  acceptsDirection,
+  getLaunchTarget,
+  getShotTypeDefinition,
+  isShotType,
+} from '../../domain/logic/shot-type.registry';
+import { Board } from '../../domain/models/board.model';
+import {
+  ShotDirection,
+  ShotPreview,
+  ShotTarget,
+} from '../../domain/models/shot.model';
+import { GameStatus } from '../../../../prisma/prisma.enum';
+import { parseBoard } from '../mapper/board.mapper';
+import {
+  RandomGenerator,
+  SeededRandomService,
+} from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Caso de uso que calcula, sin registrar nada, las casillas que afectaría un disparo.
+ *
+ * Usa el mismo cálculo que `FireShotUseCase.registerShot` (patrón del tipo de disparo,
+ * generador aleatorio de la partida, casillas ya disparadas y barcos aliados), de modo
+ * que el servidor sea la única fuente de verdad para dibujar el área de un disparo.
+ *
+ * Nunca revela información oculta: para las armas que se detienen en el primer barco
+ * enemigo (torpedo) se devuelve el recorrido completo en lugar del punto de impacto.
+ */
+@Injectable()
+export class PreviewShotUseCase {
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly shotService: FireShotUseCase,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly shotEvaluator: ShotEvaluatorLogic,
+    private readonly seededRandom: SeededRandomService,
+  ) {}
+
+  /**
+   * Calcula la vista previa de un disparo de un jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador que consulta
+   * @param query Tipo de disparo, coordenada elegida (`x` columna, `y` fila) y dirección opcional
+   * @returns Casillas que afectaría el disparo
+   * @throws NotFoundException Si la partida no existe
+   * @throws ForbiddenException Si el usuario no juega la partida
+   * @throws BadRequestException Si la partida no está en curso o el disparo no es válido
+   */
+  async execute(
+    gameId: number,
+    userId: number,
+    query: { shotType: string; x: number; y: number; direction?: string },
+  ): Promise<ShotPreview> {
+    const { shotType, x, y } = query;
+    const direction = query.direction as ShotDirection | undefined;
+
+    // 1. Validar el tipo de disparo y su dirección
+    if (!isShotType(shotType)) {
+      throw new BadRequestException('Tipo de disparo no válido.');
+    }
+    const definition = getShotTypeDefinition(shotType);
+
+    if (!acceptsDirection(shotType, direction)) {
+      throw new BadRequestException(
+        `El disparo ${shotType} requiere una dirección válida (${definition.directions?.allowed.join(', ')}).`,
+      );
+    }
+
+    // 2. Validar la partida y que el usuario sea uno de sus jugadores
+    const game = await this.gameRepository.findByIdWithPlayers(gameId);
+    if (!game) {
+      throw new NotFoundException('Partida no encontrada.');
+    }
+    if (!game.gamePlayers.some((p) => p.userId === userId)) {
+      throw new ForbiddenException('No participas en esta partida.');
+    }
+    if (game.status !== GameStatus.in_progress || !game.board) {
+      throw new BadRequestException('La partida no está en curso.');
+    }
+
+    const board = parseBoard(game.board);
+    board.shots ??= [];
+
+    // 3. Validar la coordenada de lanzamiento como lo hace el disparo real
+    const target = getLaunchTarget(shotType, x, y, board.size, direction);
+
+    if (
+      !Number.isInteger(x) ||
+      !Number.isInteger(y) ||
+      target.row < 0 ||
+      target.row >= board.size ||
+      target.col < 0 ||
+      target.col >= board.size
+    ) {
+      throw new BadRequestException('Coordenada fuera del tablero.');
+    }
+    if (
+      this.shotEvaluator.getTerrainAt(board.terrain, target.row, target.col) ===
+      'island'
+    ) {
+      throw new BadRequestException('No puedes disparar a una isla.');
+    }
+
+    const simultaneous = game.turnMode === 'simultaneous';
+
+    // 4. El sonar solo muestra su área de escaneo (no descarta casillas)
+    if (definition.kind === 'scan') {
+      return {
+        shotType,
+        cells: this.shotEvaluator.generateTargetsForShotType(
+          shotType,
+          target,
+          board.size,
+          this.createRandom(game.seed ?? game.id, board),
+          board.terrain,
+        ),
+        exact: true,
+      };
+    }
+
+    if (
+      definition.origin === 'cell' &&
+      board.shots.some(
+        (shot) =>
+          shot.target.row === target.row && shot.target.col === target.col,
+      )
+    ) {
+      throw new BadRequestException(
+        'Ya se ha disparado en esta posición anteriormente.',
+      );
+    }
+
+    // 5. Las armas lanzadas desde el borde se detienen en barcos ocultos: solo se muestra su recorrido
+    if (definition.origin === 'row') {
+      return {
+        shotType,
+        cells: await this.getLane(
+          gameId,
+          userId,
+          target,
+          direction,
+          board,
+          game.friendlyFire,
+        ),
+        exact: false,
+      };
+    }
+
+    // 6. Resolver las casillas con el mismo cálculo y generador que el disparo real
+    const { targets } = await this.shotService.resolveTargets({
+      gameId,
+      shooterId: userId,
+      type: shotType,
+      target,
+      board,
+      random: this.createRandom(game.seed ?? game.id, board),
+      direction,
+      friendlyFire: game.friendlyFire,
+    });
+
+    return { shotType, cells: targets, exact: !simultaneous };
+  }
+
+  /**
+   * Calcula el recorrido visible de un arma lanzada desde el borde del tablero.
+   *
+   * Avanza desde la coordenada de lanzamiento hasta una isla (que lo detiene antes),
+   * un arrecife (que absorbe el impacto) o, con fuego amigo, una parte intacta de un
+   * barco propio o aliado. Los barcos enemigos no se consideran para no revelarlos.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador que consulta
+   * @param launch Coordenada de lanzamiento
+   * @param direction Dirección de avance
+   * @param board Tablero actual
+   * @param friendlyFire Si la partida tiene fuego amigo
+   * @returns Casillas que el proyectil podría recorrer
+   * @private
+   */
+  private async getLane(
+    gameId: number,
+    userId: number,
+    launch: ShotTarget,
+    direction: ShotDirection | undefined,
+    board: Board,
+    friendlyFire: boolean,
+  ): Promise<ShotTarget[]> {
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+    const step = direction === 'west' ? -1 : 1;
+    const lane: ShotTarget[] = [];
+
+    for (let col = launch.col; col >= 0 && col < board.size; col += step) {
+      const terrain = this.shotEvaluator.getTerrainAt(
+        board.terrain,
+        launch.row,
+        col,
+      );
+      if (terrain === 'island') break;
+
+      lane.push({ row: launch.row, col });
+
+      const stopsOnAlly =
+        friendlyFire &&
+        this.shotEvaluator.isIntactShipPartAt(board.ships, launch.row, col) &&
+        this.shotEvaluator.isAlliedShipPosition(
+          board.ships,
+          launch.row,
+          col,
+          userId,
+          teams,
+        );
+      if (terrain === 'reef' || stopsOnAlly) break;
+    }
+
+    return lane;
+  }
+
+  /**
+   * Deriva el generador aleatorio que usaría el próximo disparo de la partida.
+   *
+   * @param seed Semilla de la partida
+   * @param board Tablero actual
+   * @returns Generador aleatorio sembrado
+   * @private
+   */
+  private createRandom(seed: number, board: Board): RandomGenerator {
+    return this.seededRandom.createGenerator(seed, board.shots.length);
+  }
+}
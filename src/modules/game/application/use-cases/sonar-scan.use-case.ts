@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Board } from '../../domain/models/board.model';
+import {
+  Scan,
+  ScanCell,
+  ShotTarget,
+  ShotType,
+} from '../../domain/models/shot.model';
+import { TeamStateRedis } from '../../infrastructure/redis/team-state.redis';
+import { ShotEvaluatorLogic } from '../../domain/logic/shot-evaluator.logic';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Caso de uso que ejecuta un escaneo de sonar (`scan`) sobre el tablero.
+ *
+ * A diferencia de un disparo, el sonar:
+ * - No marca impactos ni hunde barcos
+ * - Solo informa si hay barcos enemigos a flote en cada casilla del área
+ * - Se registra en `board.scans` (no en `board.shots`) para no bloquear disparos posteriores
+ */
+@Injectable()
+export class SonarScanUseCase {
+  private readonly logger = new Logger(SonarScanUseCase.name);
+
+  constructor(
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly shotEvaluator: ShotEvaluatorLogic,
+  ) {}
+
+  /**
+   * Escanea el área alrededor de la coordenada indicada.
+   *
+   * @param params Información del escaneo: ID de juego, jugador, tipo de escaneo, objetivo, tablero actual
+   * y generador aleatorio sembrado de la partida.
+   * @returns Escaneo registrado, detalle por casilla y tablero actualizado.
+   */
+  async executeScan(params: {
+    gameId: number;
+    shooterId: number;
+    type: ShotType;
+    target: ShotTarget;
+    board: Board;
+    random: RandomGenerator;
+  }): Promise<{
+    scan: Scan;
+    cells: ScanCell[];
+    updatedBoard: Board;
+  }> {
+    const { gameId, shooterId, type, target, board, random } = params;
+
+    // 1. Obtener el mapa de equipos para excluir barcos aliados
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+    const shooterTeam = teams[shooterId];
+
+    // 2. Generar el área de escaneo
+    const targets = this.shotEvaluator.generateTargetsForShotType(
+      type,
+      target,
+      board.size,
+      random,
+      board.terrain,
+    );
+
+    // 3. Detectar barcos enemigos a flote en cada casilla
+    const enemyShips = board.ships.filter(
+      (ship) =>
+        !ship.isSunk &&
+        ship.ownerId !== shooterId &&
+        (shooterTeam === undefined ||
+          ship.ownerId === null ||
+          teams[ship.ownerId] !== shooterTeam),
+    );
+
+    const detectedShipIds = new Set<number>();
+    const cells: ScanCell[] = targets.map((cell) => {
+      const ship = enemyShips.find((s) =>
+        s.positions.some((p) => p.row === cell.row && p.col === cell.col),
+      );
+      if (ship) detectedShipIds.add(ship.shipId);
+      return { ...cell, detected: !!ship };
+    });
+
+    // 4. Registrar el escaneo en el tablero
+    const scan: Scan = {
+      shooterId,
+      type,
+      target,
+      shipsDetected: detectedShipIds.size,
+      createdAt: new Date().toISOString(),
+    };
+
+    board.scans ??= [];
+    board.scans.push(scan);
+
+    this.logger.debug(
+      `Escaneo en (${target.row},${target.col}): ${detectedShipIds.size} barcos detectados`,
+    );
+
+    return { scan, cells, updatedBoard: board };
+  }
+}
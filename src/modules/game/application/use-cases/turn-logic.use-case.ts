@@ -1,13 +1,17 @@
 import { Board } from '../../domain/models/board.model';
 import { GamePlayer } from '../../../../prisma/prisma.types';
+import { ShotTarget } from '../../domain/models/shot.model';
+import { TieBreakScore } from '../../domain/models/game-end.model';
+import { CombatRecord } from '../../domain/models/combat.model';
 
 /**
  * Servicio de lógica pura para el manejo de turnos.
  *
  * Este servicio no tiene dependencias externas y agrupa funciones determinísticas como:
- * - Determinar si un jugador tiene barcos vivos
- * - Calcular el siguiente jugador en turno
+ * - Determinar si un jugador tiene barcos vivos (y cuántos)
+ * - Calcular el siguiente jugador en turno (y si una acción impactó a un enemigo)
  * - Verificar condiciones de victoria en modo individual o equipos
+ * - Calcular el colapso del tablero y el desempate al agotarse el tiempo de la partida
  */
 export class TurnLogicUseCase {
   /**
@@ -21,6 +25,45 @@ export class TurnLogicUseCase {
     return board.ships.some((ship) => ship.ownerId === userId && !ship.isSunk);
   }
 
+  /**
+   * Cuenta los barcos activos (no hundidos) de un jugador en el tablero.
+   *
+   * Determina el tamaño de la andanada en la variante salvo.
+   *
+   * @param board Estado actual del tablero de juego.
+   * @param userId ID del jugador a evaluar.
+   * @returns Cantidad de barcos del jugador que siguen a flote.
+   */
+  static countShipsAlive(board: Board, userId: number): number {
+    return board.ships.filter((ship) => ship.ownerId === userId && !ship.isSunk)
+      .length;
+  }
+
+  /**
+   * Indica si una acción dañó o hundió algún barco enemigo, aunque el punto de impacto
+   * principal haya fallado. Los impactos sobre barcos propios o aliados (fuego amigo) no cuentan.
+   *
+   * Decide si la acción gana un turno extra y si suma a la racha nuclear.
+   *
+   * @param records Registros de combate generados por la acción.
+   * @param teams Mapa userId → teamId (vacío fuera del modo equipos).
+   * @returns `true` si la acción impactó o hundió al menos un barco enemigo.
+   */
+  static hitsEnemy(
+    records: CombatRecord[],
+    teams: Record<number, number>,
+  ): boolean {
+    return records.some((r) => {
+      if (r.kind !== 'hit' && r.kind !== 'sink') return false;
+      if (r.victimUserId === r.attackerUserId) return false;
+
+      const attackerTeam = teams[r.attackerUserId];
+      return (
+        attackerTeam === undefined || teams[r.victimUserId] !== attackerTeam
+      );
+    });
+  }
+
   /**
    * Determina el siguiente jugador activo en la lista de usuarios vivos.
    *
@@ -75,4 +118,114 @@ export class TurnLogicUseCase {
 
     return aliveTeams.size === 1 ? [...aliveTeams][0] : null;
   }
+
+  /**
+   * Obtiene las casillas de un anillo del tablero (0 = borde exterior).
+   *
+   * @param size Dimensión del tablero (N x N).
+   * @param ring Índice del anillo, contado desde el borde.
+   * @returns Casillas del anillo, o una lista vacía si el anillo no existe.
+   */
+  static getRingCells(size: number, ring: number): ShotTarget[] {
+    const cells: ShotTarget[] = [];
+    const last = size - 1 - ring;
+
+    for (let row = ring; row <= last; row++) {
+      for (let col = ring; col <= last; col++) {
+        if (row === ring || row === last || col === ring || col === last) {
+          cells.push({ row, col });
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Calcula la puntuación de desempate de los jugadores activos.
+   *
+   * La puntuación suma las casillas propias que siguen intactas y los impactos
+   * causados a barcos enemigos (según el historial de combate). Los daños a barcos
+   * propios o de compañeros no cuentan.
+   *
+   * @param board Estado actual del tablero de juego.
+   * @param gamePlayers Lista completa de jugadores de la partida.
+   * @returns Puntuación de cada jugador activo, en el orden de la partida.
+   */
+  static computeTieBreakScores(
+    board: Board,
+    gamePlayers: GamePlayer[],
+  ): TieBreakScore[] {
+    const teams = new Map(gamePlayers.map((p) => [p.userId, p.team]));
+    const hits = (board.combatLog ?? []).filter((r) => r.kind === 'hit');
+
+    return gamePlayers
+      .filter((p) => !p.leftAt)
+      .map((p) => {
+        const remainingCells = board.ships
+          .filter((ship) => ship.ownerId === p.userId && !ship.isSunk)
+          .reduce(
+            (total, ship) =>
+              total + ship.positions.filter((pos) => !pos.isHit).length,
+            0,
+          );
+
+        const damageDealt = hits.filter(
+          (r) =>
+            r.attackerUserId === p.userId &&
+            r.victimUserId !== p.userId &&
+            (p.team === null || teams.get(r.victimUserId) !== p.team),
+        ).length;
+
+        return {
+          userId: p.userId,
+          team: p.team,
+          remainingCells,
+          damageDealt,
+          score: remainingCells + damageDealt,
+        };
+      });
+  }
+
+  /**
+   * Determina el ganador del desempate.
+   *
+   * Gana la mayor puntuación (sumada por equipo en modo "teams"). Los empates se deciden
+   * por casillas intactas, luego por impactos causados y, por último, por el orden de la partida.
+   *
+   * @param scores Puntuaciones de los jugadores activos.
+   * @param mode Modo de juego (individual o teams).
+   * @returns ID del jugador o del equipo ganador, o `null` si no hay puntuaciones.
+   */
+  static getTieBreakWinner(
+    scores: TieBreakScore[],
+    mode: 'individual' | 'teams',
+  ): number | null {
+    const totals = new Map<number, Omit<TieBreakScore, 'userId' | 'team'>>();
+
+    for (const s of scores) {
+      const key = mode === 'teams' ? s.team : s.userId;
+      if (key === null) continue;
+
+      const total = totals.get(key) ?? {
+        remainingCells: 0,
+        damageDealt: 0,
+        score: 0,
+      };
+      totals.set(key, {
+        remainingCells: total.remainingCells + s.remainingCells,
+        damageDealt: total.damageDealt + s.damageDealt,
+        score: total.score + s.score,
+      });
+    }
+
+    const ranking = [...totals.entries()].sort(
+      ([, a], [, b]) =>
+        b.score - a.score ||
+        b.remainingCells - a.remainingCells ||
+        b.damageDealt - a.damageDealt,
+    );
+
+    return ranking.length ? ranking[0][0] : null;
+  }
 }
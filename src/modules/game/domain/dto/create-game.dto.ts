@@ -1,4 +1,7 @@
 import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
   IsBoolean,
   IsEnum,
   IsInt,
@@ -6,8 +9,16 @@ import {
   IsString,
   Max,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { FleetShipDto } from './fleet-ship.dto';
+import { ShotLimitDto } from './shot-limit.dto';
+import { LIMITED_SHOT_TYPES } from '../logic/shot-type.registry';
+import { GameRulesDto } from './game-rules.dto';
+import { RULES_PRESETS } from '../logic/game-rules.presets';
+import { RulesPreset } from '../models/game-rules.model';
 
 export class CreateGameDto {
   @IsOptional()
@@ -22,7 +33,8 @@ export class CreateGameDto {
   @IsString()
   @ApiProperty({
     required: false,
-    description: 'Contraseña opcional para partida privada',
+    description:
+      'Código de acceso opcional para partida privada (se guarda hasheado y se exige al unirse)',
   })
   accessCode?: string;
 
@@ -60,4 +72,139 @@ export class CreateGameDto {
     description: 'Cantidad de equipos (Solo si es en equipo)',
   })
   teamCount?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => FleetShipDto)
+  @ApiProperty({
+    required: false,
+    type: [FleetShipDto],
+    description:
+      'Flota personalizada por jugador. Si se omite, se usa la flota de la dificultad',
+  })
+  fleet?: FleetShipDto[];
+
+  @IsOptional()
+  @IsEnum(['archipelago', 'reef-ring', 'strait'])
+  @ApiProperty({
+    required: false,
+    enum: ['archipelago', 'reef-ring', 'strait'],
+    description: 'Mapa de terreno predefinido (islas y arrecifes)',
+  })
+  terrainMap?: 'archipelago' | 'reef-ring' | 'strait';
+
+  @IsOptional()
+  @IsEnum(['none', 'low', 'medium', 'high'])
+  @ApiProperty({
+    required: false,
+    enum: ['none', 'low', 'medium', 'high'],
+    description:
+      'Densidad de terreno aleatorio generado con la semilla de la partida',
+  })
+  terrainDensity?: 'none' | 'low' | 'medium' | 'high';
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(LIMITED_SHOT_TYPES.length)
+  @ValidateNested({ each: true })
+  @Type(() => ShotLimitDto)
+  @ApiProperty({
+    required: false,
+    type: [ShotLimitDto],
+    description:
+      'Munición y enfriamiento por tipo de disparo especial. Los tipos omitidos (o todos, si no se envía) usan los valores por defecto; { ammo: null, cooldown: 1 } deja un tipo sin límites',
+  })
+  arsenal?: ShotLimitDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiProperty({
+    required: false,
+    default: false,
+    description:
+      'Variante salvo: en cada turno se dispara una andanada con tantos disparos como barcos propios a flote',
+  })
+  salvo?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @ApiProperty({
+    required: false,
+    default: 0,
+    minimum: 0,
+    maximum: 5,
+    description:
+      'Turnos extra consecutivos que se ganan al impactar o hundir un barco (0 = sin turnos extra)',
+  })
+  maxBonusTurns?: number;
+
+  @IsOptional()
+  @IsEnum(['sequential', 'simultaneous'])
+  @ApiProperty({
+    required: false,
+    default: 'sequential',
+    enum: ['sequential', 'simultaneous'],
+    description:
+      'Modo de turnos: por turnos (`sequential`) o por rondas simultáneas (`simultaneous`)',
+  })
+  turnMode?: 'sequential' | 'simultaneous';
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiProperty({
+    required: false,
+    default: false,
+    description:
+      'Fuego amigo (solo por equipos): los disparos también dañan barcos propios y de compañeros',
+  })
+  friendlyFire?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiProperty({
+    required: false,
+    default: false,
+    description:
+      'Medidor nuclear por equipo (solo por equipos): los aciertos de todos los miembros suman a un medidor compartido que desbloquea una única bomba para el equipo',
+  })
+  teamNuclear?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  @ApiProperty({
+    required: false,
+    minimum: 5,
+    maximum: 120,
+    description:
+      'Duración total de la partida en minutos. Al agotarse comienza la muerte súbita (sin límite si se omite)',
+  })
+  timeLimit?: number;
+
+  @IsOptional()
+  @IsEnum(RULES_PRESETS)
+  @ApiProperty({
+    required: false,
+    default: 'classic',
+    enum: RULES_PRESETS,
+    description:
+      'Preset de reglas: tiempos, expulsión por inactividad, umbral nuclear y tamaño del tablero',
+  })
+  preset?: RulesPreset;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GameRulesDto)
+  @ApiProperty({
+    required: false,
+    type: GameRulesDto,
+    description: 'Ajustes por campo sobre las reglas del preset',
+  })
+  rules?: GameRulesDto;
 }
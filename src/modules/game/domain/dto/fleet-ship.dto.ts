@@ -0,0 +1,52 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ShipClass, ShipShape } from '../models/ship.model';
+
+/**
+ * Entrada de una flota personalizada: un tipo de barco y cuántos de ellos
+ * recibe cada jugador. Se indica la longitud (`size`) o una clase con nombre (`shipClass`)
+ * para barcos rectos, o una forma (`shape`) para cascos no lineales de 4 casillas.
+ */
+export class FleetShipDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @ApiProperty({
+    required: false,
+    minimum: 1,
+    maximum: 10,
+    description: 'Longitud del barco en casillas (alternativa a shipClass)',
+  })
+  size?: number;
+
+  @IsOptional()
+  @IsEnum(['carrier', 'battleship', 'cruiser', 'destroyer', 'submarine'])
+  @ApiProperty({
+    required: false,
+    enum: ['carrier', 'battleship', 'cruiser', 'destroyer', 'submarine'],
+    description:
+      'Clase de barco: carrier (5), battleship (4), cruiser (3), destroyer (2), submarine (1)',
+  })
+  shipClass?: ShipClass;
+
+  @IsOptional()
+  @IsEnum(['line', 'L', 'T', 'square'])
+  @ApiProperty({
+    required: false,
+    enum: ['line', 'L', 'T', 'square'],
+    description:
+      'Forma del casco: line (recto, por defecto), L, T o square (2x2). Las formas no lineales ocupan 4 casillas',
+  })
+  shape?: ShipShape;
+
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @ApiProperty({
+    minimum: 1,
+    maximum: 10,
+    description: 'Cantidad de barcos de este tipo por jugador',
+  })
+  count: number;
+}
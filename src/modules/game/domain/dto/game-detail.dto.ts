@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { GameResponseDto } from './game-response.dto';
+
+/**
+ * Creador de una partida.
+ */
+export class GameCreatorDto {
+  @ApiProperty()
+  userId: number;
+
+  @ApiProperty()
+  nickname: string;
+}
+
+/**
+ * Jugador de una partida, con su estado en la sala.
+ */
+export class GameDetailPlayerDto {
+  @ApiProperty()
+  userId: number;
+
+  @ApiProperty()
+  nickname: string;
+
+  @ApiProperty()
+  color: string;
+
+  @ApiProperty({
+    nullable: true,
+    type: Number,
+    description: 'Equipo elegido (solo en partidas por equipos)',
+  })
+  team: number | null;
+
+  @ApiProperty({
+    description: 'Indica si el jugador marcó que está listo (sala de espera)',
+  })
+  ready: boolean;
+
+  @ApiProperty({
+    description: 'Indica si el jugador fue eliminado o salió de la partida',
+  })
+  eliminated: boolean;
+}
+
+/**
+ * Detalle de una partida: configuración, creador, ocupación y, solo para sus
+ * jugadores y espectadores, el estado de la sala y del turno.
+ */
+export class GameDetailDto extends GameResponseDto {
+  @ApiProperty({ nullable: true, type: GameCreatorDto })
+  creator: GameCreatorDto | null;
+
+  @ApiProperty({ description: 'Jugadores actualmente en la partida' })
+  playerCount: number;
+
+  @ApiProperty()
+  spectatorCount: number;
+
+  @ApiProperty({
+    description:
+      'Indica si el usuario participa en la partida (como jugador o espectador)',
+  })
+  isMember: boolean;
+
+  @ApiProperty({
+    required: false,
+    type: [GameDetailPlayerDto],
+    description: 'Jugadores de la partida (solo para sus miembros)',
+  })
+  players?: GameDetailPlayerDto[];
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    type: Number,
+    description:
+      'Jugador en turno en partidas por turnos en curso (solo para sus miembros)',
+  })
+  currentTurnUserId?: number | null;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Ronda en curso en partidas por rondas simultáneas (solo para sus miembros)',
+  })
+  currentRound?: number;
+}
@@ -1,4 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { FleetShip } from '../models/ship.model';
+import { ArsenalConfig } from '../models/arsenal.model';
+import { GameRules } from '../models/game-rules.model';
 
 export class GameResponseDto {
   @ApiProperty()
@@ -7,8 +10,10 @@ export class GameResponseDto {
   @ApiProperty({ required: false })
   name?: string;
 
-  @ApiProperty({ required: false })
-  accessCode?: string;
+  @ApiProperty({
+    description: 'Indica si unirse a la partida requiere un código de acceso',
+  })
+  requiresAccessCode: boolean;
 
   @ApiProperty()
   isPublic: boolean;
@@ -28,6 +33,68 @@ export class GameResponseDto {
   @ApiProperty({ required: false })
   teamCount?: number;
 
+  @ApiProperty({
+    required: false,
+    description:
+      'Flota personalizada: forma (`line`, `L`, `T`, `square`) y longitud de cada barco',
+  })
+  fleet?: FleetShip[];
+
+  @ApiProperty({ required: false })
+  terrainMap?: 'archipelago' | 'reef-ring' | 'strait';
+
+  @ApiProperty({ required: false })
+  terrainDensity?: 'none' | 'low' | 'medium' | 'high';
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Límites personalizados por tipo de disparo: `{ [tipo]: { ammo?, cooldown? } }`',
+  })
+  arsenal?: ArsenalConfig;
+
+  @ApiProperty({
+    description: 'Variante salvo: un disparo por cada barco propio a flote',
+  })
+  salvo: boolean;
+
+  @ApiProperty({
+    description:
+      'Turnos extra consecutivos por impacto o hundimiento (0 = regla desactivada)',
+  })
+  maxBonusTurns: number;
+
+  @ApiProperty({
+    enum: ['sequential', 'simultaneous'],
+    description: 'Modo de turnos: por turnos o por rondas simultáneas',
+  })
+  turnMode: 'sequential' | 'simultaneous';
+
+  @ApiProperty({
+    description:
+      'Fuego amigo: los disparos también dañan barcos propios y de compañeros',
+  })
+  friendlyFire: boolean;
+
+  @ApiProperty({
+    description:
+      'Medidor nuclear compartido: los aciertos de todo el equipo desbloquean una única bomba',
+  })
+  teamNuclear: boolean;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Duración total de la partida en minutos antes de la muerte súbita',
+  })
+  timeLimit?: number;
+
+  @ApiProperty({
+    description:
+      'Reglas de la partida: `{ preset, turnDuration, maxMissedTurns, roundDuration, placementDuration, suddenDeathDuration, nuclearThreshold, boardSizeOffset }`',
+  })
+  rules: GameRules;
+
   @ApiProperty()
   status: string;
 
@@ -0,0 +1,94 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Ajustes por campo sobre las reglas del preset elegido.
+ * Los campos omitidos conservan el valor del preset. Las duraciones se expresan en milisegundos.
+ */
+export class GameRulesDto {
+  @IsOptional()
+  @IsInt()
+  @Min(5_000)
+  @Max(120_000)
+  @ApiProperty({
+    required: false,
+    minimum: 5_000,
+    maximum: 120_000,
+    description: 'Tiempo disponible para cada turno',
+  })
+  turnDuration?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @ApiProperty({
+    required: false,
+    minimum: 1,
+    maximum: 10,
+    description: 'Turnos perdidos por inactividad antes de expulsar al jugador',
+  })
+  maxMissedTurns?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(5_000)
+  @Max(120_000)
+  @ApiProperty({
+    required: false,
+    minimum: 5_000,
+    maximum: 120_000,
+    description: 'Tiempo disponible para cada ronda simultánea',
+  })
+  roundDuration?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(15_000)
+  @Max(300_000)
+  @ApiProperty({
+    required: false,
+    minimum: 15_000,
+    maximum: 300_000,
+    description: 'Tiempo disponible para colocar la flota',
+  })
+  placementDuration?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(30_000)
+  @Max(600_000)
+  @ApiProperty({
+    required: false,
+    minimum: 30_000,
+    maximum: 600_000,
+    description: 'Duración de la muerte súbita antes del desempate',
+  })
+  suddenDeathDuration?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(15)
+  @ApiProperty({
+    required: false,
+    minimum: 2,
+    maximum: 15,
+    description:
+      'Aciertos consecutivos necesarios para desbloquear la bomba nuclear',
+  })
+  nuclearThreshold?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-4)
+  @Max(4)
+  @ApiProperty({
+    required: false,
+    minimum: -4,
+    maximum: 4,
+    description:
+      'Casillas sumadas (o restadas) al lado del tablero calculado por dificultad y jugadores',
+  })
+  boardSizeOffset?: number;
+}
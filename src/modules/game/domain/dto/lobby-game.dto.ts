@@ -0,0 +1,69 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RulesPreset } from '../models/game-rules.model';
+import { RULES_PRESETS } from '../logic/game-rules.presets';
+
+/**
+ * Partida pública disponible en la lista de partidas.
+ */
+export class LobbyGameDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ required: false })
+  name?: string;
+
+  @ApiProperty({ enum: ['individual', 'teams'] })
+  mode: 'individual' | 'teams';
+
+  @ApiProperty({ enum: ['easy', 'medium', 'hard'] })
+  difficulty: 'easy' | 'medium' | 'hard';
+
+  @ApiProperty({
+    required: false,
+    description: 'Cantidad de equipos (solo en partidas por equipos)',
+  })
+  teamCount?: number;
+
+  @ApiProperty({ enum: ['sequential', 'simultaneous'] })
+  turnMode: 'sequential' | 'simultaneous';
+
+  @ApiProperty({ enum: RULES_PRESETS })
+  preset: RulesPreset;
+
+  @ApiProperty({ description: 'Jugadores actualmente en la partida' })
+  playerCount: number;
+
+  @ApiProperty()
+  maxPlayers: number;
+
+  @ApiProperty({
+    nullable: true,
+    type: String,
+    description: 'Nickname del creador de la partida',
+  })
+  creatorNickname: string | null;
+
+  @ApiProperty({
+    description: 'Indica si unirse a la partida requiere un código de acceso',
+  })
+  requiresAccessCode: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+/**
+ * Página de la lista pública de partidas.
+ */
+export class LobbyGamesPageDto {
+  @ApiProperty({ type: [LobbyGameDto] })
+  games: LobbyGameDto[];
+
+  @ApiProperty({
+    nullable: true,
+    type: String,
+    description:
+      'Cursor opaco de la página siguiente (enviarlo como `cursor`); `null` si no hay más partidas',
+  })
+  nextCursor: string | null;
+}
@@ -1,5 +1,16 @@
-import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { GameRulesDto } from './game-rules.dto';
+import { RULES_PRESETS } from '../logic/game-rules.presets';
+import { RulesPreset } from '../models/game-rules.model';
 
 export class MatchmakingDto {
   @IsOptional()
@@ -28,4 +39,23 @@ export class MatchmakingDto {
     description: 'Número máximo de jugadores deseado',
   })
   maxPlayers?: number;
+
+  @IsOptional()
+  @IsEnum(RULES_PRESETS)
+  @ApiPropertyOptional({
+    enum: RULES_PRESETS,
+    default: 'classic',
+    description: 'Preset de reglas deseado',
+  })
+  preset?: RulesPreset;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GameRulesDto)
+  @ApiPropertyOptional({
+    type: GameRulesDto,
+    description:
+      'Ajustes por campo sobre el preset (solo se empareja con partidas de reglas idénticas)',
+  })
+  rules?: GameRulesDto;
 }
@@ -0,0 +1,43 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ShotType } from '../models/shot.model';
+import { LIMITED_SHOT_TYPES } from '../logic/shot-type.registry';
+
+/**
+ * Límite de uso de un tipo de disparo especial en una partida:
+ * munición máxima por jugador y/o enfriamiento en turnos propios.
+ */
+export class ShotLimitDto {
+  @IsIn(LIMITED_SHOT_TYPES)
+  @ApiProperty({
+    enum: LIMITED_SHOT_TYPES,
+    description: 'Tipo de disparo al que se aplica el límite',
+  })
+  type: ShotType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    minimum: 0,
+    maximum: 20,
+    description: 'Usos por jugador y partida (null = ilimitado)',
+  })
+  ammo?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @ApiProperty({
+    required: false,
+    minimum: 1,
+    maximum: 10,
+    description:
+      'Cada cuántos turnos propios puede usarse (1 = sin enfriamiento)',
+  })
+  cooldown?: number;
+}
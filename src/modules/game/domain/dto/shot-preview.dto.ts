@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ShotType } from '../models/shot.model';
+import { SHOT_TYPES } from '../logic/shot-type.registry';
+
+/**
+ * Casilla del tablero afectada por un disparo.
+ */
+export class ShotPreviewCellDto {
+  @ApiProperty({ description: 'Fila de la casilla' })
+  row: number;
+
+  @ApiProperty({ description: 'Columna de la casilla' })
+  col: number;
+}
+
+/**
+ * Vista previa de las casillas que afectaría un disparo.
+ */
+export class ShotPreviewResponseDto {
+  @ApiProperty({ enum: SHOT_TYPES })
+  shotType: ShotType;
+
+  @ApiProperty({
+    type: [ShotPreviewCellDto],
+    description: 'Casillas que afectaría el disparo si se ejecutara ahora',
+  })
+  cells: ShotPreviewCellDto[];
+
+  @ApiProperty({
+    description:
+      'false si el resultado real puede diferir (torpedo: se muestra su recorrido; rondas simultáneas)',
+  })
+  exact: boolean;
+}
@@ -0,0 +1,64 @@
+import { GameRules, RulesPreset } from '../models/game-rules.model';
+
+/**
+ * Presets de reglas disponibles al crear una partida o buscar una por emparejamiento.
+ *
+ * - `classic`: las reglas estándar del juego
+ * - `blitz`: turnos cortos, tableros más chicos y bomba nuclear más accesible
+ * - `tactical`: turnos largos, tableros más grandes y bomba nuclear más exigente
+ */
+export const GAME_RULES_PRESETS: Record<RulesPreset, GameRules> = {
+  classic: {
+    preset: 'classic',
+    turnDuration: 10_000,
+    maxMissedTurns: 3,
+    roundDuration: 20_000,
+    placementDuration: 60_000,
+    suddenDeathDuration: 120_000,
+    nuclearThreshold: 6,
+    boardSizeOffset: 0,
+  },
+
+  blitz: {
+    preset: 'blitz',
+    turnDuration: 5_000,
+    maxMissedTurns: 2,
+    roundDuration: 10_000,
+    placementDuration: 30_000,
+    suddenDeathDuration: 60_000,
+    nuclearThreshold: 4,
+    boardSizeOffset: -2,
+  },
+
+  tactical: {
+    preset: 'tactical',
+    turnDuration: 30_000,
+    maxMissedTurns: 3,
+    roundDuration: 40_000,
+    placementDuration: 120_000,
+    suddenDeathDuration: 180_000,
+    nuclearThreshold: 8,
+    boardSizeOffset: 2,
+  },
+};
+
+/** Lista de todos los presets de reglas */
+export const RULES_PRESETS = Object.keys(GAME_RULES_PRESETS) as RulesPreset[];
+
+/**
+ * Resuelve las reglas de una partida a partir de un preset y ajustes por campo.
+ *
+ * @param preset Preset elegido (`classic` si se omite)
+ * @param overrides Campos que reemplazan los valores del preset (los `undefined` se ignoran)
+ * @returns Reglas completas de la partida
+ */
+export function resolveGameRules(
+  preset: RulesPreset = 'classic',
+  overrides: Partial<Omit<GameRules, 'preset'>> = {},
+): GameRules {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined),
+  ) as Partial<Omit<GameRules, 'preset'>>;
+
+  return { ...GAME_RULES_PRESETS[preset], ...defined, preset };
+}
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { FleetShip, Position, SHIP_SHAPE_CELLS } from '../models/ship.model';
+
+/**
+ * Desplazamiento relativo (fila, columna) de una casilla del casco
+ * respecto a la esquina superior izquierda de su orientación.
+ */
+export type ShapeOffset = [number, number];
+
+/**
+ * Servicio de dominio con la geometría de los cascos de los barcos.
+ *
+ * Soporta:
+ * - Barcos rectos (`line`) de cualquier longitud, en horizontal o vertical.
+ * - Poliominós (`L`, `T`, `square`) con sus 4 rotaciones y reflejos.
+ */
+@Injectable()
+export class ShipShapeLogic {
+  /**
+   * Devuelve todas las orientaciones distintas de un casco.
+   *
+   * Cada orientación está normalizada: su casilla mínima queda en (0, 0).
+   *
+   * @param ship Tipo de barco (forma y longitud).
+   * @returns Lista de orientaciones, cada una como lista de desplazamientos.
+   */
+  getOrientations(ship: FleetShip): ShapeOffset[][] {
+    // 1. Los barcos rectos solo tienen orientación horizontal y vertical
+    if (ship.shape === 'line') {
+      const horizontal: ShapeOffset[] = Array.from(
+        { length: ship.size },
+        (_, i) => [0, i],
+      );
+      const vertical: ShapeOffset[] = Array.from(
+        { length: ship.size },
+        (_, i) => [i, 0],
+      );
+      return ship.size === 1 ? [horizontal] : [horizontal, vertical];
+    }
+
+    // 2. Generar rotaciones y reflejos del poliominó, sin duplicados
+    const orientations = new Map<string, ShapeOffset[]>();
+    let cells: ShapeOffset[] = SHIP_SHAPE_CELLS[ship.shape];
+
+    for (let rotation = 0; rotation < 4; rotation++) {
+      cells = cells.map(([r, c]): ShapeOffset => [c, -r]);
+      const mirrored = cells.map(([r, c]): ShapeOffset => [r, -c]);
+
+      for (const variant of [cells, mirrored]) {
+        const normalized = this.normalize(variant);
+        orientations.set(this.toKey(normalized), normalized);
+      }
+    }
+
+    return Array.from(orientations.values());
+  }
+
+  /**
+   * Verifica que un conjunto de posiciones forme exactamente el casco indicado
+   * en alguna de sus orientaciones.
+   *
+   * @param positions Posiciones enviadas para el barco.
+   * @param ship Tipo de barco esperado.
+   * @returns `true` si las posiciones coinciden con el casco.
+   */
+  matchesShape(
+    positions: Pick<Position, 'row' | 'col'>[],
+    ship: FleetShip,
+  ): boolean {
+    if (positions.length !== ship.size) return false;
+
+    const key = this.toKey(
+      this.normalize(positions.map((pos) => [pos.row, pos.col])),
+    );
+
+    return this.getOrientations(ship).some(
+      (orientation) => this.toKey(orientation) === key,
+    );
+  }
+
+  /**
+   * Traslada las casillas para que la mínima fila y columna queden en 0
+   * y las ordena para poder compararlas.
+   *
+   * @param cells Casillas a normalizar.
+   * @returns Casillas normalizadas y ordenadas.
+   */
+  private normalize(cells: ShapeOffset[]): ShapeOffset[] {
+    const minRow = Math.min(...cells.map(([r]) => r));
+    const minCol = Math.min(...cells.map(([, c]) => c));
+
+    return cells
+      .map(([r, c]): ShapeOffset => [r - minRow, c - minCol])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  }
+
+  /**
+   * Serializa una orientación normalizada para compararla.
+   *
+   * @param cells Casillas normalizadas.
+   * @returns Clave única de la orientación.
+   */
+  private toKey(cells: ShapeOffset[]): string {
+    return cells.map(([r, c]) => `${r}:${c}`).join('|');
+  }
+}
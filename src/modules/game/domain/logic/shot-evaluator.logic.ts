@@ -1,6 +1,14 @@
 import { Injectable } from '@nestjs/common';
 import { Ship } from '../models/ship.model';
-import { ShotResult, ShotTarget, ShotType } from '../models/shot.model';
+import {
+  ShotDirection,
+  ShotResult,
+  ShotTarget,
+  ShotType,
+} from '../models/shot.model';
+import { TerrainCell } from '../models/board.model';
+import { getShotTypeDefinition } from './shot-type.registry';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
 
 /**
  * Servicio especializado en la evaluación de disparos en el tablero de juego.
@@ -9,6 +17,7 @@ import { ShotResult, ShotTarget, ShotType } from '../models/shot.model';
  * - Impacto de disparos
  * - Generación de coordenadas según tipo de disparo
  * - Validación de disparo sobre barcos aliados
+ * - Interacción de los disparos con el terreno (islas y arrecifes)
  * - Conversión de formatos desde Redis
  */
 @Injectable()
@@ -46,97 +55,70 @@ export class ShotEvaluatorLogic {
   /**
    * Genera las coordenadas objetivo según el tipo de disparo.
    *
-   * Tipo de disparo y su patrón de área:
-   * - `'simple'`: solo la coordenada indicada.
-   * - `'cross'`: forma de cruz (+), incluye la coordenada central y 4 adyacentes.
-   * - `'multi'`: coordenada central + 2 aleatorias cercanas.
-   * - `'area'`: cuadrado 2x2 desde la coordenada base.
-   * - `'nuclear'`: rombo con radio 3 (área de 6x6 aprox).
+   * El patrón de cada tipo se obtiene del registro de tipos de disparo
+   * (`SHOT_TYPE_REGISTRY`); este método solo aporta el contexto del tablero.
    *
    * @param type Tipo de disparo.
    * @param origin Coordenada base del disparo.
    * @param boardSize Dimensión del tablero (N x N).
+   * @param random Generador aleatorio sembrado de la partida (patrones con dispersión).
+   * @param terrain Terreno del tablero; las islas nunca forman parte del área afectada.
+   * @param options Dirección del disparo, casillas que detienen un proyectil y casillas que aún
+   * pueden recibir su impacto (armas direccionales).
    * @returns Lista de coordenadas válidas dentro del tablero.
    */
   generateTargetsForShotType(
     type: ShotType,
     origin: ShotTarget,
     boardSize: number,
+    random: RandomGenerator,
+    terrain: TerrainCell[] = [],
+    options: {
+      direction?: ShotDirection;
+      isObstacle?: (row: number, col: number) => boolean;
+      isOpen?: (row: number, col: number) => boolean;
+    } = {},
   ): ShotTarget[] {
-    const targets: ShotTarget[] = [];
-    const { row, col } = origin;
+    const islands = new Set(
+      terrain
+        .filter((cell) => cell.type === 'island')
+        .map((cell) => `${cell.row}:${cell.col}`),
+    );
 
     const isValid = (r: number, c: number) =>
-      r >= 0 && r < boardSize && c >= 0 && c < boardSize;
-
-    switch (type) {
-      case 'simple':
-        if (isValid(row, col)) targets.push({ row, col });
-        break;
-
-      case 'cross':
-        [
-          [0, 0],
-          [0, 1],
-          [0, -1],
-          [1, 0],
-          [-1, 0],
-        ].forEach(([dr, dc]) => {
-          const r = row + dr;
-          const c = col + dc;
-          if (isValid(r, c)) targets.push({ row: r, col: c });
-        });
-        break;
-
-      case 'multi': {
-        targets.push({ row, col }); // Centro
-        const offsets: [number, number][] = [];
-
-        for (let i = 0; i < 10 && offsets.length < 2; i++) {
-          const dr = Math.floor(Math.random() * 5) - 2;
-          const dc = Math.floor(Math.random() * 5) - 2;
-
-          if ((dr || dc) && !offsets.some(([r, c]) => r === dr && c === dc)) {
-            const r = row + dr;
-            const c = col + dc;
-            if (isValid(r, c)) {
-              offsets.push([dr, dc]);
-              targets.push({ row: r, col: c });
-            }
-          }
-        }
-        break;
-      }
-
-      case 'area':
-        for (let dr = 0; dr < 2; dr++) {
-          for (let dc = 0; dc < 2; dc++) {
-            const r = row + dr;
-            const c = col + dc;
-            if (isValid(r, c)) targets.push({ row: r, col: c });
-          }
-        }
-        break;
-
-      case 'nuclear': {
-        const radius = 3;
-        for (let dr = -radius; dr <= radius; dr++) {
-          const maxCol = radius - Math.abs(dr);
-          for (let dc = -maxCol; dc <= maxCol; dc++) {
-            const r = row + dr;
-            const c = col + dc;
-            if (isValid(r, c)) targets.push({ row: r, col: c });
-          }
-        }
-        break;
-      }
-
-      default:
-        if (isValid(row, col)) targets.push({ row, col });
-        break;
-    }
+      r >= 0 &&
+      r < boardSize &&
+      c >= 0 &&
+      c < boardSize &&
+      !islands.has(`${r}:${c}`);
+
+    return getShotTypeDefinition(type).pattern(origin, {
+      random,
+      isValid,
+      boardSize,
+      direction: options.direction,
+      isObstacle: options.isObstacle ?? (() => false),
+      isOpen: options.isOpen ?? (() => true),
+    });
+  }
 
-    return targets;
+  /**
+   * Obtiene el tipo de terreno de una coordenada.
+   *
+   * @param terrain Terreno del tablero.
+   * @param row Fila objetivo.
+   * @param col Columna objetivo.
+   * @returns Tipo de terreno, o `null` si la casilla es agua.
+   */
+  getTerrainAt(
+    terrain: TerrainCell[] | undefined,
+    row: number,
+    col: number,
+  ): TerrainCell['type'] | null {
+    return (
+      terrain?.find((cell) => cell.row === row && cell.col === col)?.type ??
+      null
+    );
   }
 
   /**
@@ -163,13 +145,61 @@ export class ShotEvaluatorLogic {
     const shooterTeam = teams[shooterId];
 
     return ships.some((ship) => {
-      if (ship.ownerId === shooterId) return true;
+      const isAllied =
+        ship.ownerId === shooterId ||
+        (ship.ownerId !== null &&
+          shooterTeam !== undefined &&
+          teams[ship.ownerId] === shooterTeam);
+
+      return (
+        isAllied &&
+        ship.positions.some((pos) => pos.row === row && pos.col === col)
+      );
+    });
+  }
 
-      if (ship.ownerId && teams[ship.ownerId] === shooterTeam) {
-        return ship.positions.some((pos) => pos.row === row && pos.col === col);
-      }
+  /**
+   * Determina si una coordenada contiene una parte intacta de un barco a flote,
+   * sin importar su dueño.
+   *
+   * @param ships Lista completa de barcos en el tablero.
+   * @param row Fila objetivo.
+   * @param col Columna objetivo.
+   * @returns `true` si hay una parte sin impactar de un barco no hundido.
+   */
+  isIntactShipPartAt(ships: Ship[], row: number, col: number): boolean {
+    return ships.some(
+      (ship) =>
+        !ship.isSunk &&
+        ship.positions.some(
+          (pos) => pos.row === row && pos.col === col && !pos.isHit,
+        ),
+    );
+  }
 
-      return false;
-    });
+  /**
+   * Determina si una coordenada contiene una parte intacta de un barco enemigo a flote.
+   *
+   * Se usa para detener los proyectiles de las armas direccionales (torpedo),
+   * que pasan por debajo de los barcos aliados y de las partes ya impactadas.
+   *
+   * @param ships Lista completa de barcos en el tablero.
+   * @param row Fila objetivo.
+   * @param col Columna objetivo.
+   * @param shooterId ID del jugador que dispara.
+   * @param teams Mapa de userId → teamId.
+   * @returns `true` si hay una parte intacta de un barco enemigo en esa posición.
+   */
+  isEnemyShipAfloatAt(
+    ships: Ship[],
+    row: number,
+    col: number,
+    shooterId: number,
+    teams: Record<number, number>,
+  ): boolean {
+    return (
+      this.isIntactShipPartAt(ships, row, col) &&
+      !this.isAlliedShipPosition(ships, row, col, shooterId, teams)
+    );
   }
 }
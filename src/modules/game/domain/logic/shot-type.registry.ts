@@ -0,0 +1,320 @@
+import { ShotDirection, ShotTarget, ShotType } from '../models/shot.model';
+import { ShotLimit } from '../models/arsenal.model';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Contexto disponible para construir el patrón de un tipo de disparo.
+ */
+export interface ShotPatternContext {
+  /** Generador aleatorio sembrado de la partida */
+  random: RandomGenerator;
+  /** Indica si una casilla está dentro del tablero y puede ser afectada (no es isla) */
+  isValid: (row: number, col: number) => boolean;
+  /** Dimensión del tablero (N x N) */
+  boardSize: number;
+  /** Dirección elegida por el jugador (solo armas direccionales) */
+  direction?: ShotDirection;
+  /** Indica si una casilla detiene un proyectil (barco enemigo intacto o arrecife) */
+  isObstacle: (row: number, col: number) => boolean;
+  /** Indica si una casilla puede recibir el impacto (no disparada ni, sin fuego amigo, de un barco aliado) */
+  isOpen: (row: number, col: number) => boolean;
+}
+
+/**
+ * Definición de un tipo de disparo.
+ *
+ * Cada arma declara en un único lugar:
+ * - `kind`: si causa daño (`fire`) o solo detecta barcos (`scan`)
+ * - `pattern`: casillas afectadas a partir de la coordenada objetivo
+ * - `availability`: cómo se habilita su uso (ilimitado, arsenal o bomba nuclear desbloqueada)
+ * - `defaultLimit`: munición y enfriamiento por defecto (solo si `availability` es `arsenal`)
+ * - `countsTowardNuclear`: si sus aciertos y fallos afectan la racha nuclear
+ * - `stats`: de dónde se cuentan sus usos en `shotsByType` (disparos o escaneos del tablero)
+ * - `origin`: si el jugador apunta a una casilla (`cell`) o solo elige la fila por la que entra
+ *   el proyectil desde el borde del tablero (`row`)
+ * - `directions`: direcciones admitidas y si el jugador debe indicar una (armas direccionales)
+ */
+export interface ShotTypeDefinition {
+  kind: 'fire' | 'scan';
+  pattern: (origin: ShotTarget, context: ShotPatternContext) => ShotTarget[];
+  origin: 'cell' | 'row';
+  directions?: { allowed: ShotDirection[]; required: boolean };
+  availability: 'unlimited' | 'arsenal' | 'nuclear';
+  defaultLimit?: ShotLimit;
+  countsTowardNuclear: boolean;
+  stats: 'shots' | 'scans';
+}
+
+/**
+ * Construye un patrón fijo a partir de desplazamientos relativos al objetivo.
+ *
+ * @param offsets Desplazamientos (fila, columna)
+ * @returns Función de patrón que descarta las casillas inválidas
+ */
+const fixedPattern =
+  (offsets: [number, number][]): ShotTypeDefinition['pattern'] =>
+  ({ row, col }, { isValid }) =>
+    offsets
+      .map(([dr, dc]) => ({ row: row + dr, col: col + dc }))
+      .filter((target) => isValid(target.row, target.col));
+
+/**
+ * Genera los desplazamientos de un cuadrado entre `from` y `to` (incluidos).
+ */
+const square = (from: number, to: number): [number, number][] => {
+  const offsets: [number, number][] = [];
+  for (let dr = from; dr <= to; dr++) {
+    for (let dc = from; dc <= to; dc++) {
+      offsets.push([dr, dc]);
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Genera los desplazamientos de un rombo con el radio indicado.
+ */
+const diamond = (radius: number): [number, number][] => {
+  const offsets: [number, number][] = [];
+  for (let dr = -radius; dr <= radius; dr++) {
+    const maxCol = radius - Math.abs(dr);
+    for (let dc = -maxCol; dc <= maxCol; dc++) {
+      offsets.push([dr, dc]);
+    }
+  }
+  return offsets;
+};
+
+/** Separación entre las casillas alcanzadas por un bombardeo aéreo */
+const AIRSTRIKE_SPACING = 2;
+
+/**
+ * Registro de todos los tipos de disparo disponibles en el juego.
+ *
+ * Para añadir un arma nueva basta con agregar su tipo a `ShotType`
+ * y su definición aquí: validación, generación de objetivos, arsenal,
+ * progreso nuclear y estadísticas leen de este registro.
+ */
+export const SHOT_TYPE_REGISTRY: Record<ShotType, ShotTypeDefinition> = {
+  // Solo la coordenada indicada
+  simple: {
+    kind: 'fire',
+    origin: 'cell',
+    pattern: fixedPattern([[0, 0]]),
+    availability: 'unlimited',
+    countsTowardNuclear: true,
+    stats: 'shots',
+  },
+
+  // Forma de cruz (+): la coordenada central y sus 4 adyacentes
+  cross: {
+    kind: 'fire',
+    origin: 'cell',
+    pattern: fixedPattern([
+      [0, 0],
+      [0, 1],
+      [0, -1],
+      [1, 0],
+      [-1, 0],
+    ]),
+    availability: 'arsenal',
+    defaultLimit: { cooldown: 3 },
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+
+  // Coordenada central + 2 aleatorias cercanas (radio 2)
+  multi: {
+    kind: 'fire',
+    origin: 'cell',
+    pattern: ({ row, col }, { random, isValid }) => {
+      const targets: ShotTarget[] = [{ row, col }];
+      const offsets: [number, number][] = [];
+
+      for (let i = 0; i < 10 && offsets.length < 2; i++) {
+        const dr = Math.floor(random() * 5) - 2;
+        const dc = Math.floor(random() * 5) - 2;
+
+        if ((dr || dc) && !offsets.some(([r, c]) => r === dr && c === dc)) {
+          if (isValid(row + dr, col + dc)) {
+            offsets.push([dr, dc]);
+            targets.push({ row: row + dr, col: col + dc });
+          }
+        }
+      }
+
+      return targets;
+    },
+    availability: 'arsenal',
+    defaultLimit: { ammo: 3 },
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+
+  // Cuadrado 2x2 desde la coordenada base
+  area: {
+    kind: 'fire',
+    origin: 'cell',
+    pattern: fixedPattern(square(0, 1)),
+    availability: 'arsenal',
+    defaultLimit: { ammo: 2 },
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+
+  // Cuadrado 3x3 centrado en la coordenada (sonar, no causa daño)
+  scan: {
+    kind: 'scan',
+    origin: 'cell',
+    pattern: fixedPattern(square(-1, 1)),
+    availability: 'arsenal',
+    defaultLimit: { ammo: 2 },
+    countsTowardNuclear: false,
+    stats: 'scans',
+  },
+
+  // Rombo con radio 3 (área de 6x6 aprox)
+  nuclear: {
+    kind: 'fire',
+    origin: 'cell',
+    pattern: fixedPattern(diamond(3)),
+    availability: 'nuclear',
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+
+  // Entra por el borde de la fila y avanza hasta el primer barco enemigo o arrecife.
+  // Las islas lo detienen antes de alcanzarlas; si no encuentra nada, termina en el borde opuesto.
+  // Si la casilla donde se detiene ya fue disparada, impacta en la última casilla libre del recorrido.
+  torpedo: {
+    kind: 'fire',
+    origin: 'row',
+    directions: { allowed: ['east', 'west'], required: true },
+    pattern: (
+      { row },
+      { boardSize, direction, isValid, isObstacle, isOpen },
+    ) => {
+      const step = direction === 'west' ? -1 : 1;
+      let impact: ShotTarget | null = null;
+
+      for (
+        let col = step === 1 ? 0 : boardSize - 1;
+        col >= 0 && col < boardSize && isValid(row, col);
+        col += step
+      ) {
+        if (isOpen(row, col)) impact = { row, col };
+        if (isObstacle(row, col)) break;
+      }
+
+      return impact ? [impact] : [];
+    },
+    availability: 'arsenal',
+    defaultLimit: { ammo: 2 },
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+
+  // Una casilla de cada AIRSTRIKE_SPACING a lo largo de la columna, desde la coordenada
+  // hacia la dirección indicada (o en ambos sentidos si no se indica). Sobrevuela las islas.
+  airstrike: {
+    kind: 'fire',
+    origin: 'cell',
+    directions: { allowed: ['north', 'south'], required: false },
+    pattern: ({ row, col }, { boardSize, direction, isValid }) => {
+      const steps =
+        direction === 'north' ? [-1] : direction === 'south' ? [1] : [-1, 1];
+      const targets: ShotTarget[] = isValid(row, col) ? [{ row, col }] : [];
+
+      for (const step of steps) {
+        for (
+          let r = row + step * AIRSTRIKE_SPACING;
+          r >= 0 && r < boardSize;
+          r += step * AIRSTRIKE_SPACING
+        ) {
+          if (isValid(r, col)) targets.push({ row: r, col });
+        }
+      }
+
+      return targets;
+    },
+    availability: 'arsenal',
+    defaultLimit: { ammo: 1 },
+    countsTowardNuclear: false,
+    stats: 'shots',
+  },
+};
+
+/** Lista de todos los tipos de disparo registrados */
+export const SHOT_TYPES = Object.keys(SHOT_TYPE_REGISTRY) as ShotType[];
+
+/** Tipos de disparo cuyo uso está limitado por el arsenal de la partida */
+export const LIMITED_SHOT_TYPES = SHOT_TYPES.filter(
+  (type) => SHOT_TYPE_REGISTRY[type].availability === 'arsenal',
+);
+
+/**
+ * Verifica si un valor recibido corresponde a un tipo de disparo registrado.
+ *
+ * @param value Valor a verificar (por ejemplo, el `shotType` de un payload)
+ * @returns `true` si es un tipo de disparo válido
+ */
+export function isShotType(value: unknown): value is ShotType {
+  return typeof value === 'string' && SHOT_TYPES.includes(value as ShotType);
+}
+
+/**
+ * Obtiene la definición de un tipo de disparo.
+ *
+ * @param type Tipo de disparo
+ * @returns Definición registrada
+ */
+export function getShotTypeDefinition(type: ShotType): ShotTypeDefinition {
+  return SHOT_TYPE_REGISTRY[type];
+}
+
+/**
+ * Verifica si la dirección indicada es válida para un tipo de disparo.
+ *
+ * Los tipos sin `directions` ignoran la dirección; los direccionales exigen una
+ * dirección admitida (o ninguna, si no es obligatoria).
+ *
+ * @param type Tipo de disparo
+ * @param direction Dirección recibida en el payload
+ * @returns `true` si la dirección es aceptable para el tipo
+ */
+export function acceptsDirection(
+  type: ShotType,
+  direction?: ShotDirection,
+): boolean {
+  const { directions } = getShotTypeDefinition(type);
+  if (!directions) return true;
+
+  return direction === undefined
+    ? !directions.required
+    : directions.allowed.includes(direction);
+}
+
+/**
+ * Calcula la coordenada de lanzamiento de un disparo a partir de la coordenada elegida.
+ *
+ * Las armas que se lanzan desde el borde (`origin: 'row'`) solo usan la fila indicada:
+ * entran por la columna del borde opuesto a su dirección de avance.
+ *
+ * @param type Tipo de disparo
+ * @param x Columna elegida por el jugador
+ * @param y Fila elegida por el jugador
+ * @param boardSize Dimensión del tablero (N x N)
+ * @param direction Dirección del disparo (solo armas direccionales)
+ * @returns Coordenada de lanzamiento
+ */
+export function getLaunchTarget(
+  type: ShotType,
+  x: number,
+  y: number,
+  boardSize: number,
+  direction?: ShotDirection,
+): ShotTarget {
+  return getShotTypeDefinition(type).origin === 'row'
+    ? { row: y, col: direction === 'west' ? boardSize - 1 : 0 }
+    : { row: y, col: x };
+}
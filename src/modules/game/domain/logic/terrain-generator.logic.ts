@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import {
+  TerrainCell,
+  TerrainDensity,
+  TerrainMap,
+  TerrainSettings,
+  TerrainType,
+} from '../models/board.model';
+import { RandomGenerator } from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Servicio de dominio encargado de generar el terreno del tablero.
+ *
+ * El terreno se compone de:
+ * - Islas (`island`): casillas infranqueables, no se pueden ocupar ni atacar.
+ * - Arrecifes (`reef`): casillas que no admiten barcos y absorben los disparos.
+ *
+ * Puede construirse a partir de un mapa con nombre, de una densidad aleatoria
+ * (sembrada por partida) o de ambos combinados.
+ */
+@Injectable()
+export class TerrainGeneratorLogic {
+  /** Porcentaje de casillas con terreno según la densidad */
+  private readonly DENSITY_RATIOS: Record<TerrainDensity, number> = {
+    none: 0,
+    low: 0.03,
+    medium: 0.06,
+    high: 0.09,
+  };
+
+  /**
+   * Genera el terreno de un tablero.
+   *
+   * @param size Dimensión del tablero (N x N).
+   * @param settings Mapa con nombre y/o densidad de terreno.
+   * @param random Generador aleatorio sembrado de la partida.
+   * @returns Lista de casillas de terreno (sin duplicados).
+   */
+  generate(
+    size: number,
+    settings: TerrainSettings,
+    random: RandomGenerator,
+  ): TerrainCell[] {
+    const cells = new Map<string, TerrainCell>();
+
+    const add = (row: number, col: number, type: TerrainType) => {
+      if (row < 0 || row >= size || col < 0 || col >= size) return;
+      cells.set(`${row}:${col}`, { row, col, type });
+    };
+
+    // 1. Aplicar el mapa con nombre (si existe)
+    if (settings.map) {
+      this.buildNamedMap(settings.map, size, add);
+    }
+
+    // 2. Dispersar terreno aleatorio según la densidad
+    const ratio = this.DENSITY_RATIOS[settings.density ?? 'none'] ?? 0;
+    const target = cells.size + Math.round(size * size * ratio);
+
+    for (let attempts = 0; cells.size < target && attempts < target * 10; ) {
+      attempts++;
+      const row = Math.floor(random() * size);
+      const col = Math.floor(random() * size);
+      if (cells.has(`${row}:${col}`)) continue;
+      add(row, col, random() < 0.5 ? 'island' : 'reef');
+    }
+
+    return Array.from(cells.values());
+  }
+
+  /**
+   * Calcula el máximo de casillas de terreno que puede generar una configuración.
+   *
+   * El mapa con nombre es determinista; la densidad añade como mucho su porcentaje
+   * del tablero. Sirve para validar la flota antes de conocer la semilla de la partida.
+   *
+   * @param size Dimensión del tablero (N x N).
+   * @param settings Mapa con nombre y/o densidad de terreno.
+   * @returns Número máximo de casillas de terreno.
+   */
+  getMaxCells(size: number, settings: TerrainSettings): number {
+    const cells = new Set<string>();
+
+    if (settings.map) {
+      this.buildNamedMap(settings.map, size, (row, col) => {
+        if (row < 0 || row >= size || col < 0 || col >= size) return;
+        cells.add(`${row}:${col}`);
+      });
+    }
+
+    const ratio = this.DENSITY_RATIOS[settings.density ?? 'none'] ?? 0;
+
+    return Math.min(size * size, cells.size + Math.round(size * size * ratio));
+  }
+
+  /**
+   * Construye un mapa predefinido escalado al tamaño del tablero.
+   *
+   * - `'archipelago'`: cuatro islas de 2x2 en los cuadrantes y un islote central rodeado de arrecifes.
+   * - `'reef-ring'`: anillo discontinuo de arrecifes alrededor del centro.
+   * - `'strait'`: cordillera de islas en la columna central con un paso de arrecifes en el medio.
+   *
+   * @param map Nombre del mapa.
+   * @param size Dimensión del tablero.
+   * @param add Función que registra una casilla de terreno.
+   */
+  private buildNamedMap(
+    map: TerrainMap,
+    size: number,
+    add: (row: number, col: number, type: TerrainType) => void,
+  ): void {
+    const center = Math.floor(size / 2);
+
+    switch (map) {
+      case 'archipelago': {
+        const q = Math.max(1, Math.floor(size / 4) - 1);
+        const far = size - q - 2;
+        for (const [r, c] of [
+          [q, q],
+          [q, far],
+          [far, q],
+          [far, far],
+        ]) {
+          add(r, c, 'island');
+          add(r, c + 1, 'island');
+          add(r + 1, c, 'island');
+          add(r + 1, c + 1, 'island');
+        }
+        add(center, center, 'island');
+        add(center - 2, center, 'reef');
+        add(center + 2, center, 'reef');
+        add(center, center - 2, 'reef');
+        add(center, center + 2, 'reef');
+        break;
+      }
+
+      case 'reef-ring': {
+        const offset = Math.floor(size / 3);
+        const last = size - offset - 1;
+        for (let i = offset; i <= last; i += 2) {
+          add(offset, i, 'reef');
+          add(last, i, 'reef');
+          add(i, offset, 'reef');
+          add(i, last, 'reef');
+        }
+        break;
+      }
+
+      case 'strait': {
+        const passageStart = Math.floor(size / 3);
+        const passageEnd = size - passageStart - 1;
+        for (let row = 0; row < size; row++) {
+          const inPassage = row >= passageStart && row <= passageEnd;
+          add(row, center, inPassage ? 'reef' : 'island');
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { ShotType } from './shot.model';
+
+export type ShotLimit = {
+  ammo?: number | null;
+  cooldown?: number;
+};
+
+export type ArsenalConfig = Partial<Record<ShotType, ShotLimit>>;
+
+export interface PlayerArsenalState {
+  used: Partial<Record<ShotType, number>>;
+  cooldowns: Partial<Record<ShotType, number>>;
+}
+
+export interface ArsenalSlot {
+  type: ShotType;
+  remaining: number | null;
+  cooldown: number;
+  available: boolean;
+}
+
+export type ArsenalConsumeResult =
+  | { consumed: true; arsenal: ArsenalSlot[] }
+  | { consumed: false; reason: string };
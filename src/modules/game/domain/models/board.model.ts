@@ -1,5 +1,6 @@
-import { Shot } from './shot.model';
-import { Ship } from './ship.model';
+import { Scan, Shot } from './shot.model';
+import { FleetShip, Ship } from './ship.model';
+import { CombatRecord } from './combat.model';
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
@@ -9,4 +10,36 @@ export interface Board {
   size: number;
   ships: Ship[];
   shots: Shot[];
+  scans?: Scan[];
+  terrain?: TerrainCell[];
+  combatLog?: CombatRecord[];
+  /** Anillos exteriores colapsados por la muerte súbita (ausente si no comenzó) */
+  collapsedRings?: number;
 }
+
+export type TerrainType = 'island' | 'reef';
+
+export interface TerrainCell {
+  row: number;
+  col: number;
+  type: TerrainType;
+}
+
+export type TerrainDensity = 'none' | 'low' | 'medium' | 'high';
+
+export type TerrainMap = 'archipelago' | 'reef-ring' | 'strait';
+
+export interface TerrainSettings {
+  map?: TerrainMap | null;
+  density?: TerrainDensity | null;
+}
+
+export interface BoardLayout {
+  size: number;
+  fleet: FleetShip[];
+  terrain: TerrainCell[];
+}
+
+export type PlacementValidationResult =
+  | { valid: true; ships: Ship[] }
+  | { valid: false; reason: string };
@@ -0,0 +1,24 @@
+import { ShotType } from './shot.model';
+
+/**
+ * Tipo de registro de combate:
+ * - `hit`: el atacante dañó una casilla de un barco de la víctima
+ * - `sink`: el atacante hundió un barco de la víctima
+ * - `elimination`: el atacante hundió el último barco a flote de la víctima
+ */
+export type CombatRecordKind = 'hit' | 'sink' | 'elimination';
+
+/**
+ * Registro de combate que atribuye cada daño, hundimiento y eliminación a su autor.
+ *
+ * Se guarda en el historial del tablero (`board.combatLog`), alimenta el evento
+ * `combat:feed` y las estadísticas de víctimas por jugador.
+ */
+export interface CombatRecord {
+  kind: CombatRecordKind;
+  attackerUserId: number;
+  victimUserId: number;
+  shipId?: number;
+  shotType: ShotType;
+  createdAt: string;
+}
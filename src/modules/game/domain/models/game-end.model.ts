@@ -0,0 +1,24 @@
+/**
+ * Motivo por el que terminó una partida.
+ *
+ * - `elimination`: solo queda un jugador (o un equipo) con barcos a flote
+ * - `time_limit`: se agotó la duración total de la partida (incluida la muerte súbita)
+ *   y el ganador se decidió por desempate
+ */
+export type GameEndReason = 'elimination' | 'time_limit';
+
+/**
+ * Puntuación de desempate de un jugador al agotarse el tiempo de la partida.
+ */
+export interface TieBreakScore {
+  /** ID del jugador */
+  userId: number;
+  /** Equipo del jugador (solo en partidas por equipos) */
+  team: number | null;
+  /** Casillas de sus barcos que siguen intactas */
+  remainingCells: number;
+  /** Impactos que causó a barcos enemigos */
+  damageDealt: number;
+  /** Puntuación total (casillas intactas + impactos causados) */
+  score: number;
+}
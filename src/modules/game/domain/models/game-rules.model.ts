@@ -0,0 +1,27 @@
+export type RulesPreset = 'classic' | 'blitz' | 'tactical';
+
+/**
+ * Reglas con las que se juega una partida.
+ *
+ * Se resuelven al crear la partida (preset + ajustes por campo) y se guardan
+ * en `Game.rules`, de modo que cada partida conserva las reglas con las que se jugó.
+ * Las duraciones se expresan en milisegundos.
+ */
+export type GameRules = {
+  /** Preset del que parten las reglas */
+  preset: RulesPreset;
+  /** Tiempo disponible para cada turno */
+  turnDuration: number;
+  /** Turnos perdidos por inactividad antes de expulsar al jugador */
+  maxMissedTurns: number;
+  /** Tiempo disponible para enviar el disparo de cada ronda simultánea */
+  roundDuration: number;
+  /** Tiempo disponible para colocar la flota */
+  placementDuration: number;
+  /** Duración de la muerte súbita antes de decidir la partida por desempate */
+  suddenDeathDuration: number;
+  /** Aciertos consecutivos necesarios para desbloquear la bomba nuclear */
+  nuclearThreshold: number;
+  /** Casillas sumadas (o restadas) al lado del tablero calculado por dificultad y jugadores */
+  boardSizeOffset: number;
+};
@@ -0,0 +1,37 @@
+import { RulesPreset } from './game-rules.model';
+
+/**
+ * Orden de la lista pública de partidas.
+ *
+ * - `newest`: las creadas más recientemente primero (por defecto)
+ * - `oldest`: las creadas hace más tiempo primero
+ * - `largest`: las de mayor capacidad de jugadores primero
+ */
+export type LobbySort = 'newest' | 'oldest' | 'largest';
+
+/** Lista de órdenes admitidos por la lista pública de partidas */
+export const LOBBY_SORTS: LobbySort[] = ['newest', 'oldest', 'largest'];
+
+/**
+ * Filtros de la lista pública de partidas (todos opcionales).
+ */
+export interface LobbyFilters {
+  mode?: 'individual' | 'teams';
+  difficulty?: 'easy' | 'medium' | 'hard';
+  turnMode?: 'sequential' | 'simultaneous';
+  preset?: RulesPreset;
+  /** `true`: solo partidas con código de acceso; `false`: solo partidas sin código */
+  requiresAccessCode?: boolean;
+}
+
+/**
+ * Posición de la lista pública a partir de la cual se lee la página siguiente.
+ *
+ * Guarda los valores de orden de la última partida devuelta, de modo que la paginación
+ * continúa aunque esa partida ya se haya iniciado o eliminado.
+ */
+export interface LobbyCursor {
+  id: number;
+  createdAt: Date;
+  maxPlayers: number;
+}
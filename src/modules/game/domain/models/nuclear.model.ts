@@ -0,0 +1,24 @@
+/**
+ * Dueño de un medidor nuclear.
+ *
+ * - `{ userId }`: medidor individual de un jugador
+ * - `{ team }`: medidor compartido por todos los miembros de un equipo
+ *   (solo en partidas por equipos creadas con `teamNuclear`)
+ */
+export type NuclearOwner = { userId: number } | { team: number };
+
+/**
+ * Estado de un medidor nuclear informado a sus dueños.
+ */
+export interface NuclearStatus {
+  /** Aciertos consecutivos acumulados */
+  progress: number;
+  /** Aciertos necesarios para desbloquear la bomba (según las reglas de la partida) */
+  threshold: number;
+  /** Indica si la bomba fue desbloqueada */
+  hasNuclear: boolean;
+  /** Indica si la bomba ya se usó */
+  used: boolean;
+  /** Equipo dueño del medidor (solo si el medidor es compartido) */
+  team?: number;
+}
@@ -0,0 +1,26 @@
+import { ShotDirection, ShotImpact, ShotTarget, ShotType } from './shot.model';
+
+export interface RoundSubmission {
+  shotType: ShotType;
+  target: ShotTarget;
+  direction?: ShotDirection;
+}
+
+/**
+ * Resultado de enviar un disparo a la ronda en curso:
+ * - `submitted`: se registró el disparo
+ * - `duplicate`: el jugador ya había disparado en la ronda
+ * - `closed`: la ronda ya se está resolviendo (el disparo no se registra)
+ */
+export type RoundSubmitStatus = 'submitted' | 'duplicate' | 'closed';
+
+export interface RoundShotResult {
+  shooterUserId: number;
+  shotType: ShotType;
+  x: number;
+  y: number;
+  hit: boolean;
+  sunk: boolean;
+  contested: boolean;
+  impacts: ShotImpact[];
+}
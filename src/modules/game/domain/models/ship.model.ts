@@ -4,6 +4,7 @@ export interface Ship {
   teamId: number | null;
   positions: Position[];
   isSunk: boolean;
+  shape?: ShipShape;
 }
 
 export interface Position {
@@ -12,7 +13,7 @@ export interface Position {
   isHit: boolean;
 }
 
-export interface VisibleShip extends Pick<Ship, 'ownerId'> {
+export interface VisibleShip extends Pick<Ship, 'ownerId' | 'isSunk'> {
   nickname: string;
   color: string;
   positions: Pick<Position, 'row' | 'col'>[];
@@ -22,3 +23,54 @@ export interface MyShipState extends Pick<Ship, 'shipId' | 'isSunk'> {
   impactedPositions: Pick<Position, 'row' | 'col'>[];
   totalPositions: number;
 }
+
+export interface ShipPlacement {
+  positions: Pick<Position, 'row' | 'col'>[];
+  shape?: ShipShape;
+}
+
+export type ShipClass =
+  | 'carrier'
+  | 'battleship'
+  | 'cruiser'
+  | 'destroyer'
+  | 'submarine';
+
+export const SHIP_CLASS_SIZES: Record<ShipClass, number> = {
+  carrier: 5,
+  battleship: 4,
+  cruiser: 3,
+  destroyer: 2,
+  submarine: 1,
+};
+
+export type ShipShape = 'line' | 'L' | 'T' | 'square';
+
+export type FleetShip = {
+  size: number;
+  shape: ShipShape;
+};
+
+export const SHIP_SHAPE_CELLS: Record<
+  Exclude<ShipShape, 'line'>,
+  [number, number][]
+> = {
+  L: [
+    [0, 0],
+    [1, 0],
+    [2, 0],
+    [2, 1],
+  ],
+  T: [
+    [0, 0],
+    [0, 1],
+    [0, 2],
+    [1, 1],
+  ],
+  square: [
+    [0, 0],
+    [0, 1],
+    [1, 0],
+    [1, 1],
+  ],
+};
@@ -12,13 +12,70 @@ export type ShotTarget = {
   col: number;
 };
 
-export type ShotType = 'simple' | 'cross' | 'multi' | 'area' | 'nuclear';
+export type ShotType =
+  | 'simple'
+  | 'cross'
+  | 'multi'
+  | 'area'
+  | 'scan'
+  | 'nuclear'
+  | 'torpedo'
+  | 'airstrike';
+
+/**
+ * Dirección de avance de las armas direccionales (torpedo y bombardeo aéreo).
+ *
+ * - `east` / `west`: el proyectil avanza por la fila hacia el este (columnas crecientes) u oeste
+ * - `north` / `south`: el proyectil avanza por la columna hacia el norte (filas decrecientes) o sur
+ */
+export type ShotDirection = 'north' | 'south' | 'east' | 'west';
 
 export type ShotResult = {
   hit: boolean;
   sunkShipId?: number;
+  absorbed?: boolean;
 };
 
 export interface VisualShot extends ShotTarget {
-  result: 'hit' | 'miss';
+  result: 'hit' | 'miss' | 'absorbed';
+}
+
+/**
+ * Resultado de cada casilla alcanzada por un disparo (principal y secundarias).
+ *
+ * - `x` / `y`: columna y fila de la casilla
+ * - `sunkShipId`: barco hundido por el impacto en esta casilla
+ * - `shipOwnerId`: dueño del barco dañado (solo en impactos)
+ */
+export interface ShotImpact {
+  x: number;
+  y: number;
+  result: 'hit' | 'miss' | 'absorbed';
+  sunkShipId?: number;
+  shipOwnerId?: number;
+}
+
+export interface Scan {
+  shooterId: number;
+  type?: ShotType;
+  target: ShotTarget;
+  shipsDetected: number;
+  createdAt: string;
+}
+
+export interface ScanCell extends ShotTarget {
+  detected: boolean;
+}
+
+/**
+ * Vista previa de las casillas que afectaría un disparo.
+ *
+ * - `cells`: casillas que alcanzaría el disparo si se ejecutara ahora
+ * - `exact`: `false` si el resultado real puede diferir (armas que se detienen en barcos
+ *   ocultos, o rondas simultáneas en las que otros disparos se resuelven antes)
+ */
+export interface ShotPreview {
+  shotType: ShotType;
+  cells: ShotTarget[];
+  exact: boolean;
 }
@@ -4,19 +4,30 @@ import {
   GameWithPlayers,
   GameWithPlayersAndSpectator,
   GameWithPlayersAndUsers,
+  GameWithCreatorAndPlayerCount,
+  GameWithDetails,
 } from '../../../../prisma/prisma.types';
 import { MatchmakingDto } from '../dto/matchmaking.dto';
 import { Board } from '../models/board.model';
+import { FleetShip } from '../models/ship.model';
+import { ArsenalConfig } from '../models/arsenal.model';
+import { GameRules } from '../models/game-rules.model';
+import { LobbyCursor, LobbyFilters, LobbySort } from '../models/lobby.model';
 
 export abstract class GameRepository {
   abstract createGameWithPlayer(
     dto: CreateGameDto,
     userId: number,
+    rules: GameRules,
+    accessCodeHash: string | null,
+    fleet?: FleetShip[],
+    arsenal?: ArsenalConfig,
   ): Promise<Game>;
 
   abstract findOrCreateMatch(
     dto: MatchmakingDto,
     userId: number,
+    rules: GameRules,
   ): Promise<Game>;
 
   abstract findByIdWithPlayers(id: number): Promise<GameWithPlayers | null>;
@@ -31,6 +42,24 @@ export abstract class GameRepository {
 
   abstract findById(id: number): Promise<Game | null>;
 
+  abstract findByIdWithDetails(id: number): Promise<GameWithDetails | null>;
+
+  abstract findLobbyGameById(
+    id: number,
+  ): Promise<GameWithCreatorAndPlayerCount | null>;
+
+  abstract findLobbyGames(
+    filters: LobbyFilters,
+    sort: LobbySort,
+    limit: number,
+    cursor?: LobbyCursor,
+  ): Promise<{
+    games: GameWithCreatorAndPlayerCount[];
+    nextCursor: LobbyCursor | null;
+  }>;
+
+  abstract markGameAsPlacing(gameId: number, seed: number): Promise<Game>;
+
   abstract updateGameStartBoard(gameId: number, board: Board): Promise<Game>;
 
   abstract updateGameCreator(gameId: number, userId: number): Promise<Game>;
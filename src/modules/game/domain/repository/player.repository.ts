@@ -1,4 +1,8 @@
 export abstract class PlayerRepository {
+  abstract addPlayerToGame(gameId: number, userId: number): Promise<boolean>;
+
+  abstract removePlayerFromGame(gameId: number, userId: number): Promise<void>;
+
   abstract markPlayerAsDefeated(
     gameId: number,
     playerId: number,
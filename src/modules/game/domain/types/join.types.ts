@@ -0,0 +1,21 @@
+/**
+ * Código del motivo por el que se rechazó la unión a una partida.
+ *
+ * - `GAME_NOT_FOUND`: la partida no existe
+ * - `GAME_STARTED`: la partida ya no admite nuevos jugadores
+ * - `GAME_FULL`: la partida alcanzó su máximo de jugadores
+ * - `ABANDONED`: el jugador fue expulsado por abandono
+ * - `BANNED`: el creador expulsó al usuario y le prohibió volver a unirse
+ * - `INVALID_ACCESS_CODE`: el código de acceso falta o es incorrecto
+ * - `TOO_MANY_ATTEMPTS`: demasiados códigos incorrectos; se debe esperar `retryAfter` segundos
+ * - `INTERNAL_ERROR`: error inesperado al procesar la solicitud
+ */
+export type JoinDeniedCode =
+  | 'GAME_NOT_FOUND'
+  | 'GAME_STARTED'
+  | 'GAME_FULL'
+  | 'ABANDONED'
+  | 'BANNED'
+  | 'INVALID_ACCESS_CODE'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'INTERNAL_ERROR';
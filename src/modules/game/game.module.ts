@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { GameController } from './infrastructure/http/game.controller';
 import { CreateGameUseCase } from './application/use-cases/create-game.use-case';
 import { MatchmakingUseCase } from './application/use-cases/matchmaking.use-case';
+import { PreviewShotUseCase } from './application/use-cases/preview-shot.use-case';
+import { ListLobbyGamesUseCase } from './application/use-cases/list-lobby-games.use-case';
+import { GetGameDetailUseCase } from './application/use-cases/get-game-detail.use-case';
 import { GameFacade } from './application/facade/game.facade';
 import { GameRepository } from './domain/repository/game.repository';
 import { GamePrismaRepository } from './infrastructure/repository/prisma/game.prisma.repository';
@@ -22,20 +25,35 @@ import { JoinHandler } from './infrastructure/websocket/handlers/join.handler';
 import { LeaveHandler } from './infrastructure/websocket/handlers/leave.handler';
 import { StartGameHandler } from './infrastructure/websocket/handlers/start-game.handler';
 import { BoardHandler } from './infrastructure/websocket/handlers/board.handler';
+import { PlacementHandler } from './infrastructure/websocket/handlers/placement.handler';
+import { ShotPreviewHandler } from './infrastructure/websocket/handlers/shot-preview.handler';
+import { LobbyHandler } from './infrastructure/websocket/handlers/lobby.handler';
 import { LobbyManager } from './infrastructure/managers/lobby.manager';
 import { RedisCleanerOrchestrator } from './infrastructure/orchestrators/redis-cleaner.orchestrator';
 import { TurnOrchestrator } from './infrastructure/orchestrators/turn.orchestrator';
+import { GameTimeLimitManager } from './infrastructure/managers/game-time-limit.manager';
 import { TurnTimeoutManager } from './infrastructure/managers/turn-timeout.manager';
+import { PlacementOrchestrator } from './infrastructure/orchestrators/placement.orchestrator';
+import { PlacementTimeoutManager } from './infrastructure/managers/placement-timeout.manager';
+import { RoundOrchestrator } from './infrastructure/orchestrators/round.orchestrator';
+import { RoundTimeoutManager } from './infrastructure/managers/round-timeout.manager';
 import { SocketServerAdapter } from './infrastructure/adapters/socket-server.adapter';
 import { BoardGenerationUseCase } from './application/use-cases/board-generation.use-case';
 import { FireShotUseCase } from './application/use-cases/fire-shot.use-case';
+import { SonarScanUseCase } from './application/use-cases/sonar-scan.use-case';
+import { ArsenalUseCase } from './application/use-cases/arsenal.use-case';
+import { NuclearUseCase } from './application/use-cases/nuclear.use-case';
 import { RedisStateModule } from './infrastructure/redis/redis-state.module';
 import { GameSocketMapRedisRepository } from './infrastructure/repository/redis/game-socket-map.redis.repository';
 import { PlayerEliminationManager } from './infrastructure/managers/player-elimination.manager';
 import { GameEventEmitter } from './infrastructure/websocket/events/emitters/game-event.emitter';
 import { StatsModule } from '../stats/stats.module';
+import { UserModule } from '../user/user.module';
 import { BoardVisualizationUseCase } from './application/use-cases/board-visualization.use-case';
 import { ShotEvaluatorLogic } from './domain/logic/shot-evaluator.logic';
+import { TerrainGeneratorLogic } from './domain/logic/terrain-generator.logic';
+import { ShipShapeLogic } from './domain/logic/ship-shape.logic';
+import { SeededRandomService } from '../../shared/random/seeded-random.service';
 
 @Module({
   controllers: [GameController],
@@ -44,6 +62,9 @@ import { ShotEvaluatorLogic } from './domain/logic/shot-evaluator.logic';
     CreateGameUseCase,
     MatchmakingUseCase,
     BoardVisualizationUseCase,
+    PreviewShotUseCase,
+    ListLobbyGamesUseCase,
+    GetGameDetailUseCase,
 
     GameFacade,
 
@@ -60,6 +81,9 @@ import { ShotEvaluatorLogic } from './domain/logic/shot-evaluator.logic';
     LeaveHandler,
     StartGameHandler,
     BoardHandler,
+    PlacementHandler,
+    ShotPreviewHandler,
+    LobbyHandler,
 
     LobbyManager,
     RedisCleanerOrchestrator,
@@ -67,10 +91,21 @@ import { ShotEvaluatorLogic } from './domain/logic/shot-evaluator.logic';
     PlayerEliminationManager,
     TurnOrchestrator,
     TurnTimeoutManager,
+    PlacementOrchestrator,
+    PlacementTimeoutManager,
+    RoundOrchestrator,
+    RoundTimeoutManager,
+    GameTimeLimitManager,
 
     BoardGenerationUseCase,
     FireShotUseCase,
+    SonarScanUseCase,
+    ArsenalUseCase,
+    NuclearUseCase,
     ShotEvaluatorLogic,
+    TerrainGeneratorLogic,
+    ShipShapeLogic,
+    SeededRandomService,
 
     GameSocketMapRedisRepository,
     { provide: GameRepository, useClass: GamePrismaRepository },
@@ -78,6 +113,6 @@ import { ShotEvaluatorLogic } from './domain/logic/shot-evaluator.logic';
     { provide: ShotRepository, useClass: ShotPrismaRepository },
     { provide: SpectatorRepository, useClass: SpectatorPrismaRepository },
   ],
-  imports: [RedisModule, RedisStateModule, StatsModule],
+  imports: [RedisModule, RedisStateModule, StatsModule, UserModule],
 })
 export class GameModule {}
@@ -11,7 +11,7 @@ import { SocketWithUser } from '../../domain/types/socket.types';
  * Adaptador centralizado para interactuar con el servidor WebSocket (Socket.IO).
  *
  * Este adaptador ofrece una interfaz tipada para:
- * - Emitir eventos a partidas o jugadores
+ * - Emitir eventos a partidas, jugadores o a la sala de la lista de partidas
  * - Expulsar sockets de la sala o del servidor
  * - Obtener sockets conectados y su información de usuario
  */
@@ -20,6 +20,9 @@ export class SocketServerAdapter {
   private readonly logger = new Logger(SocketServerAdapter.name);
   private server: Server;
 
+  /** Sala de los sockets suscritos a los cambios de la lista pública de partidas */
+  private readonly LOBBY_ROOM = 'lobby';
+
   /**
    * Establece la instancia del servidor WebSocket.
    * Debe llamarse una vez al inicializar el gateway.
@@ -59,6 +62,17 @@ export class SocketServerAdapter {
     this.logger.debug(`Evento ${event} emitido a sala game:${gameId}`);
   }
 
+  /**
+   * Emite un evento a todos los sockets suscritos a la lista pública de partidas.
+   *
+   * @param event Clave del evento a emitir (tipado)
+   * @param payload Carga útil correspondiente al evento
+   */
+  emitToLobby<T extends EventKey>(event: T, payload: EventPayload<T>): void {
+    this.getServer().to(this.LOBBY_ROOM).emit(event, payload);
+    this.logger.debug(`Evento ${event} emitido a sala ${this.LOBBY_ROOM}`);
+  }
+
   /**
    * Emite un evento a un socket específico.
    *
@@ -205,6 +219,40 @@ export class SocketServerAdapter {
     }
   }
 
+  /**
+   * Suscribe un socket a los cambios de la lista pública de partidas.
+   *
+   * @param socketId ID del socket
+   */
+  async joinLobbyRoom(socketId: string): Promise<void> {
+    const socket = this.getServer().sockets.sockets.get(socketId);
+    if (socket) {
+      await socket.join(this.LOBBY_ROOM);
+      this.logger.debug(`Socket suscrito a la lista: socketId=${socketId}`);
+    } else {
+      this.logger.warn(
+        `Intento de suscribir socket no encontrado: socketId=${socketId}`,
+      );
+    }
+  }
+
+  /**
+   * Cancela la suscripción de un socket a la lista pública de partidas.
+   *
+   * @param socketId ID del socket
+   */
+  async leaveLobbyRoom(socketId: string): Promise<void> {
+    const socket = this.getServer().sockets.sockets.get(socketId);
+    if (socket) {
+      await socket.leave(this.LOBBY_ROOM);
+      this.logger.debug(`Socket desuscrito de la lista: socketId=${socketId}`);
+    } else {
+      this.logger.warn(
+        `Intento de desuscribir socket no encontrado: socketId=${socketId}`,
+      );
+    }
+  }
+
   /**
    * Obtiene los IDs de los sockets conectados a una partida específica.
    *
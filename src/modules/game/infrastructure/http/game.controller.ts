@@ -1,4 +1,14 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Get,
+  Param,
+  ParseIntPipe,
+  ParseBoolPipe,
+  Query,
+} from '@nestjs/common';
 import { GameFacade } from '../../application/facade/game.facade';
 import { JwtAuthGuard } from '../../../../shared/jwt/jwt-auth.guard';
 import { CreateGameDto } from '../../domain/dto/create-game.dto';
@@ -7,16 +17,26 @@ import {
   ApiBearerAuth,
   ApiBody,
   ApiOperation,
+  ApiParam,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { GameResponseDto } from '../../domain/dto/game-response.dto';
 import { MatchmakingDto } from '../../domain/dto/matchmaking.dto';
+import { ShotPreviewResponseDto } from '../../domain/dto/shot-preview.dto';
+import { SHOT_TYPES } from '../../domain/logic/shot-type.registry';
+import { LobbyGamesPageDto } from '../../domain/dto/lobby-game.dto';
+import { RULES_PRESETS } from '../../domain/logic/game-rules.presets';
+import { LOBBY_SORTS } from '../../domain/models/lobby.model';
+import { GameDetailDto } from '../../domain/dto/game-detail.dto';
 
 /**
  * Controlador HTTP para operaciones de juego.
  *
- * Permite crear partidas manuales o ingresar mediante matchmaking.
+ * Permite listar las partidas públicas disponibles, consultar el detalle de una partida,
+ * crear partidas manuales, ingresar mediante matchmaking y previsualizar las casillas
+ * que afectaría un disparo.
  */
 @ApiTags('Juego')
 @ApiBearerAuth()
@@ -24,6 +44,96 @@ import { MatchmakingDto } from '../../domain/dto/matchmaking.dto';
 export class GameController {
   constructor(private readonly gameFacade: GameFacade) {}
 
+  /**
+   * Lista las partidas públicas a las que se puede unir un jugador.
+   *
+   * Solo incluye partidas públicas en espera con lugares libres: nunca salas de
+   * matchmaking ni partidas llenas. Se pagina por cursor: `nextCursor` se envía
+   * como `cursor` (con los mismos filtros y orden) para obtener la página siguiente.
+   *
+   * @param mode Filtro por modo de juego
+   * @param difficulty Filtro por dificultad
+   * @param turnMode Filtro por modo de turnos
+   * @param preset Filtro por preset de reglas
+   * @param requiresAccessCode Filtro por partidas con (`true`) o sin (`false`) código de acceso
+   * @param sort Orden de la lista (`newest` por defecto)
+   * @param limit Tamaño de página (20 por defecto, máximo 50)
+   * @param cursor Cursor de la página anterior (`nextCursor`)
+   * @returns Partidas de la página y cursor de la página siguiente
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ summary: 'Lista las partidas públicas disponibles' })
+  @ApiQuery({ name: 'mode', required: false, enum: ['individual', 'teams'] })
+  @ApiQuery({
+    name: 'difficulty',
+    required: false,
+    enum: ['easy', 'medium', 'hard'],
+  })
+  @ApiQuery({
+    name: 'turnMode',
+    required: false,
+    enum: ['sequential', 'simultaneous'],
+  })
+  @ApiQuery({ name: 'preset', required: false, enum: RULES_PRESETS })
+  @ApiQuery({ name: 'requiresAccessCode', required: false, type: Boolean })
+  @ApiQuery({ name: 'sort', required: false, enum: LOBBY_SORTS })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'cursor', required: false, type: String })
+  @ApiResponse({ status: 200, type: LobbyGamesPageDto })
+  @ApiResponse({ status: 400, description: 'Filtros o paginación inválidos' })
+  @ApiResponse({ status: 401, description: 'No autenticado' })
+  listLobbyGames(
+    @Query('mode') mode: string | undefined,
+    @Query('difficulty') difficulty: string | undefined,
+    @Query('turnMode') turnMode: string | undefined,
+    @Query('preset') preset: string | undefined,
+    @Query('requiresAccessCode', new ParseBoolPipe({ optional: true }))
+    requiresAccessCode: boolean | undefined,
+    @Query('sort') sort: string | undefined,
+    @Query('limit', new ParseIntPipe({ optional: true }))
+    limit: number | undefined,
+    @Query('cursor') cursor: string | undefined,
+  ): Promise<LobbyGamesPageDto> {
+    return this.gameFacade.listLobbyGames({
+      mode,
+      difficulty,
+      turnMode,
+      preset,
+      requiresAccessCode,
+      sort,
+      limit,
+      cursor,
+    });
+  }
+
+  /**
+   * Obtiene el detalle de una partida.
+   *
+   * Cualquier usuario autenticado ve su configuración, creador, estado y ocupación.
+   * Solo sus jugadores y espectadores ven además los jugadores (con equipo y estado
+   * "listo") y el turno o la ronda en curso.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario autenticado
+   * @returns Detalle de la partida
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':gameId')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ summary: 'Obtiene el detalle de una partida' })
+  @ApiParam({ name: 'gameId', type: Number })
+  @ApiResponse({ status: 200, type: GameDetailDto })
+  @ApiResponse({ status: 401, description: 'No autenticado' })
+  @ApiResponse({ status: 404, description: 'Partida no encontrada' })
+  getGameDetail(
+    @Param('gameId', ParseIntPipe) gameId: number,
+    @UserId() userId: number,
+  ): Promise<GameDetailDto> {
+    return this.gameFacade.getGameDetail(gameId, userId);
+  }
+
   /**
    * Crea una partida manual con configuración personalizada.
    *
@@ -77,4 +187,53 @@ export class GameController {
   createByMatchmaking(@Body() dto: MatchmakingDto, @UserId() userId: number) {
     return this.gameFacade.enterMatchmaking(dto, userId);
   }
+
+  /**
+   * Previsualiza las casillas que afectaría un disparo, sin ejecutarlo.
+   *
+   * Solo los jugadores de la partida pueden consultarla, mientras está en curso.
+   *
+   * @param gameId ID de la partida
+   * @param shotType Tipo de disparo
+   * @param x Columna elegida
+   * @param y Fila elegida
+   * @param direction Dirección (solo armas direccionales)
+   * @param userId ID del usuario autenticado
+   * @returns Casillas que afectaría el disparo
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':gameId/shots/preview')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Previsualiza las casillas que afectaría un disparo',
+  })
+  @ApiParam({ name: 'gameId', type: Number })
+  @ApiQuery({ name: 'shotType', enum: SHOT_TYPES })
+  @ApiQuery({ name: 'x', type: Number })
+  @ApiQuery({ name: 'y', type: Number })
+  @ApiQuery({
+    name: 'direction',
+    required: false,
+    enum: ['north', 'south', 'east', 'west'],
+  })
+  @ApiResponse({ status: 200, type: ShotPreviewResponseDto })
+  @ApiResponse({ status: 400, description: 'Disparo o partida no válidos' })
+  @ApiResponse({ status: 401, description: 'No autenticado' })
+  @ApiResponse({ status: 403, description: 'No participas en esta partida' })
+  @ApiResponse({ status: 404, description: 'Partida no encontrada' })
+  previewShot(
+    @Param('gameId', ParseIntPipe) gameId: number,
+    @Query('shotType') shotType: string,
+    @Query('x', ParseIntPipe) x: number,
+    @Query('y', ParseIntPipe) y: number,
+    @Query('direction') direction: string | undefined,
+    @UserId() userId: number,
+  ): Promise<ShotPreviewResponseDto> {
+    return this.gameFacade.previewShot(gameId, userId, {
+      shotType,
+      x,
+      y,
+      direction,
+    });
+  }
 }
@@ -0,0 +1,108 @@
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
+import { TurnOrchestrator } from '../orchestrators/turn.orchestrator';
+import { TurnTimeoutManager } from './turn-timeout.manager';
+import { RoundTimeoutManager } from './round-timeout.manager';
+
+/**
+ * Servicio encargado de gestionar la duración total de las partidas con límite de tiempo.
+ *
+ * Funcionalidades principales:
+ * - Iniciar la muerte súbita cuando se agota la duración de la partida
+ * - Finalizar la partida por desempate si la muerte súbita termina sin ganador
+ * - Detener los temporizadores de turno y ronda de la partida finalizada
+ */
+@Injectable()
+export class GameTimeLimitManager {
+  private readonly logger = new Logger(GameTimeLimitManager.name);
+
+  /** Mapa en memoria con los timeouts activos por partida */
+  private readonly timeouts = new Map<number, NodeJS.Timeout>();
+
+  constructor(
+    @Inject(forwardRef(() => TurnOrchestrator))
+    private readonly turnOrchestrator: TurnOrchestrator,
+    private readonly turnTimeoutManager: TurnTimeoutManager,
+    private readonly roundTimeoutManager: RoundTimeoutManager,
+  ) {}
+
+  /**
+   * Inicia el temporizador de la duración total de una partida.
+   *
+   * Si ya había un timeout corriendo para la partida, se cancela y se reinicia.
+   *
+   * @param gameId ID de la partida
+   * @param minutes Duración total de la partida (en minutos)
+   */
+  start(gameId: number, minutes: number): void {
+    this.cancel(gameId);
+
+    const timeoutId = setTimeout(() => {
+      this.timeouts.delete(gameId);
+      this.logger.log(`Tiempo de partida agotado: gameId=${gameId}`);
+
+      this.startSuddenDeath(gameId).catch((error) => {
+        this.logger.error(`Error al iniciar la muerte súbita: ${error}`);
+      });
+    }, minutes * 60_000);
+
+    this.timeouts.set(gameId, timeoutId);
+
+    this.logger.log(
+      `Límite de tiempo iniciado: gameId=${gameId}, minutos=${minutes}`,
+    );
+  }
+
+  /**
+   * Cancela el temporizador de duración de una partida.
+   *
+   * Debe invocarse al terminar o abandonar la partida.
+   *
+   * @param gameId ID de la partida
+   */
+  cancel(gameId: number): void {
+    const timeoutId = this.timeouts.get(gameId);
+
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      this.timeouts.delete(gameId);
+
+      this.logger.log(`Límite de tiempo cancelado: gameId=${gameId}`);
+    }
+  }
+
+  /**
+   * Inicia la muerte súbita y programa el desempate al terminar.
+   *
+   * @param gameId ID de la partida
+   * @private
+   */
+  private async startSuddenDeath(gameId: number): Promise<void> {
+    const duration = await this.turnOrchestrator.startSuddenDeath(gameId);
+    if (duration === null) return;
+
+    const timeoutId = setTimeout(() => {
+      this.timeouts.delete(gameId);
+      this.logger.log(`Muerte súbita agotada: gameId=${gameId}`);
+
+      this.finish(gameId).catch((error) => {
+        this.logger.error(`Error al finalizar por tiempo: ${error}`);
+      });
+    }, duration);
+
+    this.timeouts.set(gameId, timeoutId);
+  }
+
+  /**
+   * Finaliza la partida por desempate y detiene sus temporizadores de turno y ronda.
+   *
+   * @param gameId ID de la partida
+   * @private
+   */
+  private async finish(gameId: number): Promise<void> {
+    const ended = await this.turnOrchestrator.endByTimeLimit(gameId);
+    if (!ended) return;
+
+    this.turnTimeoutManager.cancel(gameId);
+    this.roundTimeoutManager.cancel(gameId);
+  }
+}
@@ -1,6 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Game } from '../../../../prisma/prisma.types';
 import { SocketServerAdapter } from '../adapters/socket-server.adapter';
 import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { GameMapper } from '../../application/mapper/game.mapper';
 
 /**
  * Servicio encargado de gestionar el estado del lobby de una partida.
@@ -8,6 +11,9 @@ import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitte
  * Sus responsabilidades incluyen:
  * - Expulsar a todos los jugadores y espectadores de una sala.
  * - Notificar que una partida ha sido abandonada.
+ * - Mantener actualizada la lista pública de partidas de los clientes suscritos
+ *   (partidas creadas, cambios en la cantidad de jugadores, inicio y eliminación).
+ *   Solo se anuncian las partidas públicas que no son de matchmaking.
  */
 @Injectable()
 export class LobbyManager {
@@ -16,6 +22,7 @@ export class LobbyManager {
   constructor(
     private readonly socketServer: SocketServerAdapter,
     private readonly gameEventEmitter: GameEventEmitter,
+    private readonly gameRepository: GameRepository,
   ) {}
 
   /**
@@ -51,4 +58,67 @@ export class LobbyManager {
       `${socketIds.length} jugadores y espectadores fueron expulsados de la sala game:${gameId} por abandono`,
     );
   }
+
+  /**
+   * Anuncia a la lista pública una partida recién creada.
+   *
+   * @param gameId ID de la partida creada
+   */
+  async announceGameCreated(gameId: number): Promise<void> {
+    const game = await this.gameRepository.findLobbyGameById(gameId);
+    if (!game || !this.isListed(game)) return;
+
+    this.gameEventEmitter.emitLobbyGameCreated({
+      game: GameMapper.toLobbyGame(game),
+    });
+  }
+
+  /**
+   * Anuncia a la lista pública la cantidad actual de jugadores de una partida en espera.
+   *
+   * @param gameId ID de la partida
+   */
+  async announcePlayerCount(gameId: number): Promise<void> {
+    const game = await this.gameRepository.findLobbyGameById(gameId);
+    if (!game || !this.isListed(game)) return;
+
+    this.gameEventEmitter.emitLobbyGamePlayers({
+      gameId,
+      playerCount: game._count.gamePlayers,
+      maxPlayers: game.maxPlayers,
+    });
+  }
+
+  /**
+   * Anuncia a la lista pública que una partida comenzó y ya no admite jugadores.
+   *
+   * @param game Partida iniciada
+   */
+  announceGameStarted(game: Game): void {
+    if (!this.isListed(game)) return;
+
+    this.gameEventEmitter.emitLobbyGameStarted(game.id);
+  }
+
+  /**
+   * Anuncia a la lista pública que una partida fue eliminada.
+   *
+   * @param game Partida eliminada (datos leídos antes de eliminarla)
+   */
+  announceGameRemoved(game: Game): void {
+    if (!this.isListed(game)) return;
+
+    this.gameEventEmitter.emitLobbyGameRemoved(game.id);
+  }
+
+  /**
+   * Indica si una partida se muestra en la lista pública.
+   *
+   * @param game Partida a evaluar
+   * @returns `true` si es pública y no es una sala de matchmaking
+   * @private
+   */
+  private isListed(game: Game): boolean {
+    return game.isPublic && !game.isMatchmaking;
+  }
 }
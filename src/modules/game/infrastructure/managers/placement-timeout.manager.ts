@@ -0,0 +1,76 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PlacementOrchestrator } from '../orchestrators/placement.orchestrator';
+
+/**
+ * Servicio encargado de gestionar el tiempo límite de la fase de colocación.
+ *
+ * Al expirar el tiempo, se finaliza la colocación y los jugadores
+ * que no enviaron su flota reciben una colocación aleatoria.
+ */
+@Injectable()
+export class PlacementTimeoutManager {
+  private readonly logger = new Logger(PlacementTimeoutManager.name);
+
+  /** Mapa en memoria con los timeouts activos por partida */
+  private readonly timeouts = new Map<number, NodeJS.Timeout>();
+
+  /** Mapa en memoria con el instante (epoch ms) en que expira la colocación de cada partida */
+  private readonly deadlines = new Map<number, number>();
+
+  constructor(private readonly placementOrchestrator: PlacementOrchestrator) {}
+
+  /**
+   * Inicia el temporizador de colocación de una partida.
+   *
+   * Si ya había un timeout corriendo para la partida, se cancela y se reinicia.
+   *
+   * @param gameId ID de la partida
+   * @param duration Tiempo disponible para colocar la flota (en milisegundos, según las reglas de la partida)
+   */
+  start(gameId: number, duration: number): void {
+    this.cancel(gameId);
+
+    const timeoutId = setTimeout(() => {
+      this.timeouts.delete(gameId);
+      this.deadlines.delete(gameId);
+      this.logger.log(`Tiempo de colocación agotado: gameId=${gameId}`);
+
+      this.placementOrchestrator.finalizePlacement(gameId).catch((error) => {
+        this.logger.error(`Error al finalizar colocación: ${error}`);
+      });
+    }, duration);
+
+    this.timeouts.set(gameId, timeoutId);
+    this.deadlines.set(gameId, Date.now() + duration);
+
+    this.logger.log(`Timeout de colocación iniciado: gameId=${gameId}`);
+  }
+
+  /**
+   * Cancela el temporizador de colocación de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  cancel(gameId: number): void {
+    const timeoutId = this.timeouts.get(gameId);
+
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      this.timeouts.delete(gameId);
+      this.deadlines.delete(gameId);
+
+      this.logger.log(`Timeout de colocación cancelado: gameId=${gameId}`);
+    }
+  }
+
+  /**
+   * Devuelve el tiempo que le queda a la fase de colocación de una partida.
+   *
+   * @param gameId ID de la partida
+   * @returns Milisegundos restantes (0 si no hay temporizador activo)
+   */
+  getRemainingTime(gameId: number): number {
+    const deadline = this.deadlines.get(gameId);
+    return deadline ? Math.max(deadline - Date.now(), 0) : 0;
+  }
+}
@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RoundOrchestrator } from '../orchestrators/round.orchestrator';
+import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
+
+/**
+ * Servicio encargado de gestionar el tiempo límite de cada ronda simultánea.
+ *
+ * Al expirar el tiempo (o cuando todos los jugadores activos ya dispararon)
+ * se resuelve la ronda y, si la partida continúa, se abre la siguiente.
+ * Los jugadores que no dispararon a tiempo simplemente pierden su disparo.
+ *
+ * Si la resolución de una ronda falla, se notifica el error a la sala y se abre
+ * una nueva ronda para que la partida no quede detenida sin temporizador.
+ */
+@Injectable()
+export class RoundTimeoutManager {
+  private readonly logger = new Logger(RoundTimeoutManager.name);
+
+  /** Mapa en memoria con los timeouts activos por partida */
+  private readonly timeouts = new Map<number, NodeJS.Timeout>();
+
+  constructor(
+    private readonly roundOrchestrator: RoundOrchestrator,
+    private readonly gameEventEmitter: GameEventEmitter,
+  ) {}
+
+  /**
+   * Abre una nueva ronda e inicia su temporizador.
+   *
+   * Si ya había un timeout corriendo para la partida, se cancela y se reinicia.
+   *
+   * @param gameId ID de la partida
+   */
+  async start(gameId: number): Promise<void> {
+    this.cancel(gameId);
+
+    const { timeLimit } = await this.roundOrchestrator.openRound(gameId);
+
+    const timeoutId = setTimeout(() => {
+      this.timeouts.delete(gameId);
+      this.logger.log(`Tiempo de ronda agotado: gameId=${gameId}`);
+
+      this.finishRound(gameId).catch((error) => {
+        this.logger.error(`Error al resolver ronda: ${error}`);
+      });
+    }, timeLimit);
+
+    this.timeouts.set(gameId, timeoutId);
+  }
+
+  /**
+   * Resuelve la ronda en curso y, si la partida continúa, abre la siguiente.
+   *
+   * Se invoca al expirar el tiempo o cuando todos los jugadores activos ya dispararon.
+   * Si la resolución falla, notifica el error a la sala y abre una nueva ronda.
+   *
+   * @param gameId ID de la partida
+   */
+  async finishRound(gameId: number): Promise<void> {
+    this.cancel(gameId);
+
+    let continues: boolean;
+    try {
+      continues = await this.roundOrchestrator.resolveRound(gameId);
+    } catch (error) {
+      this.logger.error(
+        `Error al resolver ronda, se abrirá una nueva: gameId=${gameId}`,
+        error,
+      );
+      this.gameEventEmitter.emitGameError(
+        gameId,
+        'Error al resolver la ronda; se abrirá una nueva ronda',
+        'ROUND_RESOLUTION_FAILED',
+      );
+      continues = true;
+    }
+
+    if (continues) {
+      await this.start(gameId);
+    }
+  }
+
+  /**
+   * Cancela el temporizador de ronda de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  cancel(gameId: number): void {
+    const timeoutId = this.timeouts.get(gameId);
+
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      this.timeouts.delete(gameId);
+
+      this.logger.log(`Timeout de ronda cancelado: gameId=${gameId}`);
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { TurnStateRedis } from '../redis/turn-state.redis';
 import { PlayerStateRedis } from '../redis/player-state.redis';
 import { TurnOrchestrator } from '../orchestrators/turn.orchestrator';
 import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
+import { GameRules } from '../../domain/models/game-rules.model';
 
 /**
  * Servicio encargado de gestionar el tiempo límite por turno de cada jugador.
@@ -12,6 +13,9 @@ import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitte
  * - Llevar control de inactividad (turnos perdidos)
  * - Expulsar a jugadores por inactividad prolongada
  * - Avanzar automáticamente al siguiente turno si no se actúa a tiempo
+ *
+ * La duración del turno y el límite de turnos perdidos vienen de las reglas de la partida,
+ * que el llamador ya tiene cargadas.
  */
 @Injectable()
 export class TurnTimeoutManager {
@@ -20,12 +24,6 @@ export class TurnTimeoutManager {
   /** Mapa en memoria con los timeouts activos por partida */
   private readonly timeouts = new Map<number, NodeJS.Timeout>();
 
-  /** Tiempo máximo permitido por turno (en milisegundos) */
-  private readonly TIMEOUT_DURATION = 10_000;
-
-  /** Límite de turnos perdidos antes de expulsar a un jugador */
-  private readonly MAX_MISSED_TURNS = 3;
-
   constructor(
     private readonly turnStateRedis: TurnStateRedis,
     private readonly playerStateRedis: PlayerStateRedis,
@@ -41,20 +39,25 @@ export class TurnTimeoutManager {
    *
    * @param gameId ID de la partida
    * @param currentUserId ID del jugador con el turno actual
+   * @param rules Reglas de la partida (duración del turno y límite de turnos perdidos)
    */
-  async start(gameId: number, currentUserId: number): Promise<void> {
+  async start(
+    gameId: number,
+    currentUserId: number,
+    rules: GameRules,
+  ): Promise<void> {
     // 1. Guardar en Redis quién tiene el turno activo
     await this.turnStateRedis.setTurnTimeout(gameId, currentUserId);
 
     // 2. Cancelar timeout anterior (si existía)
     this.cancel(gameId);
 
-    // 3. Iniciar nuevo timeout en memoria
+    // 3. Iniciar nuevo timeout en memoria con la duración de turno de la partida
     const timeoutId = setTimeout(() => {
-      this.handleTimeout(gameId, currentUserId).catch((error) => {
+      this.handleTimeout(gameId, currentUserId, rules).catch((error) => {
         this.logger.error(`Error en timeout: ${error}`);
       });
-    }, this.TIMEOUT_DURATION);
+    }, rules.turnDuration);
 
     this.timeouts.set(gameId, timeoutId);
 
@@ -104,10 +107,12 @@ export class TurnTimeoutManager {
    *
    * @param gameId ID de la partida
    * @param currentUserId ID del jugador inactivo
+   * @param rules Reglas de la partida
    */
   private async handleTimeout(
     gameId: number,
     currentUserId: number,
+    rules: GameRules,
   ): Promise<void> {
     // 1. Confirmar que el turno aún pertenece al jugador esperado
     const expectedUserId = await this.turnStateRedis.getTurnTimeout(gameId);
@@ -119,8 +124,8 @@ export class TurnTimeoutManager {
       currentUserId,
     );
 
-    // 3. Si excede el límite de fallos → marcar como abandonado
-    if (missedTurns >= this.MAX_MISSED_TURNS) {
+    // 3. Si excede el límite de fallos de la partida → marcar como abandonado
+    if (missedTurns >= rules.maxMissedTurns) {
       await this.playerStateRedis.markAsAbandoned(gameId, currentUserId);
 
       // Emitir evento de eliminación por inactividad
@@ -139,7 +144,13 @@ export class TurnTimeoutManager {
       `Turno perdido para userId=${currentUserId} en gameId=${gameId}. Fallos=${missedTurns}`,
     );
 
-    // 5. Orquestar el siguiente turno
-    await this.turnOrchestrator.passTurn(gameId, currentUserId);
+    // 5. Orquestar el siguiente turno y reiniciar el temporizador
+    const nextUserId = await this.turnOrchestrator.passTurn(
+      gameId,
+      currentUserId,
+    );
+    if (nextUserId !== null) {
+      await this.start(gameId, nextUserId, rules);
+    }
   }
 }
@@ -0,0 +1,280 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { BoardGenerationUseCase } from '../../application/use-cases/board-generation.use-case';
+import { PlacementStateRedis } from '../redis/placement-state.redis';
+import { TeamStateRedis } from '../redis/team-state.redis';
+import { TurnStateRedis } from '../redis/turn-state.redis';
+import { TurnTimeoutManager } from '../managers/turn-timeout.manager';
+import { RoundTimeoutManager } from '../managers/round-timeout.manager';
+import { GameTimeLimitManager } from '../managers/game-time-limit.manager';
+import { RedisCleanerOrchestrator } from './redis-cleaner.orchestrator';
+import { SocketServerAdapter } from '../adapters/socket-server.adapter';
+import { BoardHandler } from '../websocket/handlers/board.handler';
+import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
+import { GameWithPlayers } from '../../../../prisma/prisma.types';
+import { GameStatus } from '../../../../prisma/prisma.enum';
+import {
+  BoardLayout,
+  Difficulty,
+  Mode,
+  TerrainDensity,
+  TerrainMap,
+} from '../../domain/models/board.model';
+import { SocketWithUser } from '../../domain/types/socket.types';
+import {
+  parseArsenal,
+  parseFleet,
+  parseRules,
+} from '../../application/mapper/board.mapper';
+import { ArsenalUseCase } from '../../application/use-cases/arsenal.use-case';
+import { SeededRandomService } from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Servicio orquestador de la fase de colocación de barcos.
+ *
+ * Responsabilidades:
+ * - Calcular el layout del tablero y abrir la fase de colocación
+ * - Construir el tablero definitivo con las flotas colocadas (o aleatorias)
+ * - Establecer el primer turno (o abrir la primera ronda simultánea) y notificar el inicio de la partida
+ * - Iniciar el límite de tiempo total de la partida, si se configuró
+ * - Enviar a cada jugador su vista inicial del tablero y su arsenal
+ * - Abandonar la partida si la colocación no puede finalizarse
+ */
+@Injectable()
+export class PlacementOrchestrator {
+  private readonly logger = new Logger(PlacementOrchestrator.name);
+
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly boardGenerationService: BoardGenerationUseCase,
+    private readonly seededRandom: SeededRandomService,
+    private readonly arsenalService: ArsenalUseCase,
+    private readonly placementStateRedis: PlacementStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly turnStateRedis: TurnStateRedis,
+    private readonly turnTimeoutManager: TurnTimeoutManager,
+    private readonly roundTimeoutManager: RoundTimeoutManager,
+    private readonly gameTimeLimitManager: GameTimeLimitManager,
+    private readonly redisCleaner: RedisCleanerOrchestrator,
+    private readonly socketServerAdapter: SocketServerAdapter,
+    private readonly boardHandler: BoardHandler,
+    private readonly gameEventEmitter: GameEventEmitter,
+  ) {}
+
+  /**
+   * Abre la fase de colocación de barcos para una partida.
+   *
+   * @param game Partida con sus jugadores
+   * @returns Layout del tablero (tamaño, flota por jugador y terreno)
+   * @throws Error si no hay espacio suficiente para la flota de todos los jugadores
+   */
+  async beginPlacement(game: GameWithPlayers): Promise<BoardLayout> {
+    // 1. Generar la semilla de la partida (determina terreno, flotas y dispersión)
+    const seed = this.seededRandom.createSeed();
+
+    // 2. Calcular tamaño del tablero, flota y terreno según la configuración y las reglas de la partida
+    const layout = this.boardGenerationService.prepareBoardLayout(
+      game.gamePlayers.length,
+      game.difficulty as Difficulty,
+      game.mode as Mode,
+      {
+        fleet: parseFleet(game.fleet),
+        terrain: {
+          map: (game.terrainMap as TerrainMap | null) ?? undefined,
+          density: (game.terrainDensity as TerrainDensity | null) ?? undefined,
+        },
+        random: this.seededRandom.createGenerator(seed, 0),
+        boardSizeOffset: parseRules(game.rules).boardSizeOffset,
+      },
+    );
+
+    // 3. Guardar el layout y cambiar el estado de la partida
+    await this.placementStateRedis.saveLayout(game.id, layout);
+    await this.gameRepository.markGameAsPlacing(game.id, seed);
+
+    this.logger.log(
+      `Fase de colocación iniciada: gameId=${game.id}, tablero=${layout.size}x${layout.size}, terreno=${layout.terrain.length}`,
+    );
+
+    return layout;
+  }
+
+  /**
+   * Cierra la fase de colocación y arranca la partida.
+   *
+   * Se invoca cuando todos los jugadores colocaron su flota o al expirar
+   * el tiempo de colocación. Los jugadores sin flota reciben una aleatoria.
+   *
+   * Si la partida no puede arrancar (layout perdido o error al construir el tablero),
+   * se notifica a la sala y se abandona la partida en lugar de dejarla en `placing`.
+   *
+   * @param gameId ID de la partida
+   */
+  async finalizePlacement(gameId: number): Promise<void> {
+    // 1. Evitar finalizaciones concurrentes (timeout vs. último jugador)
+    const acquired = await this.placementStateRedis.acquireFinalizeLock(gameId);
+    if (!acquired) return;
+
+    try {
+      await this.startGame(gameId);
+    } catch (error) {
+      this.logger.error(
+        `Error al finalizar la colocación: gameId=${gameId}`,
+        error,
+      );
+      await this.abortPlacement(gameId);
+    } finally {
+      await this.placementStateRedis.releaseFinalizeLock(gameId);
+    }
+  }
+
+  /**
+   * Construye el tablero definitivo y arranca la partida.
+   *
+   * @param gameId ID de la partida
+   * @throws Error si no se encuentra el layout de colocación
+   * @private
+   */
+  private async startGame(gameId: number): Promise<void> {
+    // 2. Verificar que la partida siga en fase de colocación
+    const game = await this.gameRepository.findByIdWithPlayers(gameId);
+    if (!game || game.status !== GameStatus.placing) {
+      this.logger.warn(
+        `Partida no encontrada o fuera de fase de colocación: gameId=${gameId}`,
+      );
+      return;
+    }
+
+    const layout = await this.placementStateRedis.getLayout(gameId);
+    if (!layout) {
+      throw new Error(`Layout de colocación no encontrado: gameId=${gameId}`);
+    }
+
+    // 3. Construir el tablero con las flotas colocadas y completar las faltantes
+    const placedShips =
+      await this.placementStateRedis.getAllPlayerShips(gameId);
+    const playerIds = game.gamePlayers.map((p) => p.userId);
+    const board = this.boardGenerationService.completeBoard(
+      layout,
+      playerIds,
+      placedShips,
+      this.seededRandom.createGenerator(game.seed ?? game.id),
+    );
+
+    // 4. Asignar equipos a barcos
+    if (game.mode === 'teams') {
+      const teams = await this.teamStateRedis.getAllTeams(gameId);
+      board.ships.forEach((ship) => {
+        if (ship.ownerId !== null && teams[ship.ownerId] !== undefined) {
+          ship.teamId = teams[ship.ownerId];
+        }
+      });
+    }
+
+    // 5. Persistir tablero, establecer primer turno (creador), iniciar su temporizador y notificar.
+    // En partidas por rondas no hay turno: la primera ronda se abre tras enviar los tableros.
+    const simultaneous = game.turnMode === 'simultaneous';
+
+    await this.gameRepository.updateGameStartBoard(gameId, board);
+
+    if (!simultaneous) {
+      const firstTurnUserId = game.createdById ?? playerIds[0];
+
+      await this.turnStateRedis.setCurrentTurn(gameId, firstTurnUserId);
+      await this.turnTimeoutManager.start(
+        gameId,
+        firstTurnUserId,
+        parseRules(game.rules),
+      );
+
+      this.gameEventEmitter.emitTurnChanged(gameId, firstTurnUserId);
+    }
+
+    this.gameEventEmitter.emitGameStarted(gameId);
+
+    if (game.timeLimit) {
+      this.gameTimeLimitManager.start(gameId, game.timeLimit);
+    }
+
+    this.logger.log(`Partida iniciada correctamente. gameId=${gameId}`);
+
+    // 6. Enviar la vista inicial del tablero y el arsenal a cada jugador
+    await this.sendInitialBoardState(gameId);
+
+    const arsenal = this.arsenalService.resolveConfig(
+      parseArsenal(game.arsenal),
+    );
+    for (const playerId of playerIds) {
+      this.gameEventEmitter.emitArsenalStatus(playerId, {
+        arsenal: await this.arsenalService.getStatus(gameId, playerId, arsenal),
+      });
+    }
+
+    // 7. Abrir la primera ronda simultánea
+    if (simultaneous) {
+      await this.roundTimeoutManager.start(gameId);
+    }
+  }
+
+  /**
+   * Abandona una partida cuya colocación no pudo finalizarse.
+   *
+   * Solo actúa si la partida sigue en `placing`: si el error ocurrió después de
+   * persistir el tablero, la partida ya está en curso y no se interrumpe.
+   *
+   * @param gameId ID de la partida
+   * @private
+   */
+  private async abortPlacement(gameId: number): Promise<void> {
+    const game = await this.gameRepository.findById(gameId);
+    if (!game || game.status !== GameStatus.placing) return;
+
+    await this.gameRepository.markGameAsFinished(gameId);
+    await this.redisCleaner.clearGameRedisState(gameId);
+    this.gameTimeLimitManager.cancel(gameId);
+
+    this.gameEventEmitter.emitGameError(
+      gameId,
+      'No se pudo iniciar la partida; se ha cancelado',
+      'PLACEMENT_FAILED',
+    );
+    this.gameEventEmitter.emitGameAbandoned(gameId);
+
+    this.logger.warn(
+      `Partida abandonada por fallo en la colocación: gameId=${gameId}`,
+    );
+  }
+
+  /**
+   * Envía el estado visual del tablero a todos los jugadores conectados.
+   *
+   * Cada jugador recibe su versión personalizada del tablero.
+   *
+   * @param gameId ID de la partida
+   * @returns Promesa que se resuelve cuando todos los estados han sido enviados
+   * @private
+   */
+  private async sendInitialBoardState(gameId: number): Promise<void> {
+    const socketIds = this.socketServerAdapter.getSocketsInGame(gameId);
+
+    for (const socketId of socketIds) {
+      const socket = this.socketServerAdapter
+        .getServer()
+        .sockets.sockets.get(socketId);
+
+      if (socket) {
+        await this.boardHandler.sendBoardUpdate(
+          socket as SocketWithUser,
+          gameId,
+        );
+        this.logger.debug(`Tablero enviado a socket ${socketId}`);
+      } else {
+        this.logger.warn(
+          `Socket no encontrado para envío de tablero: ${socketId}`,
+        );
+      }
+    }
+
+    this.logger.log(`Tableros iniciales enviados a todos. gameId=${gameId}`);
+  }
+}
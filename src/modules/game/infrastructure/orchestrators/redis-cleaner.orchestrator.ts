@@ -4,6 +4,10 @@ import { ReadyStateRedis } from '../redis/ready-state.redis';
 import { TeamStateRedis } from '../redis/team-state.redis';
 import { NuclearStateRedis } from '../redis/nuclear-state.redis';
 import { PlayerStateRedis } from '../redis/player-state.redis';
+import { PlacementStateRedis } from '../redis/placement-state.redis';
+import { ArsenalStateRedis } from '../redis/arsenal-state.redis';
+import { RoundStateRedis } from '../redis/round-state.redis';
+import { AccessAttemptRedis } from '../redis/access-attempt.redis';
 
 /**
  * Servicio orquestador responsable de limpiar los estados en Redis
@@ -15,6 +19,10 @@ import { PlayerStateRedis } from '../redis/player-state.redis';
  * - Asignación de equipos
  * - Progreso de armamento nuclear
  * - Estado de abandono de jugadores
+ * - Colocación de barcos
+ * - Munición y enfriamientos del arsenal
+ * - Rondas simultáneas
+ * - Intentos fallidos de código de acceso
  */
 @Injectable()
 export class RedisCleanerOrchestrator {
@@ -26,6 +34,10 @@ export class RedisCleanerOrchestrator {
     private readonly teamsStateRedis: TeamStateRedis,
     private readonly nuclearStateRedis: NuclearStateRedis,
     private readonly playerStateRedis: PlayerStateRedis,
+    private readonly placementStateRedis: PlacementStateRedis,
+    private readonly arsenalStateRedis: ArsenalStateRedis,
+    private readonly roundStateRedis: RoundStateRedis,
+    private readonly accessAttemptRedis: AccessAttemptRedis,
   ) {}
 
   /**
@@ -51,6 +63,11 @@ export class RedisCleanerOrchestrator {
         this.teamsStateRedis.clearTeams(gameId),
         this.nuclearStateRedis.clearNuclear(gameId),
         this.playerStateRedis.clearAllAbandoned(gameId),
+        this.playerStateRedis.clearAllBanned(gameId),
+        this.placementStateRedis.clearPlacement(gameId),
+        this.arsenalStateRedis.clearArsenal(gameId),
+        this.roundStateRedis.clearRounds(gameId),
+        this.accessAttemptRedis.clearAllAttempts(gameId),
       ]);
 
       this.logger.log(
@@ -0,0 +1,450 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameRepository } from '../../domain/repository/game.repository';
+import { PlayerRepository } from '../../domain/repository/player.repository';
+import { FireShotUseCase } from '../../application/use-cases/fire-shot.use-case';
+import { ArsenalUseCase } from '../../application/use-cases/arsenal.use-case';
+import { NuclearUseCase } from '../../application/use-cases/nuclear.use-case';
+import { RoundStateRedis } from '../redis/round-state.redis';
+import { TurnStateRedis } from '../redis/turn-state.redis';
+import { PlayerStateRedis } from '../redis/player-state.redis';
+import { TeamStateRedis } from '../redis/team-state.redis';
+import { TurnOrchestrator } from './turn.orchestrator';
+import { SocketServerAdapter } from '../adapters/socket-server.adapter';
+import { BoardHandler } from '../websocket/handlers/board.handler';
+import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
+import { GameStatus } from '../../../../prisma/prisma.enum';
+import {
+  parseArsenal,
+  parseBoard,
+  parseRules,
+} from '../../application/mapper/board.mapper';
+import { getShotTypeDefinition } from '../../domain/logic/shot-type.registry';
+import { TurnLogicUseCase } from '../../application/use-cases/turn-logic.use-case';
+import { RoundShotResult } from '../../domain/models/round.model';
+import { CombatRecord } from '../../domain/models/combat.model';
+import { NuclearOwner } from '../../domain/models/nuclear.model';
+import { ArsenalConfig } from '../../domain/models/arsenal.model';
+import { ShotType } from '../../domain/models/shot.model';
+import { SocketWithUser } from '../../domain/types/socket.types';
+import { SeededRandomService } from '../../../../shared/random/seeded-random.service';
+
+/**
+ * Servicio orquestador de las partidas por rondas simultáneas.
+ *
+ * Responsabilidades:
+ * - Abrir cada ronda y notificar su inicio
+ * - Resolver juntos todos los disparos enviados en la ronda, con reglas deterministas
+ * - Notificar el resultado de la ronda y el tablero actualizado a cada jugador
+ * - Eliminar derrotados y detectar el final de la partida
+ *
+ * Reglas de resolución:
+ * 1. Los disparos se resuelven en orden ascendente de `userId`, rotando una posición
+ *    en cada ronda para que ningún jugador tenga siempre la prioridad.
+ * 2. Si el objetivo principal de un disparo ya fue alcanzado por otro disparo
+ *    resuelto antes en la misma ronda, el disparo queda `contested`: no se registra
+ *    ni consume munición. Lo mismo ocurre con una bomba nuclear de equipo que otro
+ *    miembro ya lanzó antes en la misma ronda.
+ * 3. Las casillas de un patrón ya alcanzadas en la ronda se omiten, como en cualquier disparo.
+ * 4. Las eliminaciones se aplican al terminar la ronda: un jugador que pierde su último
+ *    barco en la ronda igualmente resuelve su disparo.
+ * 5. Un jugador activo que no dispara en la ronda pierde su acción, igual que un turno
+ *    perdido en el modo por turnos: al acumular `maxMissedTurns` se lo retira por inactividad.
+ */
+@Injectable()
+export class RoundOrchestrator {
+  private readonly logger = new Logger(RoundOrchestrator.name);
+
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly playerRepository: PlayerRepository,
+    private readonly shotService: FireShotUseCase,
+    private readonly arsenalService: ArsenalUseCase,
+    private readonly nuclearService: NuclearUseCase,
+    private readonly seededRandom: SeededRandomService,
+    private readonly roundStateRedis: RoundStateRedis,
+    private readonly turnStateRedis: TurnStateRedis,
+    private readonly playerStateRedis: PlayerStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly turnOrchestrator: TurnOrchestrator,
+    private readonly socketServerAdapter: SocketServerAdapter,
+    private readonly boardHandler: BoardHandler,
+    private readonly gameEventEmitter: GameEventEmitter,
+  ) {}
+
+  /**
+   * Abre una nueva ronda y notifica su inicio a todos los jugadores.
+   *
+   * @param gameId ID de la partida
+   * @returns Número de la ronda abierta y su duración (en milisegundos, según las reglas de la partida)
+   */
+  async openRound(
+    gameId: number,
+  ): Promise<{ round: number; timeLimit: number }> {
+    const game = await this.gameRepository.findById(gameId);
+    const { roundDuration } = parseRules(game?.rules);
+
+    const round = await this.roundStateRedis.openRound(gameId);
+
+    this.gameEventEmitter.emitRoundStarted(gameId, {
+      round,
+      timeLimit: roundDuration,
+    });
+
+    this.logger.log(`Ronda ${round} iniciada: gameId=${gameId}`);
+
+    return { round, timeLimit: roundDuration };
+  }
+
+  /**
+   * Indica si todos los jugadores activos ya enviaron su disparo de la ronda.
+   *
+   * @param gameId ID de la partida
+   * @returns `true` si la ronda puede resolverse sin esperar al fin del tiempo
+   */
+  async allPlayersSubmitted(gameId: number): Promise<boolean> {
+    const game = await this.gameRepository.findByIdWithPlayers(gameId);
+    if (!game?.board) return false;
+
+    const board = parseBoard(game.board);
+    const round = await this.roundStateRedis.getRound(gameId);
+    const submissions = await this.roundStateRedis.getSubmissions(
+      gameId,
+      round,
+    );
+
+    return game.gamePlayers
+      .filter(
+        (p) => !p.leftAt && TurnLogicUseCase.hasShipsAlive(board, p.userId),
+      )
+      .every((p) => submissions[p.userId] !== undefined);
+  }
+
+  /**
+   * Resuelve todos los disparos de la ronda en curso.
+   *
+   * @param gameId ID de la partida
+   * @returns `true` si la partida continúa y debe abrirse otra ronda,
+   * `false` si terminó o si la ronda ya estaba siendo resuelta
+   */
+  async resolveRound(gameId: number): Promise<boolean> {
+    // 1. Evitar resoluciones concurrentes (fin del tiempo vs. último disparo)
+    const round = await this.roundStateRedis.getRound(gameId);
+    const acquired = await this.roundStateRedis.acquireResolveLock(
+      gameId,
+      round,
+    );
+    if (!acquired) return false;
+
+    // 2. Verificar que la partida siga en curso
+    const game = await this.gameRepository.findByIdWithPlayers(gameId);
+    if (!game?.board || game.status !== GameStatus.in_progress) {
+      this.logger.warn(
+        `Partida no encontrada o fuera de curso al resolver ronda: gameId=${gameId}`,
+      );
+      return false;
+    }
+
+    let board = parseBoard(game.board);
+
+    // Jugadores activos al comenzar la resolución (los que debían disparar)
+    const activeUserIds = game.gamePlayers
+      .filter(
+        (p) => !p.leftAt && TurnLogicUseCase.hasShipsAlive(board, p.userId),
+      )
+      .map((p) => p.userId);
+
+    const arsenal = this.arsenalService.resolveConfig(
+      parseArsenal(game.arsenal),
+    );
+    const { nuclearThreshold, maxMissedTurns } = parseRules(game.rules);
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+
+    // 3. Ordenar los disparos de forma determinista (userId ascendente, rotando por ronda)
+    const submissions = await this.roundStateRedis.getSubmissions(
+      gameId,
+      round,
+    );
+    const shooters = Object.keys(submissions)
+      .map(Number)
+      .sort((a, b) => a - b);
+    const offset = shooters.length ? (round - 1) % shooters.length : 0;
+    const order = [...shooters.slice(offset), ...shooters.slice(0, offset)];
+
+    /**
+     * 4. Resolver cada disparo sobre el mismo tablero en memoria.
+     *
+     * Aquí solo se leen el arsenal y el estado nuclear: no cambian mientras se resuelve porque
+     * la resolución tiene su propio bloqueo y cada jugador envía un único disparo por ronda.
+     * Los contadores se actualizan tras persistir el tablero, de modo que una ronda que falla
+     * antes de guardarlo no deja munición ni progreso nuclear descontados.
+     */
+    const results: RoundShotResult[] = [];
+    const records: CombatRecord[] = [];
+    const resolved: {
+      userId: number;
+      shotType: ShotType;
+      nuclearOwner: NuclearOwner;
+      hitEnemy: boolean;
+    }[] = [];
+    const nuclearUsed = new Set<string>();
+
+    for (const userId of order) {
+      const { shotType, target, direction } = submissions[userId];
+      const definition = getShotTypeDefinition(shotType);
+      const nuclearOwner = await this.nuclearService.resolveOwner(
+        gameId,
+        userId,
+        game.teamNuclear,
+      );
+
+      // El torpedo impacta en la última casilla libre de su recorrido: solo queda sin objetivo si no hay ninguna
+      const withoutTarget =
+        definition.origin === 'cell'
+          ? (board.shots ?? []).some(
+              (shot) =>
+                shot.target.row === target.row &&
+                shot.target.col === target.col,
+            )
+          : !(await this.shotService.hasImpact({
+              gameId,
+              shooterId: userId,
+              type: shotType,
+              target,
+              board,
+              random: this.seededRandom.createGenerator(
+                game.seed ?? game.id,
+                (board.shots ?? []).length,
+              ),
+              direction,
+              friendlyFire: game.friendlyFire,
+            }));
+
+      // Sin munición, en enfriamiento o con la bomba ya usada en la ronda (por un compañero) el disparo queda anulado
+      const nuclearKey = JSON.stringify(nuclearOwner);
+      const contested =
+        withoutTarget ||
+        (definition.availability === 'nuclear' &&
+          (nuclearUsed.has(nuclearKey) ||
+            !(await this.nuclearService.canUse(gameId, nuclearOwner)))) ||
+        (await this.arsenalService.checkAvailability(
+          gameId,
+          userId,
+          shotType,
+          arsenal,
+        )) !== null;
+
+      if (contested) {
+        results.push({
+          shooterUserId: userId,
+          shotType,
+          x: target.col,
+          y: target.row,
+          hit: false,
+          sunk: false,
+          contested: true,
+          impacts: [],
+        });
+        continue;
+      }
+
+      const result = await this.shotService.registerShot({
+        gameId,
+        shooterId: userId,
+        type: shotType,
+        target,
+        board,
+        random: this.seededRandom.createGenerator(
+          game.seed ?? game.id,
+          (board.shots ?? []).length,
+        ),
+        direction,
+        friendlyFire: game.friendlyFire,
+      });
+      board = result.updatedBoard;
+      records.push(...result.records);
+
+      results.push({
+        shooterUserId: userId,
+        shotType,
+        x: result.shot.target.col,
+        y: result.shot.target.row,
+        hit: result.shot.hit,
+        sunk: !!result.shot.sunkShipId,
+        contested: false,
+        impacts: result.impacts,
+      });
+
+      if (definition.availability === 'nuclear') nuclearUsed.add(nuclearKey);
+
+      // Solo los impactos a barcos enemigos suman a la racha nuclear
+      resolved.push({
+        userId,
+        shotType,
+        nuclearOwner,
+        hitEnemy: TurnLogicUseCase.hitsEnemy(result.records, teams),
+      });
+    }
+
+    // 5. Persistir el tablero con todos los disparos de la ronda
+    await this.gameRepository.updateGameBoard(gameId, board);
+
+    // 5.1 Con el tablero guardado, descontar munición/enfriamiento y registrar el progreso nuclear en orden
+    const nuclearOwners = new Map<string, NuclearOwner>();
+    for (const { userId, shotType, nuclearOwner, hitEnemy } of resolved) {
+      await this.consumeArsenal(gameId, userId, shotType, arsenal);
+
+      await this.nuclearService.registerShot(
+        gameId,
+        nuclearOwner,
+        shotType,
+        hitEnemy,
+        nuclearThreshold,
+      );
+      nuclearOwners.set(JSON.stringify(nuclearOwner), nuclearOwner);
+    }
+
+    // 5.2 Notificar el resultado de la ronda, revelar los barcos hundidos y difundir el historial de combate
+    this.gameEventEmitter.emitRoundResult(gameId, { round, shots: results });
+
+    for (const result of results) {
+      await this.boardHandler.announceSunkShips(
+        gameId,
+        board,
+        result.impacts,
+        result.shooterUserId,
+      );
+    }
+
+    if (records.length) {
+      this.gameEventEmitter.emitCombatFeed(gameId, { records });
+    }
+
+    // 5.3 Enviar el estado de cada medidor nuclear afectado a sus dueños
+    for (const owner of nuclearOwners.values()) {
+      const [status, recipients] = await Promise.all([
+        this.nuclearService.getStatus(gameId, owner, nuclearThreshold),
+        this.nuclearService.getRecipients(gameId, owner),
+      ]);
+
+      for (const recipientId of recipients) {
+        this.gameEventEmitter.emitNuclearStatus(recipientId, status);
+      }
+    }
+
+    this.logger.log(
+      `Ronda ${round} resuelta: gameId=${gameId}, disparos=${results.length}`,
+    );
+
+    await this.sendBoardToAll(gameId);
+
+    // 5.4 Registrar la ronda perdida de quienes no dispararon
+    await this.registerMissedRounds(
+      gameId,
+      activeUserIds.filter((userId) => submissions[userId] === undefined),
+      maxMissedTurns,
+    );
+
+    // 6. Eliminar derrotados y verificar si la partida terminó
+    const state = await this.turnOrchestrator.evaluateGameState(gameId);
+    return state !== null;
+  }
+
+  /**
+   * Descuenta la munición/enfriamiento de un disparo ya resuelto y envía el estado del arsenal.
+   *
+   * La disponibilidad se comprobó al resolver el disparo; si aun así el descuento se rechaza,
+   * solo se registra una advertencia, ya que el disparo ya forma parte del tablero guardado.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador que disparó
+   * @param shotType Tipo de disparo resuelto
+   * @param arsenal Configuración del arsenal de la partida
+   * @private
+   */
+  private async consumeArsenal(
+    gameId: number,
+    userId: number,
+    shotType: ShotType,
+    arsenal: ArsenalConfig,
+  ): Promise<void> {
+    const consumed = await this.arsenalService.tryConsume(
+      gameId,
+      userId,
+      shotType,
+      arsenal,
+    );
+    if (!consumed.consumed) {
+      this.logger.warn(
+        `Munición no descontada tras resolver la ronda: gameId=${gameId}, userId=${userId}, tipo=${shotType}`,
+      );
+      return;
+    }
+
+    this.gameEventEmitter.emitArsenalStatus(userId, {
+      arsenal: consumed.arsenal,
+    });
+  }
+
+  /**
+   * Registra la ronda perdida de los jugadores que no dispararon a tiempo.
+   *
+   * Usa el mismo contador de turnos perdidos que el modo por turnos: al alcanzar
+   * `maxMissedTurns` el jugador se marca como abandonado y se retira de la partida
+   * (deja de contar como jugador activo en las rondas siguientes).
+   *
+   * @param gameId ID de la partida
+   * @param userIds Jugadores activos que no dispararon en la ronda
+   * @param maxMissedTurns Acciones perdidas permitidas según las reglas de la partida
+   * @private
+   */
+  private async registerMissedRounds(
+    gameId: number,
+    userIds: number[],
+    maxMissedTurns: number,
+  ): Promise<void> {
+    for (const userId of userIds) {
+      const missed = await this.turnStateRedis.incrementMissedTurns(
+        gameId,
+        userId,
+      );
+
+      if (missed >= maxMissedTurns) {
+        await this.playerStateRedis.markAsAbandoned(gameId, userId);
+        await this.playerRepository.markPlayerAsDefeated(gameId, userId);
+
+        this.gameEventEmitter.emitPlayerEliminated(gameId, userId);
+
+        this.logger.warn(
+          `Jugador userId=${userId} expulsado por inactividad en gameId=${gameId}`,
+        );
+        continue;
+      }
+
+      this.gameEventEmitter.emitTurnTimeout(gameId, userId);
+
+      this.logger.log(
+        `Ronda perdida para userId=${userId} en gameId=${gameId}. Fallos=${missed}`,
+      );
+    }
+  }
+
+  /**
+   * Envía a cada jugador conectado su vista actualizada del tablero.
+   *
+   * @param gameId ID de la partida
+   * @private
+   */
+  private async sendBoardToAll(gameId: number): Promise<void> {
+    const server = this.socketServerAdapter.getServer();
+
+    for (const socketId of this.socketServerAdapter.getSocketsInGame(gameId)) {
+      const socket = server.sockets.sockets.get(socketId);
+      if (socket) {
+        await this.boardHandler.sendBoardUpdate(
+          socket as SocketWithUser,
+          gameId,
+        );
+      }
+    }
+  }
+}
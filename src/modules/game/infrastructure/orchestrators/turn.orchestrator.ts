@@ -1,11 +1,19 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
 import { GameRepository } from '../../domain/repository/game.repository';
 import { PlayerRepository } from '../../domain/repository/player.repository';
 import { PlayerEliminationManager } from '../managers/player-elimination.manager';
 import { RedisCleanerOrchestrator } from './redis-cleaner.orchestrator';
+import { GameTimeLimitManager } from '../managers/game-time-limit.manager';
+import { TurnStateRedis } from '../redis/turn-state.redis';
 import { TurnLogicUseCase } from '../../application/use-cases/turn-logic.use-case';
 import { GameEventEmitter } from '../websocket/events/emitters/game-event.emitter';
 import { StatsFacade } from '../../../stats/application/facade/stats.facade';
+import { GameWithPlayers } from '../../../../prisma/prisma.types';
+import { parseBoard, parseRules } from '../../application/mapper/board.mapper';
+import { BoardVisualizationUseCase } from '../../application/use-cases/board-visualization.use-case';
+import { ShotEvaluatorLogic } from '../../domain/logic/shot-evaluator.logic';
+import { GameStatus } from '../../../../prisma/prisma.enum';
+import { Board } from '../../domain/models/board.model';
 
 /**
  * Servicio orquestador que controla el avance de turnos dentro de una partida.
@@ -14,7 +22,15 @@ import { StatsFacade } from '../../../stats/application/facade/stats.facade';
  * - Eliminar jugadores sin barcos activos
  * - Detectar condiciones de victoria
  * - Finalizar la partida si corresponde
+ * - Asignar el siguiente turno (o un turno extra si la partida lo permite)
+ * - Aplicar la muerte súbita y el desempate cuando se agota el tiempo de la partida
  * - Emitir eventos relevantes al frontend
+ *
+ * Muerte súbita: al agotarse la duración total de la partida, tras cada turno (o ronda)
+ * colapsa el anillo exterior del tablero que sigue en pie, dañando todas las partes de
+ * barco que contiene. Si al terminar la muerte súbita no hay ganador, la partida se decide
+ * por desempate (casillas intactas + impactos causados). Si un colapso hunde a todos los
+ * jugadores que seguían en pie, el desempate se decide entre ellos.
  */
 @Injectable()
 export class TurnOrchestrator {
@@ -26,34 +42,123 @@ export class TurnOrchestrator {
     private readonly statsFacade: StatsFacade,
     private readonly playerEliminationService: PlayerEliminationManager,
     private readonly redisCleaner: RedisCleanerOrchestrator,
+    private readonly turnStateRedis: TurnStateRedis,
+    private readonly boardVisualizationService: BoardVisualizationUseCase,
     private readonly gameEventEmitter: GameEventEmitter,
+    @Inject(forwardRef(() => GameTimeLimitManager))
+    private readonly gameTimeLimitManager: GameTimeLimitManager,
   ) {}
 
   /**
    * Evalúa el estado de la partida tras finalizar un turno:
-   * - Elimina jugadores derrotados
-   * - Verifica si hay un ganador
+   * - Elimina jugadores derrotados y verifica si hay un ganador
    * - Pasa el turno al siguiente jugador si continúa la partida
+   * - Concede un turno extra al jugador actual si lo ganó y no superó el tope de la partida
    *
    * @param gameId ID de la partida
    * @param currentUserId ID del jugador que acaba de jugar
+   * @param options `earnedBonus`: si la acción del jugador impactó o hundió un barco
+   * @returns ID del jugador con el siguiente turno, o `null` si la partida terminó
+   */
+  async passTurn(
+    gameId: number,
+    currentUserId: number,
+    options: { earnedBonus?: boolean } = {},
+  ): Promise<number | null> {
+    // 1. Eliminar derrotados y verificar si la partida terminó
+    const state = await this.evaluateGameState(gameId);
+    if (!state) return null;
+
+    const { game, aliveUserIds } = state;
+
+    // 2. Turno extra: el jugador repite si lo ganó y no superó el tope de la partida
+    if (
+      options.earnedBonus &&
+      game.maxBonusTurns > 0 &&
+      aliveUserIds.includes(currentUserId)
+    ) {
+      const streak = await this.turnStateRedis.incrementBonusStreak(gameId);
+
+      if (streak <= game.maxBonusTurns) {
+        await this.turnStateRedis.setCurrentTurn(gameId, currentUserId);
+
+        this.gameEventEmitter.emitTurnChanged(gameId, currentUserId);
+        this.gameEventEmitter.emitTurnBonus(gameId, {
+          userId: currentUserId,
+          streak,
+          maxBonusTurns: game.maxBonusTurns,
+        });
+
+        this.logger.log(
+          `Turno extra en gameId=${gameId} para userId=${currentUserId} (${streak}/${game.maxBonusTurns})`,
+        );
+        return currentUserId;
+      }
+    }
+
+    // 3. Si no se cumple condición de victoria → pasar al siguiente jugador
+    const nextUserId = TurnLogicUseCase.getNextUserId(
+      aliveUserIds,
+      currentUserId,
+    );
+
+    await this.turnStateRedis.resetBonusStreak(gameId);
+    await this.turnStateRedis.setCurrentTurn(gameId, nextUserId);
+
+    this.gameEventEmitter.emitTurnChanged(gameId, nextUserId);
+
+    this.logger.log(
+      `Turno avanzado en gameId=${gameId}. Nuevo turno para userId=${nextUserId}`,
+    );
+
+    return nextUserId;
+  }
+
+  /**
+   * Aplica las consecuencias de las acciones jugadas y verifica si la partida terminó:
+   * - Colapsa el siguiente anillo del tablero si la partida está en muerte súbita
+   * - Elimina jugadores sin barcos activos
+   * - Detecta condiciones de victoria y finaliza la partida si corresponde
+   *
+   * La usan tanto el avance de turnos secuencial como la resolución de rondas simultáneas.
+   *
+   * @param gameId ID de la partida
+   * @returns Partida y jugadores activos si continúa, o `null` si terminó (o no existe)
    */
-  async passTurn(gameId: number, currentUserId: number): Promise<void> {
+  async evaluateGameState(
+    gameId: number,
+  ): Promise<{ game: GameWithPlayers; aliveUserIds: number[] } | null> {
     // 1. Obtener la partida con jugadores y tablero
     const game = await this.gameRepository.findByIdWithPlayers(gameId);
 
     if (!game || !game.board) {
       this.logger.warn(`Juego no encontrado o sin tablero: gameId=${gameId}`);
-      return;
+      return null;
+    }
+
+    // 1.1 En muerte súbita, colapsar el siguiente anillo antes de evaluar eliminaciones
+    const currentBoard = parseBoard(game.board);
+    if (currentBoard.collapsedRings !== undefined) {
+      await this.shrinkBoard(game, currentBoard);
     }
 
     // 2. Eliminar jugadores sin barcos vivos
     const eliminatedUserIds =
       await this.playerEliminationService.eliminateDefeatedPlayers(game);
 
-    // 3. Emitir eventos de eliminación por jugador
+    // 3. Emitir eventos de eliminación por jugador (atribuidos según el historial de combate)
+    const combatLog = parseBoard(game.board).combatLog ?? [];
+
     for (const userId of eliminatedUserIds) {
-      this.gameEventEmitter.emitPlayerEliminated(gameId, userId);
+      const record = combatLog.findLast(
+        (r) => r.kind === 'elimination' && r.victimUserId === userId,
+      );
+
+      this.gameEventEmitter.emitPlayerEliminated(
+        gameId,
+        userId,
+        record?.attackerUserId,
+      );
       this.logger.log(
         `Jugador userId=${userId} eliminado por perder todos sus barcos.`,
       );
@@ -67,13 +172,24 @@ export class TurnOrchestrator {
 
     // 5. Si no queda ningún jugador activo, finalizar partida como abandonada
     if (aliveUserIds.length === 0) {
+      // 5.1 En muerte súbita, si el colapso hundió a todos los que seguían en pie,
+      // la partida se decide por desempate entre ellos
+      if (
+        currentBoard.collapsedRings !== undefined &&
+        eliminatedUserIds.length > 0
+      ) {
+        await this.endByTimeLimit(gameId, eliminatedUserIds);
+        return null;
+      }
+
       this.logger.warn(
         `No quedan jugadores vivos en gameId=${gameId}. Finalizando partida.`,
       );
       await this.gameRepository.markGameAsFinished(gameId);
       await this.redisCleaner.clearGameRedisState(gameId);
+      this.gameTimeLimitManager.cancel(gameId);
       this.gameEventEmitter.emitGameAbandoned(gameId);
-      return;
+      return null;
     }
 
     // 6. Evaluar condición de victoria en modo individual
@@ -86,18 +202,20 @@ export class TurnOrchestrator {
       await this.playerRepository.markPlayerAsWinner(winner.id);
       await this.gameRepository.markGameAsFinished(gameId);
       await this.redisCleaner.clearGameRedisState(gameId);
+      this.gameTimeLimitManager.cancel(gameId);
 
       await this.statsFacade.generateAndStoreStats(game);
 
       this.gameEventEmitter.emitGameEnded(gameId, {
         mode: 'individual',
+        reason: 'elimination',
         winnerUserId: winner.userId,
       });
 
       this.logger.log(
         `Partida ${gameId} terminada. Ganador userId=${winner.userId}`,
       );
-      return;
+      return null;
     }
 
     // 7. Evaluar condición de victoria en modo por equipos
@@ -111,31 +229,166 @@ export class TurnOrchestrator {
         );
         await this.gameRepository.markGameAsFinished(gameId);
         await this.redisCleaner.clearGameRedisState(gameId);
+        this.gameTimeLimitManager.cancel(gameId);
 
         await this.statsFacade.generateAndStoreStats(game);
 
         this.gameEventEmitter.emitGameEnded(gameId, {
           mode: 'teams',
+          reason: 'elimination',
           winningTeam,
         });
 
         this.logger.log(
           `Partida ${gameId} terminada. Equipo ganador=${winningTeam}`,
         );
-        return;
+        return null;
       }
     }
 
-    // 8. Si no se cumple condición de victoria → pasar al siguiente jugador
-    const nextUserId = TurnLogicUseCase.getNextUserId(
-      aliveUserIds,
-      currentUserId,
+    return { game, aliveUserIds };
+  }
+
+  /**
+   * Inicia la muerte súbita de una partida al agotarse su duración total.
+   *
+   * A partir de este momento, cada evaluación del estado de la partida colapsa
+   * un anillo del tablero (ver `evaluateGameState`).
+   *
+   * @param gameId ID de la partida
+   * @returns Duración de la muerte súbita (en milisegundos, según las reglas de la partida),
+   * o `null` si la partida no sigue en curso o ya estaba en muerte súbita
+   */
+  async startSuddenDeath(gameId: number): Promise<number | null> {
+    const game = await this.gameRepository.findById(gameId);
+    if (!game?.board || game.status !== GameStatus.in_progress) return null;
+
+    const board = parseBoard(game.board);
+    if (board.collapsedRings !== undefined) return null;
+
+    board.collapsedRings = 0;
+    await this.gameRepository.updateGameBoard(gameId, board);
+
+    const { suddenDeathDuration } = parseRules(game.rules);
+
+    this.gameEventEmitter.emitSuddenDeathStarted(gameId, {
+      timeLimit: suddenDeathDuration,
+    });
+
+    this.logger.log(`Muerte súbita iniciada: gameId=${gameId}`);
+
+    return suddenDeathDuration;
+  }
+
+  /**
+   * Finaliza la partida por tiempo agotado, decidiendo el ganador por desempate.
+   *
+   * @param gameId ID de la partida
+   * @param contenderUserIds Jugadores que disputan el desempate aunque ya estén eliminados
+   * (p. ej., todos los hundidos por el mismo colapso). Por defecto, los jugadores activos.
+   * @returns `true` si la partida terminó, `false` si ya no estaba en curso
+   */
+  async endByTimeLimit(
+    gameId: number,
+    contenderUserIds?: number[],
+  ): Promise<boolean> {
+    // 1. Verificar que la partida siga en curso
+    const game = await this.gameRepository.findByIdWithPlayers(gameId);
+    if (!game?.board || game.status !== GameStatus.in_progress) return false;
+
+    // 2. Calcular las puntuaciones de desempate de los jugadores activos (o de los indicados)
+    const board = parseBoard(game.board);
+    const mode = game.mode as 'individual' | 'teams';
+    const contenders = contenderUserIds
+      ? game.gamePlayers
+          .filter((p) => contenderUserIds.includes(p.userId))
+          .map((p) => ({ ...p, leftAt: null }))
+      : game.gamePlayers;
+    const scores = TurnLogicUseCase.computeTieBreakScores(board, contenders);
+    const winner =
+      TurnLogicUseCase.getTieBreakWinner(scores, mode) ?? undefined;
+
+    // 3. Registrar ganadores y finalizar la partida
+    if (winner !== undefined) {
+      if (mode === 'teams') {
+        await this.playerRepository.markTeamPlayersAsWinners(gameId, winner);
+      } else {
+        const player = game.gamePlayers.find((p) => p.userId === winner);
+        if (player) await this.playerRepository.markPlayerAsWinner(player.id);
+      }
+    }
+
+    await this.gameRepository.markGameAsFinished(gameId);
+    await this.redisCleaner.clearGameRedisState(gameId);
+    this.gameTimeLimitManager.cancel(gameId);
+
+    await this.statsFacade.generateAndStoreStats(game);
+
+    // 4. Notificar el final con el motivo y las puntuaciones
+    this.gameEventEmitter.emitGameEnded(gameId, {
+      mode,
+      reason: 'time_limit',
+      winnerUserId: mode === 'individual' ? winner : undefined,
+      winningTeam: mode === 'teams' ? winner : undefined,
+      scores,
+    });
+
+    this.logger.log(
+      `Partida ${gameId} terminada por tiempo agotado. Ganador por desempate=${winner}`,
     );
 
-    this.gameEventEmitter.emitTurnChanged(gameId, nextUserId);
+    return true;
+  }
+
+  /**
+   * Colapsa el siguiente anillo del tablero durante la muerte súbita.
+   *
+   * Todas las partes de barco del anillo quedan dañadas; los barcos hundidos se revelan
+   * a toda la sala. El tablero actualizado se asigna a la partida recibida para que
+   * la evaluación de eliminaciones lo tenga en cuenta.
+   *
+   * @param game Partida con sus jugadores
+   * @param board Tablero actual de la partida
+   * @private
+   */
+  private async shrinkBoard(
+    game: GameWithPlayers,
+    board: Board,
+  ): Promise<void> {
+    const ring = board.collapsedRings ?? 0;
+
+    // Cuando solo queda el centro, el tablero no sigue colapsando
+    if (ring >= Math.ceil(board.size / 2)) return;
+
+    const sunkShipIds = new Set<number>();
+    for (const { row, col } of TurnLogicUseCase.getRingCells(
+      board.size,
+      ring,
+    )) {
+      const result = ShotEvaluatorLogic.evaluate(board.ships, row, col);
+      if (result.sunkShipId !== undefined) sunkShipIds.add(result.sunkShipId);
+    }
+
+    board.collapsedRings = ring + 1;
+
+    const updated = await this.gameRepository.updateGameBoard(game.id, board);
+    game.board = updated.board;
+
+    const players = sunkShipIds.size
+      ? ((await this.gameRepository.findByIdWithPlayersAndUsers(game.id))
+          ?.gamePlayers ?? [])
+      : [];
+
+    this.gameEventEmitter.emitBoardShrunk(game.id, {
+      collapsedRings: board.collapsedRings,
+      sunkShips: this.boardVisualizationService.toVisibleShips(
+        board.ships.filter((ship) => sunkShipIds.has(ship.shipId)),
+        players,
+      ),
+    });
 
     this.logger.log(
-      `Turno avanzado en gameId=${gameId}. Nuevo turno para userId=${nextUserId}`,
+      `Tablero colapsado en gameId=${game.id}: anillos=${board.collapsedRings}, hundidos=${sunkShipIds.size}`,
     );
   }
 }
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../../../redis/redis.service';
+
+/**
+ * Servicio encargado de contar los intentos de código de acceso en Redis.
+ *
+ * Cada jugador tiene un contador por partida que expira tras una ventana de tiempo
+ * desde el primer intento. El intento se cuenta antes de verificar el código, de modo
+ * que los intentos simultáneos no puedan superar el máximo; un código correcto reinicia el contador.
+ *
+ * Redis almacena los datos como:
+ * - Clave: `game:{gameId}:access-attempts:{userId}`
+ * - Valor: cantidad de intentos en la ventana actual
+ */
+@Injectable()
+export class AccessAttemptRedis {
+  constructor(private readonly redisService: RedisService) {}
+
+  /** Acceso directo al cliente Redis */
+  private get redis() {
+    return this.redisService.getClient();
+  }
+
+  /**
+   * Registra un intento del jugador, antes de verificar el código.
+   *
+   * El primer intento abre la ventana de tiempo durante la cual se acumulan los siguientes.
+   * La ventana y el contador se crean en una misma transacción, de modo que la clave
+   * nunca queda sin expiración.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param windowSeconds Duración de la ventana de intentos (en segundos)
+   * @returns Cantidad de intentos en la ventana actual, incluido este
+   */
+  async registerAttempt(
+    gameId: number,
+    userId: number,
+    windowSeconds: number,
+  ): Promise<number> {
+    const key = `game:${gameId}:access-attempts:${userId}`;
+    const results = await this.redis
+      .multi()
+      .set(key, 0, 'EX', windowSeconds, 'NX')
+      .incr(key)
+      .exec();
+
+    const [error, attempts] = results?.[1] ?? [
+      new Error('Transacción de intentos de acceso abortada'),
+    ];
+    if (error) throw error;
+
+    return Number(attempts);
+  }
+
+  /**
+   * Devuelve los segundos que faltan para que expire la ventana de intentos del jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @returns Segundos restantes (0 si no hay ventana abierta)
+   */
+  async getRetryAfter(gameId: number, userId: number): Promise<number> {
+    const ttl = await this.redis.ttl(
+      `game:${gameId}:access-attempts:${userId}`,
+    );
+    return Math.max(ttl, 0);
+  }
+
+  /**
+   * Reinicia los intentos del jugador (tras un código correcto).
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   */
+  async clearAttempts(gameId: number, userId: number): Promise<void> {
+    await this.redis.del(`game:${gameId}:access-attempts:${userId}`);
+  }
+
+  /**
+   * Limpia los intentos de todos los jugadores de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  async clearAllAttempts(gameId: number): Promise<void> {
+    const keys = await this.redis.keys(`game:${gameId}:access-attempts:*`);
+    if (keys.length) {
+      await this.redis.del(...keys);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../../../redis/redis.service';
+import { PlayerArsenalState } from '../../domain/models/arsenal.model';
+import { ShotType } from '../../domain/models/shot.model';
+
+/**
+ * Script que registra el uso de un tipo de disparo y avanza los enfriamientos en un único paso.
+ *
+ * Evita que dos acciones simultáneas del mismo jugador lean el mismo estado y se pisen al guardarlo.
+ * No registra nada si el tipo está en enfriamiento o si se indica un máximo de usos (`ARGV[3]`)
+ * y ya se alcanzó.
+ *
+ * Retorna la hash completa del jugador tras la actualización, o `nil` si el uso se rechazó.
+ */
+const REGISTER_USE_SCRIPT = `
+local maxUses = tonumber(ARGV[3])
+if maxUses and tonumber(redis.call('HGET', KEYS[1], 'used:' .. ARGV[1]) or '0') >= maxUses then
+  return nil
+end
+if tonumber(redis.call('HGET', KEYS[1], 'cooldown:' .. ARGV[1]) or '0') > 0 then
+  return nil
+end
+redis.call('HINCRBY', KEYS[1], 'used:' .. ARGV[1], 1)
+local cooldown = tonumber(ARGV[2])
+if cooldown > 0 then
+  redis.call('HSET', KEYS[1], 'cooldown:' .. ARGV[1], cooldown)
+end
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  if string.sub(entries[i], 1, 9) == 'cooldown:' then
+    local remaining = math.max(0, tonumber(entries[i + 1]) - 1)
+    redis.call('HSET', KEYS[1], entries[i], remaining)
+  end
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+/**
+ * Servicio encargado de llevar la munición utilizada y los enfriamientos
+ * de los tipos de disparo de cada jugador.
+ *
+ * Se usa una hash por jugador:
+ * - Clave: `game:{gameId}:arsenal:{userId}`
+ * - Campo `used:{tipo}`: cantidad de usos del tipo de disparo
+ * - Campo `cooldown:{tipo}`: turnos propios que faltan para volver a usarlo
+ */
+@Injectable()
+export class ArsenalStateRedis {
+  constructor(private readonly redisService: RedisService) {}
+
+  /** Acceso directo al cliente Redis */
+  private get redis() {
+    return this.redisService.getClient();
+  }
+
+  /**
+   * Obtiene los usos y enfriamientos actuales de un jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @returns Estado del arsenal del jugador (vacío si aún no ha disparado)
+   */
+  async getPlayerState(
+    gameId: number,
+    userId: number,
+  ): Promise<PlayerArsenalState> {
+    const raw = await this.redis.hgetall(`game:${gameId}:arsenal:${userId}`);
+    return this.toState(Object.entries(raw));
+  }
+
+  /**
+   * Registra una acción del jugador solo si el tipo no está en enfriamiento
+   * y aún no alcanzó su máximo de usos.
+   *
+   * Cada acción consume un turno propio, por lo que, de forma atómica:
+   * 1. Se incrementa el uso del tipo de disparo
+   * 2. Se establece su enfriamiento (si tiene)
+   * 3. Se reducen en 1 todos los enfriamientos pendientes
+   *
+   * La comprobación y el registro se hacen en un único paso, de modo que dos acciones
+   * simultáneas no puedan superar el máximo ni saltarse el enfriamiento.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param type Tipo de disparo utilizado
+   * @param cooldown Enfriamiento configurado para el tipo (0 si no tiene)
+   * @param maxUses Usos permitidos por partida (`null` = ilimitado)
+   * @returns Estado del arsenal actualizado, o `null` si el tipo no estaba disponible
+   */
+  async tryRegisterUse(
+    gameId: number,
+    userId: number,
+    type: ShotType,
+    cooldown: number,
+    maxUses: number | null,
+  ): Promise<PlayerArsenalState | null> {
+    const entries = (await this.redis.eval(
+      REGISTER_USE_SCRIPT,
+      1,
+      `game:${gameId}:arsenal:${userId}`,
+      type,
+      cooldown,
+      maxUses ?? '',
+    )) as string[] | null;
+
+    if (!entries) return null;
+
+    const fields: [string, string][] = [];
+    for (let i = 0; i < entries.length; i += 2) {
+      fields.push([entries[i], entries[i + 1]]);
+    }
+
+    return this.toState(fields);
+  }
+
+  /**
+   * Elimina el estado del arsenal de todos los jugadores de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  async clearArsenal(gameId: number): Promise<void> {
+    const keys = await this.redis.keys(`game:${gameId}:arsenal:*`);
+    if (keys.length) {
+      await this.redis.del(...keys);
+    }
+  }
+
+  /**
+   * Convierte los campos de la hash del jugador en su estado de arsenal.
+   *
+   * @param fields Pares campo → valor de la hash
+   * @returns Usos y enfriamientos del jugador
+   * @private
+   */
+  private toState(fields: [string, string][]): PlayerArsenalState {
+    const state: PlayerArsenalState = { used: {}, cooldowns: {} };
+
+    for (const [field, value] of fields) {
+      const [kind, type] = field.split(':') as [string, ShotType];
+      if (kind === 'used') state.used[type] = Number(value);
+      if (kind === 'cooldown') state.cooldowns[type] = Number(value);
+    }
+
+    return state;
+  }
+}
@@ -1,10 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { RedisService } from '../../../../redis/redis.service';
+import { NuclearOwner } from '../../domain/models/nuclear.model';
 
 /**
- * Servicio encargado de gestionar el estado nuclear de cada jugador en una partida.
+ * Servicio encargado de gestionar el estado nuclear de una partida.
  *
- * Utiliza Redis para persistir de forma rápida:
+ * Cada medidor pertenece a un jugador o, en partidas con medidor compartido,
+ * a un equipo. Utiliza Redis para persistir de forma rápida:
  * - El progreso hacia la bomba nuclear
  * - La disponibilidad de uso
  * - El uso final de la bomba
@@ -18,77 +20,95 @@ export class NuclearStateRedis {
     return this.redisService.getClient();
   }
 
+  /**
+   * Construye la clave de un campo del medidor nuclear.
+   *
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor (jugador o equipo)
+   * @param field Campo del medidor
+   * @returns Clave Redis (`game:{gameId}:nuclear:{userId}:{field}` o `game:{gameId}:nuclear:team:{team}:{field}`)
+   * @private
+   */
+  private key(
+    gameId: number,
+    owner: NuclearOwner,
+    field: 'progress' | 'available' | 'used',
+  ): string {
+    const id = 'team' in owner ? `team:${owner.team}` : owner.userId;
+    return `game:${gameId}:nuclear:${id}:${field}`;
+  }
+
   /**
    * Incrementa el contador de disparos acertados hacia el desbloqueo nuclear.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    * @returns Nuevo valor del progreso
    */
   async incrementNuclearProgress(
     gameId: number,
-    userId: number,
+    owner: NuclearOwner,
   ): Promise<number> {
-    const key = `game:${gameId}:nuclear:${userId}:progress`;
-    return this.redis.incr(key);
+    return this.redis.incr(this.key(gameId, owner, 'progress'));
   }
 
   /**
-   * Reinicia el progreso nuclear del jugador a cero.
+   * Reinicia el progreso nuclear del medidor a cero.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    */
-  async resetNuclearProgress(gameId: number, userId: number): Promise<void> {
-    const key = `game:${gameId}:nuclear:${userId}:progress`;
-    await this.redis.del(key);
+  async resetNuclearProgress(
+    gameId: number,
+    owner: NuclearOwner,
+  ): Promise<void> {
+    await this.redis.del(this.key(gameId, owner, 'progress'));
   }
 
   /**
-   * Marca que el jugador ha desbloqueado la bomba nuclear.
+   * Marca que el dueño del medidor ha desbloqueado la bomba nuclear.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    */
-  async unlockNuclear(gameId: number, userId: number): Promise<void> {
-    const key = `game:${gameId}:nuclear:${userId}:available`;
-    await this.redis.set(key, 'true');
+  async unlockNuclear(gameId: number, owner: NuclearOwner): Promise<void> {
+    await this.redis.set(this.key(gameId, owner, 'available'), 'true');
   }
 
   /**
-   * Verifica si el jugador tiene la bomba nuclear disponible.
+   * Verifica si el dueño del medidor tiene la bomba nuclear disponible.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    * @returns `true` si está disponible, `false` en caso contrario
    */
-  async hasNuclearAvailable(gameId: number, userId: number): Promise<boolean> {
-    const key = `game:${gameId}:nuclear:${userId}:available`;
-    const value = await this.redis.get(key);
+  async hasNuclearAvailable(
+    gameId: number,
+    owner: NuclearOwner,
+  ): Promise<boolean> {
+    const value = await this.redis.get(this.key(gameId, owner, 'available'));
     return value === 'true';
   }
 
   /**
-   * Marca que el jugador ya usó la bomba nuclear.
+   * Marca que el dueño del medidor ya usó la bomba nuclear.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    */
-  async markNuclearUsed(gameId: number, userId: number): Promise<void> {
-    const key = `game:${gameId}:nuclear:${userId}:used`;
-    await this.redis.set(key, 'true');
+  async markNuclearUsed(gameId: number, owner: NuclearOwner): Promise<void> {
+    await this.redis.set(this.key(gameId, owner, 'used'), 'true');
   }
 
   /**
-   * Verifica si el jugador ya utilizó su bomba nuclear.
+   * Verifica si el dueño del medidor ya utilizó su bomba nuclear.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    * @returns `true` si ya fue usada, `false` si aún no
    */
-  async hasNuclearUsed(gameId: number, userId: number): Promise<boolean> {
-    const key = `game:${gameId}:nuclear:${userId}:used`;
-    const value = await this.redis.get(key);
+  async hasNuclearUsed(gameId: number, owner: NuclearOwner): Promise<boolean> {
+    const value = await this.redis.get(this.key(gameId, owner, 'used'));
     return value === 'true';
   }
 
@@ -96,19 +116,22 @@ export class NuclearStateRedis {
    * Devuelve el progreso actual de disparos acertados hacia el desbloqueo nuclear.
    *
    * @param gameId ID de la partida
-   * @param userId ID del jugador
+   * @param owner Dueño del medidor (jugador o equipo)
    * @returns Número de aciertos acumulados
    */
-  async getNuclearProgress(gameId: number, userId: number): Promise<number> {
-    const key = `game:${gameId}:nuclear:${userId}:progress`;
-    const value = await this.redis.get(key);
+  async getNuclearProgress(
+    gameId: number,
+    owner: NuclearOwner,
+  ): Promise<number> {
+    const value = await this.redis.get(this.key(gameId, owner, 'progress'));
     return value ? Number(value) : 0;
   }
 
   /**
    * Limpia todos los datos nucleares relacionados a una partida.
    *
-   * Borra cualquier rastro de progreso, desbloqueo y uso nuclear.
+   * Borra cualquier rastro de progreso, desbloqueo y uso nuclear
+   * (tanto de jugadores como de equipos).
    *
    * @param gameId ID de la partida
    */
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../../../redis/redis.service';
+import { BoardLayout } from '../../domain/models/board.model';
+import { Ship } from '../../domain/models/ship.model';
+
+/**
+ * Tiempo de vida del candado de finalización (en segundos).
+ *
+ * Si el proceso cae mientras finaliza la colocación, el candado expira
+ * y la fase puede volver a cerrarse.
+ */
+const FINALIZE_LOCK_TTL_SECONDS = 30;
+
+/**
+ * Script que guarda la flota de un jugador solo si no se superpone con las de los demás.
+ *
+ * Comprobar las casillas ocupadas y guardar en un único paso evita que dos jugadores
+ * que envían su flota a la vez ocupen la misma casilla.
+ *
+ * Retorna `nil` si hay superposición o la lista de jugadores que ya colocaron su flota.
+ */
+const SAVE_SHIPS_SCRIPT = `
+local requested = {}
+for i = 3, #ARGV do requested[ARGV[i]] = true end
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  if entries[i] ~= ARGV[1] then
+    for _, ship in ipairs(cjson.decode(entries[i + 1])) do
+      for _, pos in ipairs(ship.positions) do
+        if requested[pos.row .. ':' .. pos.col] then return nil end
+      end
+    end
+  end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return redis.call('HKEYS', KEYS[1])
+`;
+
+/**
+ * Servicio encargado de gestionar el estado de la fase de colocación de barcos.
+ *
+ * Se usa Redis para almacenar:
+ * - El layout del tablero (tamaño y flota): `game:{gameId}:placement:layout`
+ * - Los barcos colocados por cada jugador: `game:{gameId}:placement` (hash userId → barcos)
+ * - Un candado para finalizar la colocación una sola vez: `game:{gameId}:placement:lock`
+ */
+@Injectable()
+export class PlacementStateRedis {
+  constructor(private readonly redisService: RedisService) {}
+
+  /** Acceso directo al cliente Redis */
+  private get redis() {
+    return this.redisService.getClient();
+  }
+
+  /**
+   * Guarda el layout del tablero definido al iniciar la fase de colocación.
+   *
+   * @param gameId ID de la partida
+   * @param layout Tamaño del tablero y flota por jugador
+   */
+  async saveLayout(gameId: number, layout: BoardLayout): Promise<void> {
+    await this.redis.set(
+      `game:${gameId}:placement:layout`,
+      JSON.stringify(layout),
+    );
+  }
+
+  /**
+   * Obtiene el layout del tablero de la fase de colocación.
+   *
+   * @param gameId ID de la partida
+   * @returns Layout almacenado o `null` si no existe
+   */
+  async getLayout(gameId: number): Promise<BoardLayout | null> {
+    const value = await this.redis.get(`game:${gameId}:placement:layout`);
+    return value ? (JSON.parse(value) as BoardLayout) : null;
+  }
+
+  /**
+   * Guarda (o reemplaza) la flota colocada por un jugador.
+   *
+   * La flota no se guarda si alguna de sus casillas ya está ocupada por otro jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param ships Barcos validados del jugador
+   * @returns IDs de los jugadores que ya colocaron su flota, o `null` si hubo superposición
+   */
+  async savePlayerShips(
+    gameId: number,
+    userId: number,
+    ships: Ship[],
+  ): Promise<number[] | null> {
+    const cells = ships.flatMap((ship) =>
+      ship.positions.map((pos) => `${pos.row}:${pos.col}`),
+    );
+
+    const placed = (await this.redis.eval(
+      SAVE_SHIPS_SCRIPT,
+      1,
+      `game:${gameId}:placement`,
+      userId.toString(),
+      JSON.stringify(ships),
+      ...cells,
+    )) as string[] | null;
+
+    return placed ? placed.map(Number) : null;
+  }
+
+  /**
+   * Obtiene la flota colocada por un jugador.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @returns Barcos colocados o `null` si el jugador aún no envió su flota
+   */
+  async getPlayerShips(gameId: number, userId: number): Promise<Ship[] | null> {
+    const value = await this.redis.hget(
+      `game:${gameId}:placement`,
+      userId.toString(),
+    );
+    return value ? (JSON.parse(value) as Ship[]) : null;
+  }
+
+  /**
+   * Obtiene las flotas colocadas por todos los jugadores.
+   *
+   * @param gameId ID de la partida
+   * @returns Mapa userId → barcos colocados
+   */
+  async getAllPlayerShips(gameId: number): Promise<Record<number, Ship[]>> {
+    const raw = await this.redis.hgetall(`game:${gameId}:placement`);
+    const result: Record<number, Ship[]> = {};
+
+    for (const [userId, ships] of Object.entries(raw ?? {})) {
+      result[+userId] = JSON.parse(ships) as Ship[];
+    }
+
+    return result;
+  }
+
+  /**
+   * Intenta adquirir el candado de finalización de la colocación.
+   *
+   * Evita que el temporizador y el último jugador en colocar
+   * finalicen la fase al mismo tiempo. El candado expira solo tras
+   * `FINALIZE_LOCK_TTL_SECONDS` segundos.
+   *
+   * @param gameId ID de la partida
+   * @returns `true` si se adquirió el candado, `false` si ya estaba tomado
+   */
+  async acquireFinalizeLock(gameId: number): Promise<boolean> {
+    const result = await this.redis.set(
+      `game:${gameId}:placement:lock`,
+      'true',
+      'EX',
+      FINALIZE_LOCK_TTL_SECONDS,
+      'NX',
+    );
+    return result === 'OK';
+  }
+
+  /**
+   * Libera el candado de finalización de la colocación.
+   *
+   * @param gameId ID de la partida
+   */
+  async releaseFinalizeLock(gameId: number): Promise<void> {
+    await this.redis.del(`game:${gameId}:placement:lock`);
+  }
+
+  /**
+   * Elimina todo el estado de colocación de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  async clearPlacement(gameId: number): Promise<void> {
+    await this.redis.del(
+      `game:${gameId}:placement`,
+      `game:${gameId}:placement:layout`,
+      `game:${gameId}:placement:lock`,
+    );
+  }
+}
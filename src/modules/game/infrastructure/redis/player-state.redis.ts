@@ -2,13 +2,16 @@ import { Injectable } from '@nestjs/common';
 import { RedisService } from '../../../../redis/redis.service';
 
 /**
- * Servicio responsable de administrar el estado de abandono de jugadores en Redis.
+ * Servicio responsable de administrar el estado de abandono y de expulsión de jugadores en Redis.
  *
  * Un jugador marcado como "abandonado" ya no puede reconectarse a la partida.
  * Esto se aplica cuando:
  * - El jugador pierde conexión y excede el tiempo permitido
  * - El jugador acumula turnos sin acción
  * - El jugador abandona voluntariamente
+ *
+ * Un usuario "vetado" fue expulsado por el creador y no puede volver a unirse
+ * a la partida, ni como jugador ni como espectador.
  */
 @Injectable()
 export class PlayerStateRedis {
@@ -72,4 +75,38 @@ export class PlayerStateRedis {
       await this.redis.del(...keys);
     }
   }
+
+  /**
+   * Veta a un usuario para que no pueda volver a unirse a una partida.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario
+   */
+  async markAsBanned(gameId: number, userId: number): Promise<void> {
+    await this.redis.set(`game:${gameId}:banned:${userId}`, 'true');
+  }
+
+  /**
+   * Verifica si un usuario fue vetado en una partida.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario
+   * @returns true si fue vetado, false si no
+   */
+  async isBanned(gameId: number, userId: number): Promise<boolean> {
+    const value = await this.redis.get(`game:${gameId}:banned:${userId}`);
+    return value === 'true';
+  }
+
+  /**
+   * Limpia los vetos de todos los usuarios de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  async clearAllBanned(gameId: number): Promise<void> {
+    const keys = await this.redis.keys(`game:${gameId}:banned:*`);
+    if (keys.length) {
+      await this.redis.del(...keys);
+    }
+  }
 }
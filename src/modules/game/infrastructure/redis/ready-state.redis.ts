@@ -56,6 +56,18 @@ export class ReadyStateRedis {
     return value === 'true';
   }
 
+  /**
+   * Quita el estado "listo" de los sockets indicados (por ejemplo, de un jugador expulsado).
+   *
+   * @param gameId ID de la partida
+   * @param socketIds IDs de los sockets del jugador
+   */
+  async removePlayerReady(gameId: number, socketIds: string[]): Promise<void> {
+    if (socketIds.length) {
+      await this.redis.hdel(`game:${gameId}:ready`, ...socketIds);
+    }
+  }
+
   /**
    * Elimina todos los registros de jugadores listos en una partida.
    *
@@ -5,6 +5,10 @@ import { TeamStateRedis } from './team-state.redis';
 import { TurnStateRedis } from './turn-state.redis';
 import { NuclearStateRedis } from './nuclear-state.redis';
 import { PlayerStateRedis } from './player-state.redis';
+import { PlacementStateRedis } from './placement-state.redis';
+import { ArsenalStateRedis } from './arsenal-state.redis';
+import { RoundStateRedis } from './round-state.redis';
+import { AccessAttemptRedis } from './access-attempt.redis';
 
 @Module({
   providers: [
@@ -13,6 +17,10 @@ import { PlayerStateRedis } from './player-state.redis';
     TeamStateRedis,
     TurnStateRedis,
     NuclearStateRedis,
+    PlacementStateRedis,
+    ArsenalStateRedis,
+    RoundStateRedis,
+    AccessAttemptRedis,
   ],
   exports: [
     ReadyStateRedis,
@@ -20,6 +28,10 @@ import { PlayerStateRedis } from './player-state.redis';
     TeamStateRedis,
     TurnStateRedis,
     NuclearStateRedis,
+    PlacementStateRedis,
+    ArsenalStateRedis,
+    RoundStateRedis,
+    AccessAttemptRedis,
   ],
 })
 export class RedisStateModule {}
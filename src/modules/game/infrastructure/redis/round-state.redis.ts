@@ -0,0 +1,142 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../../../redis/redis.service';
+import {
+  RoundSubmission,
+  RoundSubmitStatus,
+} from '../../domain/models/round.model';
+
+/**
+ * Script que registra un disparo en la ronda en curso solo si aún no se está resolviendo.
+ *
+ * Comprobar el candado y guardar el disparo en un único paso evita aceptar disparos
+ * que la resolución ya no va a leer.
+ *
+ * Retorna `-1` si la ronda está cerrada, `0` si el jugador ya disparó y `1` si se registró.
+ */
+const SUBMIT_SHOT_SCRIPT = `
+local round = redis.call('GET', KEYS[1])
+if not round then return -1 end
+if redis.call('EXISTS', KEYS[1] .. ':lock:' .. round) == 1 then return -1 end
+return redis.call('HSETNX', KEYS[1] .. ':' .. round .. ':shots', ARGV[1], ARGV[2])
+`;
+
+/**
+ * Servicio encargado de gestionar el estado de las rondas simultáneas en Redis.
+ *
+ * Se usa Redis para almacenar:
+ * - El número de la ronda en curso: `game:{gameId}:round`
+ * - Los disparos enviados en cada ronda: `game:{gameId}:round:{ronda}:shots` (hash userId → disparo)
+ * - Un candado por ronda para resolverla una sola vez: `game:{gameId}:round:lock:{ronda}`
+ */
+@Injectable()
+export class RoundStateRedis {
+  constructor(private readonly redisService: RedisService) {}
+
+  /** Acceso directo al cliente Redis */
+  private get redis() {
+    return this.redisService.getClient();
+  }
+
+  /**
+   * Abre una nueva ronda: incrementa el número de ronda y descarta los disparos
+   * de la ronda anterior (ya resuelta).
+   *
+   * @param gameId ID de la partida
+   * @returns Número de la nueva ronda (empieza en 1)
+   */
+  async openRound(gameId: number): Promise<number> {
+    const round = await this.redis.incr(`game:${gameId}:round`);
+    await this.redis.del(`game:${gameId}:round:${round - 1}:shots`);
+    return round;
+  }
+
+  /**
+   * Obtiene el número de la ronda en curso.
+   *
+   * @param gameId ID de la partida
+   * @returns Número de ronda, o `0` si aún no se abrió ninguna
+   */
+  async getRound(gameId: number): Promise<number> {
+    const value = await this.redis.get(`game:${gameId}:round`);
+    return value ? Number(value) : 0;
+  }
+
+  /**
+   * Registra el disparo de un jugador en la ronda en curso.
+   *
+   * Cada jugador solo puede enviar un disparo por ronda, y no se aceptan disparos
+   * mientras la ronda se está resolviendo.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador
+   * @param submission Disparo enviado
+   * @returns Resultado del envío (`submitted`, `duplicate` o `closed`)
+   */
+  async submitShot(
+    gameId: number,
+    userId: number,
+    submission: RoundSubmission,
+  ): Promise<RoundSubmitStatus> {
+    const result = (await this.redis.eval(
+      SUBMIT_SHOT_SCRIPT,
+      1,
+      `game:${gameId}:round`,
+      userId.toString(),
+      JSON.stringify(submission),
+    )) as number;
+
+    if (result === -1) return 'closed';
+    return result === 1 ? 'submitted' : 'duplicate';
+  }
+
+  /**
+   * Obtiene todos los disparos enviados en una ronda.
+   *
+   * @param gameId ID de la partida
+   * @param round Número de la ronda
+   * @returns Mapa userId → disparo
+   */
+  async getSubmissions(
+    gameId: number,
+    round: number,
+  ): Promise<Record<number, RoundSubmission>> {
+    const raw = await this.redis.hgetall(`game:${gameId}:round:${round}:shots`);
+    const submissions: Record<number, RoundSubmission> = {};
+
+    for (const [userId, value] of Object.entries(raw)) {
+      submissions[+userId] = JSON.parse(value) as RoundSubmission;
+    }
+
+    return submissions;
+  }
+
+  /**
+   * Intenta adquirir el candado para resolver una ronda.
+   *
+   * Evita que la ronda se resuelva dos veces (fin del tiempo vs. último disparo).
+   *
+   * @param gameId ID de la partida
+   * @param round Número de la ronda a resolver
+   * @returns `true` si se adquirió el candado, `false` si la ronda ya se está resolviendo
+   */
+  async acquireResolveLock(gameId: number, round: number): Promise<boolean> {
+    const result = await this.redis.set(
+      `game:${gameId}:round:lock:${round}`,
+      'true',
+      'NX',
+    );
+    return result === 'OK';
+  }
+
+  /**
+   * Elimina todo el estado de rondas de una partida.
+   *
+   * @param gameId ID de la partida
+   */
+  async clearRounds(gameId: number): Promise<void> {
+    const keys = await this.redis.keys(`game:${gameId}:round*`);
+    if (keys.length) {
+      await this.redis.del(...keys);
+    }
+  }
+}
@@ -56,6 +56,16 @@ export class TeamStateRedis {
     return team ? Number(team) : null;
   }
 
+  /**
+   * Quita la asignación de equipo de un jugador en una partida.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID numérico del jugador
+   */
+  async removePlayerTeam(gameId: number, userId: number): Promise<void> {
+    await this.redis.hdel(`game:${gameId}:teams`, userId.toString());
+  }
+
   /**
    * Devuelve todas las asignaciones de equipos de la partida.
    *
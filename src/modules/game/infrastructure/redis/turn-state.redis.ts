@@ -8,6 +8,7 @@ import { RedisService } from '../../../../redis/redis.service';
  * - Qué jugador tiene el turno actual.
  * - Quién tiene un timeout de disparo activo.
  * - Cuántos turnos ha fallado un jugador (por inactividad).
+ * - Cuántos turnos extra consecutivos lleva el jugador en turno.
  *
  * Este servicio permite mantener la lógica del turno sincronizada incluso
  * en escenarios distribuidos (múltiples servidores o procesos).
@@ -49,11 +50,33 @@ export class TurnStateRedis {
    * Elimina el estado del turno actual de Redis.
    *
    * Se debe invocar al finalizar o reiniciar la partida.
+   * También elimina la racha de turnos extra.
    *
    * @param gameId ID de la partida
    */
   async clearTurn(gameId: number): Promise<void> {
-    await this.redis.del(`game:${gameId}:turn`);
+    await this.redis.del(`game:${gameId}:turn`, `game:${gameId}:turn:bonus`);
+  }
+
+  /**
+   * Incrementa en 1 la racha de turnos extra consecutivos del jugador en turno.
+   *
+   * Se guarda como: `game:{gameId}:turn:bonus`
+   *
+   * @param gameId ID de la partida
+   * @returns Nuevo valor de la racha tras incrementarla
+   */
+  async incrementBonusStreak(gameId: number): Promise<number> {
+    return this.redis.incr(`game:${gameId}:turn:bonus`);
+  }
+
+  /**
+   * Reinicia la racha de turnos extra (el turno pasa a otro jugador).
+   *
+   * @param gameId ID de la partida
+   */
+  async resetBonusStreak(gameId: number): Promise<void> {
+    await this.redis.del(`game:${gameId}:turn:bonus`);
   }
 
   /**
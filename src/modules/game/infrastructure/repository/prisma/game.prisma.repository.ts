@@ -7,10 +7,27 @@ import {
   GameWithPlayers,
   GameWithPlayersAndSpectator,
   GameWithPlayersAndUsers,
+  GameWithCreatorAndPlayerCount,
+  GameWithDetails,
+  Prisma,
 } from '../../../../../prisma/prisma.types';
 import { MatchmakingDto } from '../../../domain/dto/matchmaking.dto';
 import { GameStatus } from '../../../../../prisma/prisma.enum';
 import { Board } from '../../../domain/models/board.model';
+import { FleetShip } from '../../../domain/models/ship.model';
+import { ArsenalConfig } from '../../../domain/models/arsenal.model';
+import { GameRules } from '../../../domain/models/game-rules.model';
+import {
+  LobbyCursor,
+  LobbyFilters,
+  LobbySort,
+} from '../../../domain/models/lobby.model';
+
+/** Relaciones de una partida en la lista pública: nickname del creador y jugadores activos */
+const LOBBY_GAME_INCLUDE = {
+  createdBy: { select: { nickname: true } },
+  _count: { select: { gamePlayers: { where: { leftAt: null } } } },
+} as const;
 
 /**
  * Repositorio concreto para acceder a la tabla `Game` usando Prisma.
@@ -18,6 +35,7 @@ import { Board } from '../../../domain/models/board.model';
  * Implementa todas las operaciones necesarias para:
  * - Crear partidas manuales o por matchmaking
  * - Consultar partidas con relaciones cargadas (jugadores, espectadores)
+ * - Listar las partidas públicas disponibles (filtros, orden y paginación por cursor)
  * - Actualizar estado y tablero
  * - Eliminar partidas abandonadas
  */
@@ -30,22 +48,41 @@ export class GamePrismaRepository implements GameRepository {
    *
    * @param dto Datos básicos de la partida
    * @param userId ID del usuario que la crea
+   * @param rules Reglas resueltas de la partida (preset + ajustes)
+   * @param accessCodeHash Hash del código de acceso (`null` si la partida no tiene código)
+   * @param fleet Flota personalizada (forma y longitud de cada barco, opcional)
+   * @param arsenal Límites personalizados por tipo de disparo (opcional)
    * @returns Partida creada
    */
   async createGameWithPlayer(
     dto: CreateGameDto,
     userId: number,
+    rules: GameRules,
+    accessCodeHash: string | null,
+    fleet?: FleetShip[],
+    arsenal?: ArsenalConfig,
   ): Promise<Game> {
     const game = await this.prisma.game.create({
       data: {
         name: dto.name,
-        accessCode: dto.accessCode,
+        accessCodeHash,
         isPublic: dto.isPublic,
         isMatchmaking: false,
         maxPlayers: dto.maxPlayers,
         mode: dto.mode,
         difficulty: dto.difficulty,
         teamCount: dto.mode === 'teams' ? dto.teamCount : null,
+        fleet,
+        terrainMap: dto.terrainMap,
+        terrainDensity: dto.terrainDensity,
+        arsenal,
+        salvo: dto.salvo ?? false,
+        maxBonusTurns: dto.maxBonusTurns ?? 0,
+        turnMode: dto.turnMode ?? 'sequential',
+        friendlyFire: dto.friendlyFire ?? false,
+        teamNuclear: dto.teamNuclear ?? false,
+        timeLimit: dto.timeLimit,
+        rules,
         createdById: userId,
         status: GameStatus.waiting,
       },
@@ -65,11 +102,19 @@ export class GamePrismaRepository implements GameRepository {
   /**
    * Intenta encontrar una partida disponible por matchmaking. Si no hay, crea una nueva.
    *
+   * Solo se empareja con partidas que se juegan con exactamente las mismas reglas.
+   * Si el jugador ya estaba en la partida encontrada, no se vuelve a registrar.
+   *
    * @param dto Preferencias del jugador para la partida
    * @param userId ID del jugador que busca partida
+   * @param rules Reglas resueltas a partir del preset y los ajustes del jugador
    * @returns Partida encontrada o creada
    */
-  async findOrCreateMatch(dto: MatchmakingDto, userId: number): Promise<Game> {
+  async findOrCreateMatch(
+    dto: MatchmakingDto,
+    userId: number,
+    rules: GameRules,
+  ): Promise<Game> {
     const found = await this.prisma.game.findFirst({
       where: {
         isMatchmaking: true,
@@ -77,10 +122,15 @@ export class GamePrismaRepository implements GameRepository {
         mode: dto.mode ?? undefined,
         maxPlayers: dto.maxPlayers ?? undefined,
         difficulty: dto.difficulty ?? undefined,
+        rules: { equals: rules },
       },
       include: { gamePlayers: true },
     });
 
+    if (found?.gamePlayers.some((p) => p.userId === userId)) {
+      return found;
+    }
+
     if (found && found.gamePlayers.length < found.maxPlayers) {
       await this.prisma.gamePlayer.create({
         data: {
@@ -100,6 +150,7 @@ export class GamePrismaRepository implements GameRepository {
         mode: dto.mode ?? 'individual',
         difficulty: dto.difficulty ?? 'medium',
         teamCount: dto.mode === 'teams' ? 2 : null,
+        rules,
         createdById: userId,
         status: GameStatus.waiting,
       },
@@ -175,6 +226,141 @@ export class GamePrismaRepository implements GameRepository {
     });
   }
 
+  /**
+   * Obtiene una partida con su creador, sus jugadores (nickname y color) y sus espectadores.
+   *
+   * @param id ID de la partida
+   * @returns Partida con sus participantes, o `null`
+   */
+  async findByIdWithDetails(id: number): Promise<GameWithDetails | null> {
+    return this.prisma.game.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, nickname: true } },
+        gamePlayers: {
+          include: { user: { select: { nickname: true, color: true } } },
+          orderBy: { id: 'asc' },
+        },
+        spectators: { select: { userId: true } },
+      },
+    });
+  }
+
+  /**
+   * Busca una partida con los datos que muestra la lista pública de partidas.
+   *
+   * @param id ID de la partida
+   * @returns Partida con el nickname del creador y la cantidad de jugadores activos, o `null`
+   */
+  async findLobbyGameById(
+    id: number,
+  ): Promise<GameWithCreatorAndPlayerCount | null> {
+    return this.prisma.game.findUnique({
+      where: { id },
+      include: LOBBY_GAME_INCLUDE,
+    });
+  }
+
+  /**
+   * Lista las partidas públicas en espera a las que todavía se puede unir un jugador.
+   *
+   * Nunca incluye salas de matchmaking ni partidas llenas. Los filtros, la comparación
+   * entre jugadores activos y `maxPlayers` y el orden se resuelven en una sola consulta SQL.
+   *
+   * La paginación es por cursor (keyset): `nextCursor` guarda los valores de orden de la
+   * última partida devuelta y la página siguiente empieza justo después de ellos, aunque
+   * esa partida ya no exista.
+   *
+   * @param filters Filtros opcionales (modo, dificultad, modo de turnos, preset, código de acceso)
+   * @param sort Orden de la lista
+   * @param limit Cantidad máxima de partidas de la página
+   * @param cursor Posición de la última partida de la página anterior
+   * @returns Partidas de la página (con el nickname del creador y la cantidad de jugadores activos)
+   * y el cursor de la página siguiente (`null` si no hay más)
+   */
+  async findLobbyGames(
+    filters: LobbyFilters,
+    sort: LobbySort,
+    limit: number,
+    cursor?: LobbyCursor,
+  ): Promise<{
+    games: GameWithCreatorAndPlayerCount[];
+    nextCursor: LobbyCursor | null;
+  }> {
+    // 1. Filtros: partidas públicas en espera con lugares libres
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`g."isPublic" = true`,
+      Prisma.sql`g."isMatchmaking" = false`,
+      Prisma.sql`g."status" = 'waiting'`,
+      Prisma.sql`(
+        SELECT COUNT(*) FROM "GamePlayer" gp
+        WHERE gp."gameId" = g."id" AND gp."leftAt" IS NULL
+      ) < g."maxPlayers"`,
+    ];
+
+    if (filters.mode) conditions.push(Prisma.sql`g."mode" = ${filters.mode}`);
+    if (filters.difficulty) {
+      conditions.push(Prisma.sql`g."difficulty" = ${filters.difficulty}`);
+    }
+    if (filters.turnMode) {
+      conditions.push(Prisma.sql`g."turnMode" = ${filters.turnMode}`);
+    }
+    if (filters.preset) {
+      conditions.push(Prisma.sql`g."rules"->>'preset' = ${filters.preset}`);
+    }
+    if (filters.requiresAccessCode !== undefined) {
+      conditions.push(
+        filters.requiresAccessCode
+          ? Prisma.sql`g."accessCodeHash" IS NOT NULL`
+          : Prisma.sql`g."accessCodeHash" IS NULL`,
+      );
+    }
+
+    // 2. Cursor: continuar después de la última partida de la página anterior.
+    // `createdAt` se guarda en UTC sin zona horaria
+    if (cursor) {
+      const createdAt = Prisma.sql`(${cursor.createdAt.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+      conditions.push(
+        {
+          newest: Prisma.sql`(g."createdAt", g."id") < (${createdAt}, ${cursor.id})`,
+          oldest: Prisma.sql`(g."createdAt", g."id") > (${createdAt}, ${cursor.id})`,
+          largest: Prisma.sql`(g."maxPlayers", g."createdAt", g."id") < (${cursor.maxPlayers}, ${createdAt}, ${cursor.id})`,
+        }[sort],
+      );
+    }
+
+    // El ID desempata siempre, para que el cursor sea estable
+    const orderBy = {
+      newest: Prisma.sql`g."createdAt" DESC, g."id" DESC`,
+      oldest: Prisma.sql`g."createdAt" ASC, g."id" ASC`,
+      largest: Prisma.sql`g."maxPlayers" DESC, g."createdAt" DESC, g."id" DESC`,
+    }[sort];
+
+    // 3. Se lee una partida de más para saber si existe una página siguiente
+    const rows = await this.prisma.$queryRaw<LobbyCursor[]>`
+      SELECT g."id", g."createdAt", g."maxPlayers" FROM "Game" g
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${orderBy}
+      LIMIT ${limit + 1}
+    `;
+
+    const page = rows.slice(0, limit);
+
+    // 4. Cargar las partidas de la página con el creador y los jugadores activos, en el mismo orden
+    const games = await this.prisma.game.findMany({
+      where: { id: { in: page.map((row) => row.id) } },
+      include: LOBBY_GAME_INCLUDE,
+    });
+    const byId = new Map(games.map((game) => [game.id, game]));
+
+    return {
+      games: page
+        .map((row) => byId.get(row.id))
+        .filter((game): game is GameWithCreatorAndPlayerCount => !!game),
+      nextCursor: rows.length > limit ? page[page.length - 1] : null,
+    };
+  }
+
   /**
    * Actualiza el creador (userId) de una partida.
    *
@@ -189,6 +375,21 @@ export class GamePrismaRepository implements GameRepository {
     });
   }
 
+  /**
+   * Marca la partida en fase de colocación de barcos (`placing`)
+   * y guarda la semilla del generador aleatorio de la partida.
+   *
+   * @param gameId ID de la partida
+   * @param seed Semilla con la que se reproduce la aleatoriedad de la partida
+   * @returns Partida actualizada
+   */
+  async markGameAsPlacing(gameId: number, seed: number): Promise<Game> {
+    return this.prisma.game.update({
+      where: { id: gameId },
+      data: { status: GameStatus.placing, seed },
+    });
+  }
+
   /**
    * Inicia la partida: actualiza el estado a `in_progress` y guarda el tablero inicial.
    *
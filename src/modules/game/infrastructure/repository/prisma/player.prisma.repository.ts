@@ -5,7 +5,8 @@ import { PlayerRepository } from '../../../domain/repository/player.repository';
 /**
  * Implementación del repositorio de jugadores utilizando Prisma.
  *
- * Permite actualizar el estado de los jugadores dentro de una partida:
+ * Permite registrar a los jugadores de una partida y actualizar su estado:
+ * - Agregar o quitar jugadores mientras la partida está en espera
  * - Marcar como eliminados (defeated)
  * - Marcar como ganadores (individual o en equipo)
  */
@@ -13,6 +14,53 @@ import { PlayerRepository } from '../../../domain/repository/player.repository';
 export class PlayerPrismaRepository implements PlayerRepository {
   constructor(private readonly prisma: PrismaService) {}
 
+  /**
+   * Registra a un usuario como jugador de una partida si aún queda lugar.
+   *
+   * La fila de la partida se bloquea durante la transacción, de modo que dos uniones
+   * simultáneas no puedan superar `maxPlayers`. Si el usuario ya era jugador, no se duplica.
+   * Solo ocupan lugar los jugadores que no abandonaron la partida (`leftAt` nulo), igual
+   * que en el listado del lobby.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario que se une
+   * @returns `true` si el usuario es jugador de la partida, `false` si no existe o está llena
+   */
+  async addPlayerToGame(gameId: number, userId: number): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const [game] = await tx.$queryRaw<{ maxPlayers: number }[]>`
+        SELECT "maxPlayers" FROM "Game" WHERE "id" = ${gameId} FOR UPDATE
+      `;
+      if (!game) return false;
+
+      const players = await tx.gamePlayer.findMany({
+        where: { gameId },
+        select: { userId: true, leftAt: true },
+      });
+      if (players.some((p) => p.userId === userId)) return true;
+      if (players.filter((p) => !p.leftAt).length >= game.maxPlayers) {
+        return false;
+      }
+
+      await tx.gamePlayer.create({
+        data: { gameId, userId, team: null },
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Quita a un usuario de los jugadores de una partida (antes de que comience).
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del usuario que sale
+   */
+  async removePlayerFromGame(gameId: number, userId: number): Promise<void> {
+    await this.prisma.gamePlayer.deleteMany({
+      where: { gameId, userId },
+    });
+  }
+
   /**
    * Marca a un jugador como eliminado (derrotado) usando su `userId` y `gameId`.
    * Esto se refleja en la base de datos estableciendo `leftAt` con la hora actual.
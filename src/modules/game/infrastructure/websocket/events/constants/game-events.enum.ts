@@ -14,9 +14,17 @@ export enum GameEvents {
   // Eventos de Control de Juego
   GAME_START = 'game:start',
   GAME_START_ACK = 'game:start:ack',
+  PLAYER_PLACE_SHIPS = 'player:placeShips',
   PLAYER_FIRE = 'player:fire',
+  SHOT_PREVIEW = 'shot:preview',
   CREATOR_TRANSFER = 'creator:transfer',
   CREATOR_TRANSFER_ACK = 'creator:transfer:ack',
+  CREATOR_KICK = 'creator:kick',
+  CREATOR_KICK_ACK = 'creator:kick:ack',
+
+  // Eventos de la Lista de Partidas
+  LOBBY_SUBSCRIBE = 'lobby:subscribe',
+  LOBBY_UNSUBSCRIBE = 'lobby:unsubscribe',
 
   // ========== EVENTOS DE SERVIDOR A CLIENTE ==========
 
@@ -27,7 +35,9 @@ export enum GameEvents {
   JOIN_DENIED = 'join:denied',
   PLAYER_READY_ACK = 'player:ready:ack',
   PLAYER_READY_NOTIFY = 'player:ready:notify',
+  PLAYER_PLACE_SHIPS_ACK = 'player:placeShips:ack',
   PLAYER_FIRE_ACK = 'player:fire:ack',
+  SHOT_PREVIEW_RESULT = 'shot:preview:result',
   RECONNECT_ACK = 'reconnect:ack',
   RECONNECT_FAILED = 'reconnect:failed',
 
@@ -36,10 +46,22 @@ export enum GameEvents {
   CREATOR_CHANGED = 'creator:changed',
   TURN_CHANGED = 'turn:changed',
   TURN_TIMEOUT = 'turn:timeout',
+  TURN_BONUS = 'turn:bonus',
+  ROUND_STARTED = 'round:started',
+  ROUND_RESULT = 'round:result',
+  SUDDEN_DEATH_STARTED = 'sudden-death:started',
+  BOARD_SHRUNK = 'board:shrunk',
   PLAYER_KICKED = 'player:kicked',
+  PLAYER_KICKED_NOTIFY = 'player:kicked:notify',
   PLAYER_FIRED = 'player:fired',
+  SHIP_SUNK = 'ship:sunk',
+  COMBAT_FEED = 'combat:feed',
+  SCAN_RESULT = 'scan:result',
+  ARSENAL_STATUS = 'arsenal:status',
   PLAYER_ELIMINATED = 'player:eliminated',
   NUCLEAR_STATUS = 'nuclear:status',
+  PLACEMENT_STARTED = 'placement:started',
+  PLAYER_PLACED = 'player:placed',
   GAME_STARTED = 'game:started',
   GAME_ENDED = 'game:ended',
   GAME_ABANDONED = 'game:abandoned',
@@ -48,6 +70,12 @@ export enum GameEvents {
   PLAYER_TEAM_ASSIGNED = 'player:teamAssigned',
   PLAYER_RECONNECTED = 'player:reconnected',
 
+  // Cambios en la Lista de Partidas (solo a sockets suscritos)
+  LOBBY_GAME_CREATED = 'lobby:game:created',
+  LOBBY_GAME_PLAYERS = 'lobby:game:players',
+  LOBBY_GAME_STARTED = 'lobby:game:started',
+  LOBBY_GAME_REMOVED = 'lobby:game:removed',
+
   // Eventos del Sistema
   CONNECTION = 'connection',
   DISCONNECT = 'disconnect',
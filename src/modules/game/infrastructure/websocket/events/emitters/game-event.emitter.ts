@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { SocketServerAdapter } from '../../../adapters/socket-server.adapter';
 import { GameEvents } from '../constants/game-events.enum';
 import { EventKey, EventPayload } from '../types/events-payload.type';
+import { JoinDeniedCode } from '../../../../domain/types/join.types';
 
 /**
  * Servicio centralizado para emitir eventos WebSocket tipados durante la partida.
@@ -61,6 +62,17 @@ export class GameEventEmitter {
     this.socketServer.emitToUser(userId, event, payload);
   }
 
+  /**
+   * Método genérico para emitir un evento a los sockets suscritos a la lista pública de partidas.
+   *
+   * @template T Tipo del evento
+   * @param event Evento a emitir
+   * @param payload Cuerpo del evento
+   */
+  emitToLobby<T extends EventKey>(event: T, payload: EventPayload<T>): void {
+    this.socketServer.emitToLobby(event, payload);
+  }
+
   // ==== MÉTODOS SEMÁNTICOS ====
 
   /** Notifica a la sala que un jugador se ha unido */
@@ -85,8 +97,17 @@ export class GameEventEmitter {
   }
 
   /** Notifica al cliente que su intento de unión fue denegado */
-  emitJoinDenied(socketId: string, reason: string): void {
-    this.emitToClient(socketId, GameEvents.JOIN_DENIED, { reason });
+  emitJoinDenied(
+    socketId: string,
+    reason: string,
+    code: JoinDeniedCode,
+    retryAfter?: number,
+  ): void {
+    this.emitToClient(socketId, GameEvents.JOIN_DENIED, {
+      reason,
+      code,
+      retryAfter,
+    });
   }
 
   /** Notifica a todos los jugadores de un cambio de turno */
@@ -99,6 +120,46 @@ export class GameEventEmitter {
     this.emit(gameId, GameEvents.TURN_TIMEOUT, { userId });
   }
 
+  /** Notifica a todos los jugadores que el jugador en turno ganó un turno extra */
+  emitTurnBonus(
+    gameId: number,
+    data: EventPayload<GameEvents.TURN_BONUS>,
+  ): void {
+    this.emit(gameId, GameEvents.TURN_BONUS, data);
+  }
+
+  /** Notifica a todos los jugadores el inicio de una ronda simultánea */
+  emitRoundStarted(
+    gameId: number,
+    data: EventPayload<GameEvents.ROUND_STARTED>,
+  ): void {
+    this.emit(gameId, GameEvents.ROUND_STARTED, data);
+  }
+
+  /** Notifica a todos que se agotó el tiempo de la partida y comienza la muerte súbita */
+  emitSuddenDeathStarted(
+    gameId: number,
+    data: EventPayload<GameEvents.SUDDEN_DEATH_STARTED>,
+  ): void {
+    this.emit(gameId, GameEvents.SUDDEN_DEATH_STARTED, data);
+  }
+
+  /** Notifica a todos que colapsó un anillo del tablero (y los barcos que hundió) */
+  emitBoardShrunk(
+    gameId: number,
+    data: EventPayload<GameEvents.BOARD_SHRUNK>,
+  ): void {
+    this.emit(gameId, GameEvents.BOARD_SHRUNK, data);
+  }
+
+  /** Notifica a todos los jugadores el resultado de todos los disparos de una ronda */
+  emitRoundResult(
+    gameId: number,
+    data: EventPayload<GameEvents.ROUND_RESULT>,
+  ): void {
+    this.emit(gameId, GameEvents.ROUND_RESULT, data);
+  }
+
   /** Notifica el fin de la partida junto con los resultados */
   emitGameEnded(
     gameId: number,
@@ -107,9 +168,29 @@ export class GameEventEmitter {
     this.emit(gameId, GameEvents.GAME_ENDED, data);
   }
 
-  /** Notifica que un jugador ha sido eliminado de la partida */
-  emitPlayerEliminated(gameId: number, userId: number): void {
-    this.emit(gameId, GameEvents.PLAYER_ELIMINATED, { userId });
+  /** Revela a todos un barco recién hundido (dueño y todas sus casillas) */
+  emitShipSunk(gameId: number, data: EventPayload<GameEvents.SHIP_SUNK>): void {
+    this.emit(gameId, GameEvents.SHIP_SUNK, data);
+  }
+
+  /** Difunde los daños, hundimientos y eliminaciones causados por una acción (kill feed) */
+  emitCombatFeed(
+    gameId: number,
+    data: EventPayload<GameEvents.COMBAT_FEED>,
+  ): void {
+    this.emit(gameId, GameEvents.COMBAT_FEED, data);
+  }
+
+  /** Notifica que un jugador ha sido eliminado de la partida (y por quién, si se conoce) */
+  emitPlayerEliminated(
+    gameId: number,
+    userId: number,
+    eliminatedByUserId?: number,
+  ): void {
+    this.emit(gameId, GameEvents.PLAYER_ELIMINATED, {
+      userId,
+      eliminatedByUserId,
+    });
   }
 
   /** Expulsa a un socket específico y lo desconecta */
@@ -130,6 +211,22 @@ export class GameEventEmitter {
     this.emit(gameId, GameEvents.PLAYER_FIRED, data);
   }
 
+  /** Envía el resultado privado de un escaneo de sonar a un jugador */
+  emitScanResult(
+    userId: number,
+    data: EventPayload<GameEvents.SCAN_RESULT>,
+  ): void {
+    this.emitToUser(userId, GameEvents.SCAN_RESULT, data);
+  }
+
+  /** Envía a un jugador la munición restante y los enfriamientos de sus disparos */
+  emitArsenalStatus(
+    userId: number,
+    data: EventPayload<GameEvents.ARSENAL_STATUS>,
+  ): void {
+    this.emitToUser(userId, GameEvents.ARSENAL_STATUS, data);
+  }
+
   /** Confirma al jugador que su disparo fue procesado */
   emitPlayerFireAck(
     socketId: string,
@@ -138,6 +235,14 @@ export class GameEventEmitter {
     this.emitToClient(socketId, GameEvents.PLAYER_FIRE_ACK, data);
   }
 
+  /** Envía al jugador la vista previa de las casillas que afectaría su disparo */
+  emitShotPreviewResult(
+    socketId: string,
+    data: EventPayload<GameEvents.SHOT_PREVIEW_RESULT>,
+  ): void {
+    this.emitToClient(socketId, GameEvents.SHOT_PREVIEW_RESULT, data);
+  }
+
   /** Actualiza el tablero de un jugador específico */
   emitBoardUpdate(
     userId: number,
@@ -151,6 +256,11 @@ export class GameEventEmitter {
     this.emitToClient(socketId, GameEvents.ERROR, { message, code });
   }
 
+  /** Notifica un error a toda la sala de la partida */
+  emitGameError(gameId: number, message: string, code?: string): void {
+    this.emit(gameId, GameEvents.ERROR, { message, code });
+  }
+
   /** Notifica que todos los jugadores han marcado "listo" */
   emitAllReady(gameId: number): void {
     this.emit(gameId, GameEvents.ALL_READY, null);
@@ -171,6 +281,35 @@ export class GameEventEmitter {
     this.emitToClient(socketId, GameEvents.GAME_START_ACK, { success, error });
   }
 
+  /** Notifica a la sala el inicio de la fase de colocación de barcos */
+  emitPlacementStarted(
+    gameId: number,
+    data: EventPayload<GameEvents.PLACEMENT_STARTED>,
+  ): void {
+    this.emit(gameId, GameEvents.PLACEMENT_STARTED, data);
+  }
+
+  /** Reenvía a un jugador el estado de la fase de colocación (p. ej., tras reconectarse) */
+  emitPlacementState(
+    userId: number,
+    data: EventPayload<GameEvents.PLACEMENT_STARTED>,
+  ): void {
+    this.emitToUser(userId, GameEvents.PLACEMENT_STARTED, data);
+  }
+
+  /** Confirma al jugador si su colocación de barcos fue aceptada */
+  emitPlaceShipsAck(socketId: string, success: boolean, error?: string): void {
+    this.emitToClient(socketId, GameEvents.PLAYER_PLACE_SHIPS_ACK, {
+      success,
+      error,
+    });
+  }
+
+  /** Notifica a la sala que un jugador terminó de colocar su flota */
+  emitPlayerPlaced(gameId: number, userId: number): void {
+    this.emit(gameId, GameEvents.PLAYER_PLACED, { userId });
+  }
+
   /** Notifica que un jugador está listo */
   emitPlayerReadyNotify(gameId: number, socketId: string): void {
     this.emit(gameId, GameEvents.PLAYER_READY_NOTIFY, { socketId });
@@ -210,23 +349,33 @@ export class GameEventEmitter {
     });
   }
 
+  /** Confirma al creador el resultado de la expulsión de un jugador */
+  emitCreatorKickAck(socketId: string, success: boolean, error?: string): void {
+    this.emitToClient(socketId, GameEvents.CREATOR_KICK_ACK, {
+      success,
+      error,
+    });
+  }
+
+  /** Notifica a la sala que el creador expulsó a un jugador */
+  emitPlayerKickedNotify(
+    gameId: number,
+    data: EventPayload<GameEvents.PLAYER_KICKED_NOTIFY>,
+  ): void {
+    this.emit(gameId, GameEvents.PLAYER_KICKED_NOTIFY, data);
+  }
+
   /** Notifica a la sala que un jugador fue asignado a un equipo */
   emitPlayerTeamAssigned(gameId: number, socketId: string, team: number): void {
     this.emit(gameId, GameEvents.PLAYER_TEAM_ASSIGNED, { socketId, team });
   }
 
-  /** Emite información sobre el estado del arma nuclear de un jugador */
+  /** Envía a un jugador el estado de su medidor nuclear (propio o de su equipo) */
   emitNuclearStatus(
-    gameId: number,
-    progress: number,
-    hasNuclear: boolean,
-    used: boolean,
-  ): void {
-    this.emit(gameId, GameEvents.NUCLEAR_STATUS, {
-      progress,
-      hasNuclear,
-      used,
-    });
+    userId: number,
+    data: EventPayload<GameEvents.NUCLEAR_STATUS>,
+  ): void {
+    this.emitToUser(userId, GameEvents.NUCLEAR_STATUS, data);
   }
 
   /** Notifica a la sala que un jugador se ha reconectado */
@@ -252,4 +401,28 @@ export class GameEventEmitter {
   emitHeartbeat(socketId: string): void {
     this.emitToClient(socketId, GameEvents.HEARTBEAT, null);
   }
+
+  /** Notifica a la lista de partidas que se creó una partida pública */
+  emitLobbyGameCreated(
+    data: EventPayload<GameEvents.LOBBY_GAME_CREATED>,
+  ): void {
+    this.emitToLobby(GameEvents.LOBBY_GAME_CREATED, data);
+  }
+
+  /** Notifica a la lista de partidas que cambió la cantidad de jugadores de una partida */
+  emitLobbyGamePlayers(
+    data: EventPayload<GameEvents.LOBBY_GAME_PLAYERS>,
+  ): void {
+    this.emitToLobby(GameEvents.LOBBY_GAME_PLAYERS, data);
+  }
+
+  /** Notifica a la lista de partidas que una partida comenzó (ya no admite jugadores) */
+  emitLobbyGameStarted(gameId: number): void {
+    this.emitToLobby(GameEvents.LOBBY_GAME_STARTED, { gameId });
+  }
+
+  /** Notifica a la lista de partidas que una partida fue eliminada */
+  emitLobbyGameRemoved(gameId: number): void {
+    this.emitToLobby(GameEvents.LOBBY_GAME_REMOVED, { gameId });
+  }
 }
@@ -1,6 +1,29 @@
 import { GameEvents } from '../constants/game-events.enum';
-import { MyShipState, VisibleShip } from '../../../../domain/models/ship.model';
-import { VisualShot } from '../../../../domain/models/shot.model';
+import {
+  FleetShip,
+  MyShipState,
+  ShipPlacement,
+  VisibleShip,
+} from '../../../../domain/models/ship.model';
+import {
+  ScanCell,
+  ShotDirection,
+  ShotImpact,
+  ShotPreview,
+  ShotType,
+  VisualShot,
+} from '../../../../domain/models/shot.model';
+import { TerrainCell } from '../../../../domain/models/board.model';
+import { ArsenalSlot } from '../../../../domain/models/arsenal.model';
+import { RoundShotResult } from '../../../../domain/models/round.model';
+import { CombatRecord } from '../../../../domain/models/combat.model';
+import { NuclearStatus } from '../../../../domain/models/nuclear.model';
+import { JoinDeniedCode } from '../../../../domain/types/join.types';
+import { LobbyGameDto } from '../../../../domain/dto/lobby-game.dto';
+import {
+  GameEndReason,
+  TieBreakScore,
+} from '../../../../domain/models/game-end.model';
 
 /**
  * Interfaz que define los payloads para todos los eventos del sistema.
@@ -12,6 +35,7 @@ export interface GameEventPayloads {
   [GameEvents.PLAYER_JOIN]: {
     gameId: number;
     role?: 'player' | 'spectator';
+    accessCode?: string;
   };
 
   [GameEvents.PLAYER_READY]: {
@@ -37,6 +61,18 @@ export interface GameEventPayloads {
     error?: string;
   };
 
+  [GameEvents.CREATOR_KICK]: {
+    gameId: number;
+    targetUserId: number;
+    reason?: string;
+    ban?: boolean;
+  };
+
+  [GameEvents.CREATOR_KICK_ACK]: {
+    success: boolean;
+    error?: string;
+  };
+
   [GameEvents.GAME_START]: {
     gameId: number;
   };
@@ -46,11 +82,26 @@ export interface GameEventPayloads {
     error?: string;
   };
 
+  [GameEvents.PLAYER_PLACE_SHIPS]: {
+    gameId: number;
+    ships: ShipPlacement[];
+  };
+
   [GameEvents.PLAYER_FIRE]: {
     gameId: number;
     x: number;
     y: number;
-    shotType: 'simple' | 'cross' | 'multi' | 'area' | 'scan' | 'nuclear';
+    shotType: ShotType;
+    direction?: ShotDirection;
+    targets?: { x: number; y: number }[];
+  };
+
+  [GameEvents.SHOT_PREVIEW]: {
+    gameId: number;
+    x: number;
+    y: number;
+    shotType: ShotType;
+    direction?: ShotDirection;
   };
 
   // ========== PAYLOADS DE SERVIDOR A CLIENTE ==========
@@ -77,6 +128,8 @@ export interface GameEventPayloads {
 
   [GameEvents.JOIN_DENIED]: {
     reason: string;
+    code: JoinDeniedCode;
+    retryAfter?: number;
   };
 
   [GameEvents.PLAYER_LEFT]: {
@@ -97,43 +150,124 @@ export interface GameEventPayloads {
     userId: number;
   };
 
+  [GameEvents.TURN_BONUS]: {
+    userId: number;
+    streak: number;
+    maxBonusTurns: number;
+  };
+
+  [GameEvents.ROUND_STARTED]: {
+    round: number;
+    timeLimit: number;
+  };
+
+  [GameEvents.ROUND_RESULT]: {
+    round: number;
+    shots: RoundShotResult[];
+  };
+
+  [GameEvents.SUDDEN_DEATH_STARTED]: {
+    timeLimit: number;
+  };
+
+  [GameEvents.BOARD_SHRUNK]: {
+    collapsedRings: number;
+    sunkShips: VisibleShip[];
+  };
+
   [GameEvents.PLAYER_KICKED]: {
     reason: string;
   };
 
+  [GameEvents.PLAYER_KICKED_NOTIFY]: {
+    userId: number;
+    nickname: string;
+    reason: string;
+    banned: boolean;
+  };
+
   [GameEvents.PLAYER_FIRED]: {
     shooterUserId: number;
+    shotType: ShotType;
     x: number;
     y: number;
     hit: boolean;
     sunk: boolean;
+    impacts: ShotImpact[];
+  };
+
+  [GameEvents.SHIP_SUNK]: {
+    shipId: number;
+    sunkByUserId: number;
+    ship: VisibleShip;
+  };
+
+  [GameEvents.COMBAT_FEED]: {
+    records: CombatRecord[];
+  };
+
+  [GameEvents.SCAN_RESULT]: {
+    shooterUserId: number;
+    x: number;
+    y: number;
+    cells: ScanCell[];
+    shipsDetected: number;
+    remaining: number | null;
+  };
+
+  [GameEvents.ARSENAL_STATUS]: {
+    arsenal: ArsenalSlot[];
   };
 
   [GameEvents.PLAYER_FIRE_ACK]: {
     success: boolean;
     hit?: boolean;
     sunk?: boolean;
+    impacts?: ShotImpact[];
     error?: string;
   };
 
-  [GameEvents.PLAYER_ELIMINATED]: {
+  [GameEvents.SHOT_PREVIEW_RESULT]: {
+    success: boolean;
+    preview?: ShotPreview;
+    error?: string;
+  };
+
+  [GameEvents.PLAYER_PLACE_SHIPS_ACK]: {
+    success: boolean;
+    error?: string;
+  };
+
+  [GameEvents.PLACEMENT_STARTED]: {
+    gameId: number;
+    size: number;
+    fleet: FleetShip[];
+    terrain: TerrainCell[];
+    timeLimit: number;
+    ships?: ShipPlacement[];
+  };
+
+  [GameEvents.PLAYER_PLACED]: {
     userId: number;
   };
 
-  [GameEvents.NUCLEAR_STATUS]: {
-    progress: number;
-    hasNuclear: boolean;
-    used: boolean;
+  [GameEvents.PLAYER_ELIMINATED]: {
+    userId: number;
+    eliminatedByUserId?: number;
   };
 
+  [GameEvents.NUCLEAR_STATUS]: NuclearStatus;
+
   [GameEvents.GAME_STARTED]: {
     gameId: number;
   };
 
   [GameEvents.GAME_ENDED]: {
     mode: 'individual' | 'teams';
+    reason: GameEndReason;
     winnerUserId?: number;
     winningTeam?: number;
+    scores?: TieBreakScore[];
   };
 
   [GameEvents.GAME_ABANDONED]: null;
@@ -141,6 +275,8 @@ export interface GameEventPayloads {
   [GameEvents.BOARD_UPDATE]: {
     board: {
       size: number;
+      terrain: TerrainCell[];
+      collapsedRings: number;
       ships: VisibleShip[];
       shots: VisualShot[];
       myShips: MyShipState[];
@@ -175,6 +311,27 @@ export interface GameEventPayloads {
     reason: string;
   };
 
+  [GameEvents.LOBBY_SUBSCRIBE]: null;
+  [GameEvents.LOBBY_UNSUBSCRIBE]: null;
+
+  [GameEvents.LOBBY_GAME_CREATED]: {
+    game: LobbyGameDto;
+  };
+
+  [GameEvents.LOBBY_GAME_PLAYERS]: {
+    gameId: number;
+    playerCount: number;
+    maxPlayers: number;
+  };
+
+  [GameEvents.LOBBY_GAME_STARTED]: {
+    gameId: number;
+  };
+
+  [GameEvents.LOBBY_GAME_REMOVED]: {
+    gameId: number;
+  };
+
   [GameEvents.ERROR]: {
     message: string;
     code?: string;
@@ -9,7 +9,9 @@ export type ClientToServerEvent =
   | GameEvents.PLAYER_CHOOSE_TEAM
   | GameEvents.PLAYER_LEAVE
   | GameEvents.GAME_START
+  | GameEvents.PLAYER_PLACE_SHIPS
   | GameEvents.PLAYER_FIRE
+  | GameEvents.SHOT_PREVIEW
   | GameEvents.CREATOR_TRANSFER;
 
 /**
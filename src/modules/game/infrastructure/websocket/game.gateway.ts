@@ -23,6 +23,9 @@ import { CreatorHandler } from './handlers/creator.handler';
 import { StartGameHandler } from './handlers/start-game.handler';
 import { SocketServerAdapter } from '../adapters/socket-server.adapter';
 import { ReconnectHandler } from './handlers/reconnect.handler';
+import { PlacementHandler } from './handlers/placement.handler';
+import { ShotPreviewHandler } from './handlers/shot-preview.handler';
+import { LobbyHandler } from './handlers/lobby.handler';
 
 /**
  * GameGateway maneja la comunicación WebSocket de eventos en tiempo real
@@ -58,6 +61,9 @@ export class GameGateway
     private readonly leaveHandler: LeaveHandler,
     private readonly creatorHandler: CreatorHandler,
     private readonly startGameHandler: StartGameHandler,
+    private readonly placementHandler: PlacementHandler,
+    private readonly shotPreviewHandler: ShotPreviewHandler,
+    private readonly lobbyHandler: LobbyHandler,
     private readonly webSocketServerService: SocketServerAdapter,
   ) {}
 
@@ -177,6 +183,22 @@ export class GameGateway
     return this.creatorHandler.onCreatorTransfer(client, data);
   }
 
+  /**
+   * Procesa el evento cuando el creador expulsa a un jugador de la sala de espera.
+   * @param client Socket del cliente que realiza la petición
+   * @param data Datos con el ID de la partida, ID de usuario objetivo, motivo, veto opcional y tipado seguro
+   */
+  @SubscribeMessage(GameEvents.CREATOR_KICK)
+  async onCreatorKick(
+    @ConnectedSocket() client: SocketWithUser,
+    @MessageBody() data: EventPayload<GameEvents.CREATOR_KICK>,
+  ) {
+    this.logger.debug(
+      `Evento ${GameEvents.CREATOR_KICK} - Usuario: ${client.data?.userId}, Game: ${data.gameId}, Target: ${data.targetUserId}`,
+    );
+    return this.creatorHandler.onCreatorKick(client, data);
+  }
+
   /**
    * Procesa el evento cuando el creador inicia la partida.
    * @param client Socket del cliente que realiza la petición
@@ -193,6 +215,22 @@ export class GameGateway
     return this.startGameHandler.onGameStart(client, data);
   }
 
+  /**
+   * Procesa el evento cuando un jugador envía la colocación de su flota.
+   * @param client Socket del cliente que realiza la petición
+   * @param data Datos con el ID de la partida y las posiciones de cada barco con tipado seguro
+   */
+  @SubscribeMessage(GameEvents.PLAYER_PLACE_SHIPS)
+  async onPlayerPlaceShips(
+    @ConnectedSocket() client: SocketWithUser,
+    @MessageBody() data: EventPayload<GameEvents.PLAYER_PLACE_SHIPS>,
+  ) {
+    this.logger.debug(
+      `Evento ${GameEvents.PLAYER_PLACE_SHIPS} - Usuario: ${client.data?.userId}, Game: ${data.gameId}`,
+    );
+    return this.placementHandler.onPlaceShips(client, data);
+  }
+
   /**
    * Procesa el evento cuando un jugador ejecuta un disparo.
    * @param client Socket del cliente que realiza la petición
@@ -208,4 +246,44 @@ export class GameGateway
     );
     return this.fireHandler.onPlayerFire(client, data);
   }
+
+  /**
+   * Procesa la solicitud de vista previa de un disparo (no modifica la partida).
+   * @param client Socket del cliente que realiza la petición
+   * @param data Datos con el ID de la partida, coordenadas, tipo de disparo y dirección con tipado seguro
+   */
+  @SubscribeMessage(GameEvents.SHOT_PREVIEW)
+  async onShotPreview(
+    @ConnectedSocket() client: SocketWithUser,
+    @MessageBody() data: EventPayload<GameEvents.SHOT_PREVIEW>,
+  ) {
+    this.logger.debug(
+      `Evento ${GameEvents.SHOT_PREVIEW} - Usuario: ${client.data?.userId}, Game: ${data.gameId}, Pos: (${data.x},${data.y}), Tipo: ${data.shotType}`,
+    );
+    return this.shotPreviewHandler.onShotPreview(client, data);
+  }
+
+  /**
+   * Procesa la suscripción a las actualizaciones de la lista pública de partidas.
+   * @param client Socket del cliente que realiza la petición
+   */
+  @SubscribeMessage(GameEvents.LOBBY_SUBSCRIBE)
+  async onLobbySubscribe(@ConnectedSocket() client: SocketWithUser) {
+    this.logger.debug(
+      `Evento ${GameEvents.LOBBY_SUBSCRIBE} - Usuario: ${client.data?.userId}`,
+    );
+    return this.lobbyHandler.onLobbySubscribe(client);
+  }
+
+  /**
+   * Procesa la cancelación de la suscripción a la lista pública de partidas.
+   * @param client Socket del cliente que realiza la petición
+   */
+  @SubscribeMessage(GameEvents.LOBBY_UNSUBSCRIBE)
+  async onLobbyUnsubscribe(@ConnectedSocket() client: SocketWithUser) {
+    this.logger.debug(
+      `Evento ${GameEvents.LOBBY_UNSUBSCRIBE} - Usuario: ${client.data?.userId}`,
+    );
+    return this.lobbyHandler.onLobbyUnsubscribe(client);
+  }
 }
@@ -7,6 +7,8 @@ import { parseBoard } from '../../../application/mapper/board.mapper';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { GameEvents } from '../events/constants/game-events.enum';
 import { EventPayload } from '../events/types/events-payload.type';
+import { Board } from '../../../domain/models/board.model';
+import { ShotImpact } from '../../../domain/models/shot.model';
 
 /**
  * Servicio encargado de construir y emitir una versión personalizada del tablero
@@ -17,6 +19,7 @@ import { EventPayload } from '../events/types/events-payload.type';
  * - Aplicar reglas de visibilidad por jugador.
  * - Transformar los datos del tablero a una estructura visual amigable para el cliente.
  * - Emitir al cliente el evento `BOARD_UPDATE` con su vista personalizada.
+ * - Revelar a todos los barcos hundidos en el momento de hundirse (`SHIP_SUNK`).
  */
 @Injectable()
 export class BoardHandler {
@@ -75,10 +78,12 @@ export class BoardHandler {
       client.data.userId,
     );
 
-    // Paso 7: Construir el payload a emitir
+    // Paso 7: Construir el payload a emitir (el terreno es visible para todos)
     const payload: EventPayload<GameEvents.BOARD_UPDATE> = {
       board: {
         size: board.size,
+        terrain: board.terrain ?? [],
+        collapsedRings: board.collapsedRings ?? 0,
         ships,
         shots,
         myShips,
@@ -92,4 +97,51 @@ export class BoardHandler {
       `Tablero actualizado enviado a userId=${client.data.userId}, gameId=${gameId}`,
     );
   }
+
+  /**
+   * Revela a todos los participantes los barcos hundidos por un disparo.
+   *
+   * Emite un evento `SHIP_SUNK` por cada barco hundido, con su dueño, nickname,
+   * color y todas sus casillas.
+   *
+   * @param gameId ID de la partida.
+   * @param board Tablero actualizado tras el disparo.
+   * @param impacts Resultado de cada casilla alcanzada por el disparo.
+   * @param shooterUserId ID del jugador que hundió los barcos.
+   */
+  async announceSunkShips(
+    gameId: number,
+    board: Board,
+    impacts: ShotImpact[],
+    shooterUserId: number,
+  ): Promise<void> {
+    const sunkShipIds = new Set(
+      impacts
+        .map((impact) => impact.sunkShipId)
+        .filter((shipId) => shipId !== undefined),
+    );
+    if (sunkShipIds.size === 0) return;
+
+    const game = await this.gameRepository.findByIdWithPlayersAndUsers(gameId);
+    if (!game) return;
+
+    for (const ship of board.ships) {
+      if (ship.ownerId === null || !sunkShipIds.has(ship.shipId)) continue;
+
+      const [visibleShip] = this.boardVisualizationService.toVisibleShips(
+        [ship],
+        game.gamePlayers,
+      );
+
+      this.gameEventEmitter.emitShipSunk(gameId, {
+        shipId: ship.shipId,
+        sunkByUserId: shooterUserId,
+        ship: visibleShip,
+      });
+
+      this.logger.log(
+        `Barco hundido revelado: gameId=${gameId}, shipId=${ship.shipId}, dueño=${ship.ownerId}, por=${shooterUserId}`,
+      );
+    }
+  }
 }
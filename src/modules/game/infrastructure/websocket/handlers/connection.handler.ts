@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { LobbyManager } from '../../managers/lobby.manager';
+import { GameTimeLimitManager } from '../../managers/game-time-limit.manager';
 import { RedisCleanerOrchestrator } from '../../orchestrators/redis-cleaner.orchestrator';
 import { SocketWithUser } from '../../../domain/types/socket.types';
 import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
@@ -27,6 +28,7 @@ export class ConnectionHandler {
     private readonly gameSocketMapRedisRepository: GameSocketMapRedisRepository,
     private readonly socketServerAdapter: SocketServerAdapter,
     private readonly gameEventEmitter: GameEventEmitter,
+    private readonly gameTimeLimitManager: GameTimeLimitManager,
   ) {}
 
   /**
@@ -108,6 +110,8 @@ export class ConnectionHandler {
           this.redisCleanerService.clearGameRedisState(gameId),
           this.lobbyManager.kickPlayersFromRoom(gameId),
         ]);
+        this.gameTimeLimitManager.cancel(gameId);
+        this.lobbyManager.announceGameRemoved(game);
 
         this.logger.log(`Partida gameId=${gameId} eliminada por abandono.`);
         return;
@@ -6,6 +6,12 @@ import { GameRepository } from '../../../domain/repository/game.repository';
 import { GameEvents } from '../events/constants/game-events.enum';
 import { EventPayload } from '../events/types/events-payload.type';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
+import { PlayerRepository } from '../../../domain/repository/player.repository';
+import { ReadyStateRedis } from '../../redis/ready-state.redis';
+import { TeamStateRedis } from '../../redis/team-state.redis';
+import { PlayerStateRedis } from '../../redis/player-state.redis';
+import { GameSocketMapRedisRepository } from '../../repository/redis/game-socket-map.redis.repository';
+import { GameStatus } from '../../../../../prisma/prisma.enum';
 
 /**
  * Servicio especializado en la gestión del rol de administrador (creador) de partidas.
@@ -19,9 +25,18 @@ import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 export class CreatorHandler {
   private readonly logger = new Logger(CreatorHandler.name);
 
+  /** Motivo de expulsión si el creador no indica uno */
+  private readonly DEFAULT_KICK_REASON =
+    'Expulsado por el creador de la partida';
+
   constructor(
     private readonly lobbyManager: LobbyManager,
     private readonly gameRepository: GameRepository,
+    private readonly playerRepository: PlayerRepository,
+    private readonly readyStateRedis: ReadyStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly playerStateRedis: PlayerStateRedis,
+    private readonly gameSocketMapRedisRepository: GameSocketMapRedisRepository,
     private readonly socketServerAdapter: SocketServerAdapter,
     private readonly gameEventEmitter: GameEventEmitter,
   ) {}
@@ -147,4 +162,146 @@ export class CreatorHandler {
       );
     }
   }
+
+  /**
+   * Maneja la expulsión de un jugador de la sala de espera por parte del creador.
+   *
+   * Flujo:
+   * 1. Verifica existencia de partida.
+   * 2. Comprueba permisos del solicitante.
+   * 3. Verifica que la partida siga en espera.
+   * 4. Verifica que el destino sea otro jugador de la partida.
+   * 5. Quita al jugador de la partida y limpia su estado "listo" y su equipo.
+   * 6. Veta al jugador si se solicitó (no podrá volver a unirse).
+   * 7. Notifica a la sala y expulsa al jugador.
+   * 8. Confirma al creador y actualiza la lista pública de partidas.
+   *
+   * @param client Socket del jugador que solicita la expulsión (debe ser el creador actual).
+   * @param data Contiene el `gameId`, el `targetUserId` a expulsar, el motivo y si se le veta.
+   * @returns Promesa que se resuelve al finalizar la operación.
+   */
+  async onCreatorKick(
+    client: SocketWithUser,
+    data: EventPayload<GameEvents.CREATOR_KICK>,
+  ): Promise<void> {
+    const { gameId, targetUserId } = data;
+    const requesterId = client.data.userId;
+    const reason = data.reason?.trim() || this.DEFAULT_KICK_REASON;
+    const ban = data.ban === true;
+
+    this.logger.log(
+      `Solicitud de expulsión: gameId=${gameId}, de userId=${requesterId} a userId=${targetUserId}, veto=${ban}`,
+    );
+
+    try {
+      // 1. Verificar existencia de la partida
+      const game =
+        await this.gameRepository.findByIdWithPlayersAndUsers(gameId);
+      if (!game) {
+        this.logger.warn(`Partida no encontrada: gameId=${gameId}`);
+        this.gameEventEmitter.emitCreatorKickAck(
+          client.id,
+          false,
+          'Partida no encontrada',
+        );
+        return;
+      }
+
+      // 2. Validar que quien expulsa sea el creador
+      if (game.createdById !== requesterId) {
+        this.logger.warn(
+          `Expulsión denegada: userId=${requesterId} no es el creador actual`,
+        );
+        this.gameEventEmitter.emitCreatorKickAck(
+          client.id,
+          false,
+          'No tienes permisos para expulsar jugadores',
+        );
+        return;
+      }
+
+      // 3. Validar que la partida siga en la sala de espera
+      if (game.status !== GameStatus.waiting) {
+        this.logger.warn(
+          `Expulsión denegada: la partida gameId=${gameId} ya comenzó`,
+        );
+        this.gameEventEmitter.emitCreatorKickAck(
+          client.id,
+          false,
+          'Solo se puede expulsar jugadores antes de iniciar la partida',
+        );
+        return;
+      }
+
+      // 4. Validar que no se expulse a sí mismo
+      if (targetUserId === requesterId) {
+        this.logger.warn(`Expulsión inválida: el creador intentó expulsarse`);
+        this.gameEventEmitter.emitCreatorKickAck(
+          client.id,
+          false,
+          'No puedes expulsarte a ti mismo',
+        );
+        return;
+      }
+
+      // 5. Verificar que el destino sea jugador de la partida
+      const target = game.gamePlayers.find((p) => p.userId === targetUserId);
+      if (!target) {
+        this.logger.warn(
+          `Expulsión fallida: userId=${targetUserId} no juega la partida gameId=${gameId}`,
+        );
+        this.gameEventEmitter.emitCreatorKickAck(
+          client.id,
+          false,
+          'El jugador no forma parte de la partida',
+        );
+        return;
+      }
+
+      // 6. Quitar al jugador de la partida y limpiar su estado en la sala
+      const targetSocketIds =
+        this.socketServerAdapter.getUsersInGame(gameId).get(targetUserId) ?? [];
+
+      await this.playerRepository.removePlayerFromGame(gameId, targetUserId);
+      await this.readyStateRedis.removePlayerReady(gameId, targetSocketIds);
+      await this.teamStateRedis.removePlayerTeam(gameId, targetUserId);
+
+      // 7. Vetar al jugador si se solicitó
+      if (ban) {
+        await this.playerStateRedis.markAsBanned(gameId, targetUserId);
+      }
+
+      // 8. Notificar a la sala y sacar al jugador (sin procesarlo luego como desconexión)
+      this.gameEventEmitter.emitPlayerKickedNotify(gameId, {
+        userId: targetUserId,
+        nickname: target.user.nickname,
+        reason,
+        banned: ban,
+      });
+
+      for (const socketId of targetSocketIds) {
+        await this.gameSocketMapRedisRepository.delete(socketId);
+        await this.socketServerAdapter.leaveGameRoom(socketId, gameId);
+      }
+      this.gameEventEmitter.emitPlayerKickedByUserId(targetUserId, reason);
+
+      // 9. Confirmar al creador y actualizar la lista pública
+      this.gameEventEmitter.emitCreatorKickAck(client.id, true);
+      await this.lobbyManager.announcePlayerCount(gameId);
+
+      this.logger.log(
+        `Expulsión completada: gameId=${gameId}, userId=${targetUserId} - ${target.user.nickname}, veto=${ban}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error interno al expulsar jugador en gameId=${gameId}`,
+        error,
+      );
+      this.gameEventEmitter.emitCreatorKickAck(
+        client.id,
+        false,
+        'Error interno al procesar la expulsión',
+      );
+    }
+  }
 }
@@ -1,21 +1,47 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SocketWithUser } from '../../../domain/types/socket.types';
 import { TurnStateRedis } from '../../redis/turn-state.redis';
-import { NuclearStateRedis } from '../../redis/nuclear-state.redis';
+import { TeamStateRedis } from '../../redis/team-state.redis';
 import { TurnTimeoutManager } from '../../managers/turn-timeout.manager';
 import { TurnOrchestrator } from '../../orchestrators/turn.orchestrator';
+import { RoundStateRedis } from '../../redis/round-state.redis';
+import { RoundTimeoutManager } from '../../managers/round-timeout.manager';
+import { RoundOrchestrator } from '../../orchestrators/round.orchestrator';
+import { RoundSubmission } from '../../../domain/models/round.model';
 import { FireShotUseCase } from '../../../application/use-cases/fire-shot.use-case';
-import { Shot, ShotType } from '../../../domain/models/shot.model';
+import { SonarScanUseCase } from '../../../application/use-cases/sonar-scan.use-case';
+import { ShotType } from '../../../domain/models/shot.model';
+import { CombatRecord } from '../../../domain/models/combat.model';
 import { BoardHandler } from './board.handler';
 import { GameStatus } from '../../../../../prisma/prisma.enum';
 import { GameRepository } from '../../../domain/repository/game.repository';
 import { PlayerRepository } from '../../../domain/repository/player.repository';
-import { parseBoard } from '../../../application/mapper/board.mapper';
+import {
+  parseArsenal,
+  parseRules,
+  parseBoard,
+} from '../../../application/mapper/board.mapper';
+import { ArsenalUseCase } from '../../../application/use-cases/arsenal.use-case';
+import { NuclearUseCase } from '../../../application/use-cases/nuclear.use-case';
+import { NuclearOwner } from '../../../domain/models/nuclear.model';
 import { GameEvents } from '../events/constants/game-events.enum';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { EventPayload } from '../events/types/events-payload.type';
 import { Board } from '../../../domain/models/board.model';
+import { ShotEvaluatorLogic } from '../../../domain/logic/shot-evaluator.logic';
+import { ArsenalConfig } from '../../../domain/models/arsenal.model';
+import { GameRules } from '../../../domain/models/game-rules.model';
+import {
+  acceptsDirection,
+  getLaunchTarget,
+  getShotTypeDefinition,
+  isShotType,
+} from '../../../domain/logic/shot-type.registry';
 import { TurnLogicUseCase } from '../../../application/use-cases/turn-logic.use-case';
+import {
+  RandomGenerator,
+  SeededRandomService,
+} from '../../../../../shared/random/seeded-random.service';
 
 /**
  * FireHandler gestiona todo el flujo de un disparo en la partida.
@@ -30,10 +56,18 @@ export class FireHandler {
     private readonly gameRepository: GameRepository,
     private readonly playerRepository: PlayerRepository,
     private readonly turnStateRedis: TurnStateRedis,
-    private readonly nuclearStateRedis: NuclearStateRedis,
+    private readonly teamStateRedis: TeamStateRedis,
+    private readonly roundStateRedis: RoundStateRedis,
     private readonly turnTimeoutService: TurnTimeoutManager,
     private readonly turnOrchestratorService: TurnOrchestrator,
+    private readonly roundTimeoutManager: RoundTimeoutManager,
+    private readonly roundOrchestrator: RoundOrchestrator,
     private readonly shotService: FireShotUseCase,
+    private readonly sonarScanService: SonarScanUseCase,
+    private readonly arsenalService: ArsenalUseCase,
+    private readonly nuclearService: NuclearUseCase,
+    private readonly shotEvaluator: ShotEvaluatorLogic,
+    private readonly seededRandom: SeededRandomService,
     private readonly boardHandler: BoardHandler,
     private readonly gameEventEmitter: GameEventEmitter,
   ) {}
@@ -43,8 +77,10 @@ export class FireHandler {
    *
    * Este método:
    * - Valida que la partida esté activa y que sea el turno del jugador.
-   * - Evita disparos repetidos o inválidos (incluyendo disparos nucleares usados).
+   * - Evita disparos repetidos o inválidos (islas, sin munición, en enfriamiento o nucleares usados).
    * - Procesa el disparo y actualiza el tablero y el estado nuclear.
+   * - En la variante salvo, resuelve la andanada completa del jugador.
+   * - En partidas por rondas, guarda el disparo hasta que se resuelva la ronda.
    * - Avanza el turno si el disparo fue válido.
    *
    * @param client Socket del jugador que disparó.
@@ -54,7 +90,7 @@ export class FireHandler {
     client: SocketWithUser,
     data: EventPayload<GameEvents.PLAYER_FIRE>,
   ): Promise<void> {
-    const { gameId, x, y, shotType } = data;
+    const { gameId, x, y, shotType, direction } = data;
     const userId = client.data.userId;
     const nickname = client.data.nickname || 'Jugador desconocido';
 
@@ -63,6 +99,25 @@ export class FireHandler {
     );
 
     try {
+      // Paso 0: Validar el tipo de disparo contra el registro de armas
+      if (!isShotType(shotType)) {
+        this.gameEventEmitter.emitPlayerFireAck(client.id, {
+          success: false,
+          error: 'Tipo de disparo no válido.',
+        });
+        return;
+      }
+      const definition = getShotTypeDefinition(shotType);
+
+      // Paso 0.1: Validar la dirección de las armas direccionales
+      if (!acceptsDirection(shotType, direction)) {
+        this.gameEventEmitter.emitPlayerFireAck(client.id, {
+          success: false,
+          error: `El disparo ${shotType} requiere una dirección válida (${definition.directions?.allowed.join(', ')}).`,
+        });
+        return;
+      }
+
       // Paso 1: Validar existencia y estado de la partida
       const game = await this.gameRepository.findById(gameId);
       if (!game) {
@@ -79,16 +134,34 @@ export class FireHandler {
         });
         return;
       }
+      const rules = parseRules(game.rules);
 
-      // Paso 2: Validar que sea el turno del jugador
-      const currentTurnUserId =
-        await this.turnStateRedis.getCurrentTurn(gameId);
-      if (currentTurnUserId !== userId) {
-        this.gameEventEmitter.emitPlayerFireAck(client.id, {
-          success: false,
-          error: 'No es tu turno para disparar.',
-        });
-        return;
+      /**
+       * Paso 2: Validar que sea el turno del jugador.
+       *
+       * En partidas por rondas todos disparan a la vez (sin turno), pero el sonar
+       * no está disponible porque su resultado no puede resolverse en la ronda.
+       */
+      const simultaneous = game.turnMode === 'simultaneous';
+
+      if (simultaneous) {
+        if (definition.kind === 'scan') {
+          this.gameEventEmitter.emitPlayerFireAck(client.id, {
+            success: false,
+            error: 'El sonar no está disponible en partidas por rondas.',
+          });
+          return;
+        }
+      } else {
+        const currentTurnUserId =
+          await this.turnStateRedis.getCurrentTurn(gameId);
+        if (currentTurnUserId !== userId) {
+          this.gameEventEmitter.emitPlayerFireAck(client.id, {
+            success: false,
+            error: 'No es tu turno para disparar.',
+          });
+          return;
+        }
       }
 
       // Paso 3: Validar y parsear tablero
@@ -103,14 +176,106 @@ export class FireHandler {
       const board = parseBoard(game.board);
       board.shots ??= [];
 
-      // Paso 4: Verificar que no se repita un disparo
-      const alreadyShot = board.shots.some(
-        (shot) => shot.target.row === y && shot.target.col === x,
+      /**
+       * Paso 3.0: Derivar el generador aleatorio de este disparo.
+       *
+       * Se combina la semilla de la partida con la cantidad de disparos previos,
+       * de modo que la misma secuencia de disparos reproduzca los mismos resultados.
+       */
+      const random = this.seededRandom.createGenerator(
+        game.seed ?? game.id,
+        board.shots.length,
       );
-      if (alreadyShot) {
+
+      /**
+       * Paso 3.1: En la variante salvo, el turno se resuelve con una andanada completa.
+       *
+       * La andanada tiene su propio flujo de validación y registro.
+       */
+      if (game.salvo) {
+        await this.handleSalvo(client, gameId, data, board, random, {
+          friendlyFire: game.friendlyFire,
+          rules,
+        });
+        return;
+      }
+
+      /**
+       * Paso 3.2: Resolver la munición y el enfriamiento del tipo de disparo.
+       *
+       * Los límites se toman de la configuración de la partida (o los valores por defecto).
+       * La munición se descuenta justo antes de resolver la acción, tras validarla.
+       */
+      const arsenal = this.arsenalService.resolveConfig(
+        parseArsenal(game.arsenal),
+      );
+
+      /**
+       * Paso 3.3: Los tipos de detección (sonar) no disparan, solo escanean.
+       *
+       * Pueden usarse sobre casillas ya disparadas y siguen su propio flujo.
+       */
+      if (definition.kind === 'scan') {
+        await this.handleScan(client, gameId, x, y, board, random, {
+          type: shotType,
+          arsenal,
+          rules,
+        });
+        return;
+      }
+
+      /**
+       * Paso 3.4: Calcular la coordenada de lanzamiento.
+       *
+       * Las armas que se lanzan desde el borde (torpedo) solo usan la fila indicada:
+       * entran por la columna del borde opuesto a su dirección de avance.
+       */
+      const target = getLaunchTarget(shotType, x, y, board.size, direction);
+
+      // Paso 4: Verificar que no se repita un disparo.
+      // El torpedo impacta en la última casilla libre de su recorrido: solo se rechaza si no queda ninguna.
+      const withoutTarget =
+        definition.origin === 'cell'
+          ? board.shots.some(
+              (shot) =>
+                shot.target.row === target.row &&
+                shot.target.col === target.col,
+            )
+          : !(await this.shotService.hasImpact({
+              gameId,
+              shooterId: userId,
+              type: shotType,
+              target,
+              board,
+              random: this.seededRandom.createGenerator(
+                game.seed ?? game.id,
+                board.shots.length,
+              ),
+              direction,
+              friendlyFire: game.friendlyFire,
+            }));
+      if (withoutTarget) {
         this.gameEventEmitter.emitPlayerFireAck(client.id, {
           success: false,
-          error: 'Ya se ha disparado en esta posición anteriormente.',
+          error:
+            definition.origin === 'cell'
+              ? 'Ya se ha disparado en esta posición anteriormente.'
+              : `El disparo ${shotType} no tiene casillas libres en su recorrido.`,
+        });
+        return;
+      }
+
+      // Paso 4.0: Las islas no pueden ser objetivo de un disparo
+      if (
+        this.shotEvaluator.getTerrainAt(
+          board.terrain,
+          target.row,
+          target.col,
+        ) === 'island'
+      ) {
+        this.gameEventEmitter.emitPlayerFireAck(client.id, {
+          success: false,
+          error: 'No puedes disparar a una isla.',
         });
         return;
       }
@@ -118,16 +283,17 @@ export class FireHandler {
       /**
        * Paso 4.1: Validar si ya usó la bomba nuclear (en caso aplique).
        *
-       * Si el tipo de disparo es "nuclear", el jugador debe tener disponibilidad,
-       * y no haberla usado previamente.
+       * Si el tipo de disparo requiere la bomba nuclear, el jugador (o su equipo,
+       * si el medidor es compartido) debe tenerla desbloqueada y no haberla usado previamente.
        */
-      if (shotType === 'nuclear') {
-        const [hasNuclear, hasUsed] = await Promise.all([
-          this.nuclearStateRedis.hasNuclearAvailable(gameId, userId),
-          this.nuclearStateRedis.hasNuclearUsed(gameId, userId),
-        ]);
+      const nuclearOwner = await this.nuclearService.resolveOwner(
+        gameId,
+        userId,
+        game.teamNuclear,
+      );
 
-        if (!hasNuclear || hasUsed) {
+      if (definition.availability === 'nuclear') {
+        if (!(await this.nuclearService.canUse(gameId, nuclearOwner))) {
           this.gameEventEmitter.emitPlayerFireAck(client.id, {
             success: false,
             error: 'No puedes usar la bomba nuclear.',
@@ -136,67 +302,134 @@ export class FireHandler {
         }
       }
 
+      /**
+       * Paso 4.2: En partidas por rondas, el disparo se guarda y se resuelve al cerrar la ronda.
+       *
+       * Aquí solo se consulta el arsenal para rechazar pronto el disparo: la munición
+       * se descuenta al resolver la ronda.
+       */
+      if (simultaneous) {
+        const arsenalError = await this.arsenalService.checkAvailability(
+          gameId,
+          userId,
+          shotType,
+          arsenal,
+        );
+        if (arsenalError) {
+          this.gameEventEmitter.emitPlayerFireAck(client.id, {
+            success: false,
+            error: arsenalError,
+          });
+          return;
+        }
+
+        await this.submitRoundShot(client, gameId, board, {
+          shotType,
+          target,
+          direction,
+        });
+        return;
+      }
+
+      /**
+       * Paso 4.3: Descontar munición/enfriamiento antes de resolver el disparo y enviar el estado del arsenal.
+       *
+       * La comprobación y el descuento son atómicos: de dos disparos simultáneos del mismo
+       * jugador, solo uno puede gastar el último uso o saltarse el enfriamiento.
+       */
+      const consumed = await this.arsenalService.tryConsume(
+        gameId,
+        userId,
+        shotType,
+        arsenal,
+      );
+      if (!consumed.consumed) {
+        this.gameEventEmitter.emitPlayerFireAck(client.id, {
+          success: false,
+          error: consumed.reason,
+        });
+        return;
+      }
+
+      this.gameEventEmitter.emitArsenalStatus(userId, {
+        arsenal: consumed.arsenal,
+      });
+
       // Paso 5: Registrar el disparo usando la lógica central de disparo
       const result = await this.shotService.registerShot({
         gameId,
         shooterId: userId,
-        type: shotType as ShotType,
-        target: { row: y, col: x },
+        type: shotType,
+        target,
         board,
+        random,
+        direction,
+        friendlyFire: game.friendlyFire,
       });
 
-      // Paso 6: Emitir evento PLAYER_FIRED
+      // Paso 6: Emitir evento PLAYER_FIRED (punto de impacto real y resultado de cada casilla alcanzada)
       this.gameEventEmitter.emitPlayerFired(gameId, {
         shooterUserId: userId,
-        x,
-        y,
+        shotType,
+        x: result.shot.target.col,
+        y: result.shot.target.row,
         hit: result.shot.hit,
         sunk: !!result.shot.sunkShipId,
+        impacts: result.impacts,
       });
 
       // Paso 7: Persistir tablero actualizado
       await this.gameRepository.updateGameBoard(gameId, result.updatedBoard);
 
-      // Paso 8: Si impactó, evaluar si hay jugadores eliminados
-      if (result.shot.hit) {
-        await this.handleHitResult(result.updatedBoard, result.shot, gameId);
-      }
-
-      // Paso 9: Actualizar estado nuclear (progreso o reset)
-      await this.handleNuclearProgress(
+      // Paso 8: Revelar los barcos hundidos, difundir el historial de combate y eliminar a los derrotados
+      await this.boardHandler.announceSunkShips(
         gameId,
+        result.updatedBoard,
+        result.impacts,
         userId,
-        result.shot.hit,
-        shotType as ShotType,
       );
+      await this.handleHitResult(result.records, gameId);
 
       /**
-       * Paso 9.1: Si el disparo fue de tipo nuclear, marcarlo como usado.
+       * Paso 9: Actualizar estado nuclear (progreso, reset o uso de la bomba).
        *
-       * Esto evita que el jugador vuelva a disparar con arma nuclear en esta partida.
+       * Si el disparo fue de tipo nuclear, se marca como usado para que el jugador
+       * (o su equipo) no vuelva a disparar con arma nuclear en esta partida.
        */
-      if (shotType === 'nuclear') {
-        await this.nuclearStateRedis.markNuclearUsed(gameId, userId);
-      }
+      const { nuclearThreshold } = rules;
+      const hitEnemy = TurnLogicUseCase.hitsEnemy(
+        result.records,
+        await this.teamStateRedis.getAllTeams(gameId),
+      );
+      await this.nuclearService.registerShot(
+        gameId,
+        nuclearOwner,
+        shotType,
+        hitEnemy,
+        nuclearThreshold,
+      );
 
-      // Paso 10: Enviar estado nuclear actualizado al jugador
-      await this.sendNuclearStatus(gameId, client);
+      // Paso 10: Enviar estado nuclear actualizado al jugador (o a todo su equipo)
+      await this.sendNuclearStatus(
+        client,
+        gameId,
+        nuclearOwner,
+        nuclearThreshold,
+      );
 
       // Paso 11: Confirmación ACK al disparador
       this.gameEventEmitter.emitPlayerFireAck(client.id, {
         success: true,
         hit: result.shot.hit,
         sunk: !!result.shot.sunkShipId,
+        impacts: result.impacts,
       });
 
       // Paso 12: Enviar visualización del tablero
       await this.boardHandler.sendBoardUpdate(client, gameId);
 
-      // Paso 13: Limpiar timeout de turno actual
-      await this.turnTimeoutService.clear(gameId);
-
-      // Paso 14: Avanzar turno
-      await this.turnOrchestratorService.passTurn(gameId, userId);
+      // Paso 13: Avanzar turno (o conceder turno extra) y reiniciar el temporizador
+      await this.advanceTurn(gameId, userId, hitEnemy, rules);
     } catch (error) {
       this.logger.error(
         `Error al procesar disparo: gameId=${gameId}, userId=${userId}`,
@@ -211,91 +444,352 @@ export class FireHandler {
   }
 
   /**
-   * Procesa consecuencias de un disparo exitoso, como eliminación del jugador afectado.
+   * Ejecuta un escaneo de sonar y consume el turno del jugador.
    *
-   * @param updatedBoard Tablero actualizado
-   * @param shot Disparo realizado
+   * El resultado solo se envía al jugador que escaneó y a sus compañeros de equipo.
+   *
+   * @param client Socket del jugador que escaneó
    * @param gameId ID de la partida
+   * @param x Columna central del escaneo
+   * @param y Fila central del escaneo
+   * @param board Tablero actual
+   * @param random Generador aleatorio derivado de la semilla de la partida
+   * @param options Tipo de escaneo, configuración del arsenal y reglas de la partida
    * @private
    */
-  private async handleHitResult(
-    updatedBoard: Board,
-    shot: Shot,
+  private async handleScan(
+    client: SocketWithUser,
     gameId: number,
+    x: number,
+    y: number,
+    board: Board,
+    random: RandomGenerator,
+    options: { type: ShotType; arsenal: ArsenalConfig; rules: GameRules },
   ): Promise<void> {
-    const ship = updatedBoard.ships.find((s) =>
-      s.positions.some(
-        (p) => p.row === shot.target.row && p.col === shot.target.col,
-      ),
+    const userId = client.data.userId;
+    const { type, arsenal, rules } = options;
+
+    // 1. Descontar la munición del sonar antes de escanear (de forma atómica) y enviar el estado del arsenal
+    const consumed = await this.arsenalService.tryConsume(
+      gameId,
+      userId,
+      type,
+      arsenal,
+    );
+    if (!consumed.consumed) {
+      this.gameEventEmitter.emitPlayerFireAck(client.id, {
+        success: false,
+        error: consumed.reason,
+      });
+      return;
+    }
+
+    this.gameEventEmitter.emitArsenalStatus(userId, {
+      arsenal: consumed.arsenal,
+    });
+
+    // 2. Ejecutar el escaneo y persistir el tablero
+    const result = await this.sonarScanService.executeScan({
+      gameId,
+      shooterId: userId,
+      type,
+      target: { row: y, col: x },
+      board,
+      random,
+    });
+
+    await this.gameRepository.updateGameBoard(gameId, result.updatedBoard);
+
+    // 3. Enviar el resultado al jugador y a sus compañeros de equipo
+    const teams = await this.teamStateRedis.getAllTeams(gameId);
+    const shooterTeam = teams[userId];
+    const recipients = [userId];
+
+    if (shooterTeam !== undefined) {
+      for (const [memberId, teamId] of Object.entries(teams)) {
+        if (teamId === shooterTeam && +memberId !== userId) {
+          recipients.push(+memberId);
+        }
+      }
+    }
+
+    for (const recipientId of recipients) {
+      this.gameEventEmitter.emitScanResult(recipientId, {
+        shooterUserId: userId,
+        x,
+        y,
+        cells: result.cells,
+        shipsDetected: result.scan.shipsDetected,
+        remaining:
+          consumed.arsenal.find((slot) => slot.type === type)?.remaining ??
+          null,
+      });
+    }
+
+    this.logger.log(
+      `Escaneo realizado: gameId=${gameId}, userId=${userId}, detectados=${result.scan.shipsDetected}`,
     );
-    if (!ship || ship.ownerId == null) return;
 
-    const stillAlive = TurnLogicUseCase.hasShipsAlive(
-      updatedBoard,
-      ship.ownerId,
+    // 4. Confirmar y avanzar turno (un escaneo nunca gana turno extra)
+    this.gameEventEmitter.emitPlayerFireAck(client.id, { success: true });
+
+    await this.advanceTurn(gameId, userId, false, rules);
+  }
+
+  /**
+   * Ejecuta la andanada de un jugador en la variante salvo y consume el turno.
+   *
+   * El jugador dispara tantos disparos simples como barcos propios a flote.
+   * La andanada se valida completa antes de registrar ningún disparo y todos
+   * se resuelven antes de avanzar el turno. Las armas especiales, el sonar y
+   * la bomba nuclear no están disponibles en esta variante.
+   *
+   * @param client Socket del jugador que disparó
+   * @param gameId ID de la partida
+   * @param data Payload del evento PLAYER_FIRE (`targets` o, en su defecto, `x`/`y`)
+   * @param board Tablero actual
+   * @param random Generador aleatorio derivado de la semilla de la partida
+   * @param options Fuego amigo y reglas de la partida
+   * @private
+   */
+  private async handleSalvo(
+    client: SocketWithUser,
+    gameId: number,
+    data: EventPayload<GameEvents.PLAYER_FIRE>,
+    board: Board,
+    random: RandomGenerator,
+    options: { friendlyFire: boolean; rules: GameRules },
+  ): Promise<void> {
+    const userId = client.data.userId;
+    const { friendlyFire, rules } = options;
+    const targets = (data.targets ?? [{ x: data.x, y: data.y }]).map(
+      ({ x, y }) => ({ row: y, col: x }),
     );
 
-    if (!stillAlive) {
-      await this.playerRepository.markPlayerAsDefeated(gameId, ship.ownerId);
-      this.gameEventEmitter.emitPlayerEliminated(gameId, ship.ownerId);
+    // 1. Validar la andanada completa antes de registrar ningún disparo
+    const error = await this.shotService.validateSalvo({
+      gameId,
+      shooterId: userId,
+      shotType: data.shotType,
+      targets,
+      board,
+      friendlyFire,
+    });
+    if (error) {
+      this.gameEventEmitter.emitPlayerFireAck(client.id, {
+        success: false,
+        error,
+      });
+      return;
     }
+
+    // 2. Registrar todos los disparos sobre el mismo tablero
+    const result = await this.shotService.registerSalvo({
+      gameId,
+      shooterId: userId,
+      targets,
+      board,
+      random,
+      friendlyFire,
+    });
+
+    // 3. Emitir un PLAYER_FIRED por cada disparo y persistir el tablero
+    for (const { shot, impacts } of result.shots) {
+      this.gameEventEmitter.emitPlayerFired(gameId, {
+        shooterUserId: userId,
+        shotType: shot.type,
+        x: shot.target.col,
+        y: shot.target.row,
+        hit: shot.hit,
+        sunk: !!shot.sunkShipId,
+        impacts,
+      });
+    }
+
+    await this.gameRepository.updateGameBoard(gameId, result.updatedBoard);
+
+    // 4. Revelar los barcos hundidos, difundir el historial de combate y eliminar a los derrotados de toda la andanada
+    const impacts = result.shots.flatMap((s) => s.impacts);
+    await this.boardHandler.announceSunkShips(
+      gameId,
+      result.updatedBoard,
+      impacts,
+      userId,
+    );
+    await this.handleHitResult(result.records, gameId);
+
+    // 5. Confirmar, enviar el tablero y avanzar turno
+    const hit = result.shots.some(({ shot }) => shot.hit);
+
+    this.gameEventEmitter.emitPlayerFireAck(client.id, {
+      success: true,
+      hit,
+      sunk: result.shots.some(({ shot }) => !!shot.sunkShipId),
+      impacts,
+    });
+
+    await this.boardHandler.sendBoardUpdate(client, gameId);
+
+    await this.advanceTurn(
+      gameId,
+      userId,
+      TurnLogicUseCase.hitsEnemy(
+        result.records,
+        await this.teamStateRedis.getAllTeams(gameId),
+      ),
+      rules,
+    );
   }
 
   /**
-   * Controla el progreso del sistema nuclear según disparo y tipo.
+   * Guarda el disparo de un jugador en la ronda simultánea en curso.
+   *
+   * El disparo ya fue validado contra el tablero actual; se resolverá junto a los
+   * demás al cerrar la ronda. Si todos los jugadores activos ya dispararon,
+   * la ronda se resuelve sin esperar al fin del tiempo.
    *
+   * @param client Socket del jugador que disparó
    * @param gameId ID de la partida
-   * @param userId ID del jugador que disparó
-   * @param hit Si el disparo fue exitoso
-   * @param shotType Tipo de disparo
+   * @param board Tablero actual
+   * @param submission Tipo, coordenada y dirección del disparo
    * @private
    */
-  private async handleNuclearProgress(
+  private async submitRoundShot(
+    client: SocketWithUser,
     gameId: number,
-    userId: number,
-    hit: boolean,
-    shotType: ShotType,
+    board: Board,
+    submission: RoundSubmission,
   ): Promise<void> {
-    if (shotType !== 'simple') return;
+    const userId = client.data.userId;
 
-    if (!hit) {
-      await this.nuclearStateRedis.resetNuclearProgress(gameId, userId);
+    // 1. Solo participan los jugadores con barcos a flote
+    if (!TurnLogicUseCase.hasShipsAlive(board, userId)) {
+      this.gameEventEmitter.emitPlayerFireAck(client.id, {
+        success: false,
+        error: 'No tienes barcos a flote para disparar.',
+      });
       return;
     }
 
-    const progress = await this.nuclearStateRedis.incrementNuclearProgress(
+    // 2. Un único disparo por jugador y ronda, mientras la ronda no se esté resolviendo
+    const status = await this.roundStateRedis.submitShot(
       gameId,
       userId,
+      submission,
     );
-    if (progress === 6) {
-      await this.nuclearStateRedis.unlockNuclear(gameId, userId);
+    if (status !== 'submitted') {
+      this.gameEventEmitter.emitPlayerFireAck(client.id, {
+        success: false,
+        error:
+          status === 'closed'
+            ? 'La ronda ya se está resolviendo; dispara en la siguiente ronda.'
+            : 'Ya enviaste tu disparo en esta ronda.',
+      });
+      return;
+    }
+
+    this.gameEventEmitter.emitPlayerFireAck(client.id, { success: true });
+
+    // 3. Resolver la ronda si ya dispararon todos los jugadores activos
+    if (await this.roundOrchestrator.allPlayersSubmitted(gameId)) {
+      await this.roundTimeoutManager.finishRound(gameId);
     }
   }
 
   /**
-   * Envía el estado nuclear actual (progreso, disponibilidad y uso) al jugador.
+   * Cierra el turno del jugador y arranca el temporizador del siguiente.
+   *
+   * Si la acción impactó o hundió un barco enemigo y la partida lo permite,
+   * el orquestador concede un turno extra al mismo jugador.
    *
    * @param gameId ID de la partida
-   * @param client Socket del jugador
+   * @param userId ID del jugador que terminó su acción
+   * @param earnedBonus Si la acción impactó o hundió un barco enemigo
+   * @param rules Reglas de la partida (para el temporizador del siguiente turno)
    * @private
    */
-  private async sendNuclearStatus(
+  private async advanceTurn(
     gameId: number,
+    userId: number,
+    earnedBonus: boolean,
+    rules: GameRules,
+  ): Promise<void> {
+    await this.turnTimeoutService.clear(gameId);
+
+    const nextUserId = await this.turnOrchestratorService.passTurn(
+      gameId,
+      userId,
+      { earnedBonus },
+    );
+
+    if (nextUserId === null) {
+      this.turnTimeoutService.cancel(gameId);
+      return;
+    }
+
+    await this.turnTimeoutService.start(gameId, nextUserId, rules);
+  }
+
+  /**
+   * Procesa consecuencias de un disparo: difunde el historial de combate y elimina
+   * a los jugadores que perdieron su último barco.
+   *
+   * Un disparo de área puede hundir el último barco de varios jugadores a la vez:
+   * cada eliminación llega como un registro propio, atribuido al tirador.
+   *
+   * @param records Registros de combate generados por el disparo (o la andanada)
+   * @param gameId ID de la partida
+   * @private
+   */
+  private async handleHitResult(
+    records: CombatRecord[],
+    gameId: number,
+  ): Promise<void> {
+    if (!records.length) return;
+
+    this.gameEventEmitter.emitCombatFeed(gameId, { records });
+
+    for (const record of records) {
+      if (record.kind !== 'elimination') continue;
+
+      await this.playerRepository.markPlayerAsDefeated(
+        gameId,
+        record.victimUserId,
+      );
+      this.gameEventEmitter.emitPlayerEliminated(
+        gameId,
+        record.victimUserId,
+        record.attackerUserId,
+      );
+    }
+  }
+
+  /**
+   * Envía el estado nuclear actual (progreso, disponibilidad y uso) a los dueños del medidor.
+   *
+   * Con medidor compartido, el estado llega a todos los miembros del equipo y a nadie más.
+   *
+   * @param client Socket del jugador que disparó
+   * @param gameId ID de la partida
+   * @param owner Dueño del medidor (jugador o equipo)
+   * @param threshold Aciertos consecutivos que desbloquean la bomba (según las reglas de la partida)
+   * @private
+   */
+  private async sendNuclearStatus(
     client: SocketWithUser,
+    gameId: number,
+    owner: NuclearOwner,
+    threshold: number,
   ): Promise<void> {
     try {
-      const [progress, hasNuclear, used] = await Promise.all([
-        this.nuclearStateRedis.getNuclearProgress(gameId, client.data.userId),
-        this.nuclearStateRedis.hasNuclearAvailable(gameId, client.data.userId),
-        this.nuclearStateRedis.hasNuclearUsed(gameId, client.data.userId),
+      const [status, recipients] = await Promise.all([
+        this.nuclearService.getStatus(gameId, owner, threshold),
+        this.nuclearService.getRecipients(gameId, owner),
       ]);
 
-      this.gameEventEmitter.emitNuclearStatus(
-        gameId,
-        progress,
-        hasNuclear,
-        used,
-      );
+      for (const recipientId of recipients) {
+        this.gameEventEmitter.emitNuclearStatus(recipientId, status);
+      }
     } catch {
       this.gameEventEmitter.emitError(
         client.id,
@@ -5,16 +5,21 @@ import { EventPayload } from '../events/types/events-payload.type';
 import { ReadyStateRedis } from '../../redis/ready-state.redis';
 import { TeamStateRedis } from '../../redis/team-state.redis';
 import { PlayerStateRedis } from '../../redis/player-state.redis';
+import { AccessAttemptRedis } from '../../redis/access-attempt.redis';
 import { BoardHandler } from './board.handler';
 import { GameStatus } from '../../../../../prisma/prisma.enum';
 import { GameRepository } from '../../../domain/repository/game.repository';
+import { PlayerRepository } from '../../../domain/repository/player.repository';
+import { LobbyManager } from '../../managers/lobby.manager';
 import { GameSocketMapRedisRepository } from '../../repository/redis/game-socket-map.redis.repository';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
+import { BcryptPasswordService } from '../../../../user/infrastructure/bcrypt/bcrypt-password.service';
 
 /**
  * JoinHandler gestiona la lógica relacionada con:
- * - Unirse a una partida.
+ * - Unirse a una partida (verificando el código de acceso de las partidas privadas
+ *   y los vetos impuestos por el creador).
  * - Marcarse como listo.
  * - Seleccionar equipo (modo por equipos).
  *
@@ -24,11 +29,21 @@ import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
 export class JoinHandler {
   private readonly logger = new Logger(JoinHandler.name);
 
+  /** Intentos fallidos de código de acceso permitidos por jugador y partida */
+  private readonly MAX_ACCESS_ATTEMPTS = 5;
+
+  /** Ventana (en segundos) en la que se acumulan los intentos fallidos */
+  private readonly ACCESS_ATTEMPTS_WINDOW = 300;
+
   constructor(
     private readonly gameRepository: GameRepository,
+    private readonly playerRepository: PlayerRepository,
+    private readonly lobbyManager: LobbyManager,
     private readonly readyStateRedis: ReadyStateRedis,
     private readonly teamStateRedis: TeamStateRedis,
     private readonly playerStateRedis: PlayerStateRedis,
+    private readonly accessAttemptRedis: AccessAttemptRedis,
+    private readonly bcrypt: BcryptPasswordService,
     private readonly socketServerAdapter: SocketServerAdapter,
     private readonly boardHandler: BoardHandler,
     private readonly gameSocketMapRedisRepository: GameSocketMapRedisRepository,
@@ -41,13 +56,14 @@ export class JoinHandler {
    * Realiza las siguientes validaciones:
    * - Existencia de la partida
    * - Permisos de unión (partida iniciada, llena, abandono previo)
+   * - Código de acceso de las partidas privadas (con límite de intentos fallidos)
    * - Reconexión de jugadores existentes
    *
    * Registra al jugador o espectador en la sala correspondiente y envía
    * las confirmaciones y estados necesarios al cliente.
    *
    * @param client Socket conectado con información del usuario autenticado
-   * @param data Información de unión a la partida con ID y rol (jugador/espectador)
+   * @param data Información de unión a la partida con ID, rol (jugador/espectador) y código de acceso
    */
   async onPlayerJoin(
     client: SocketWithUser,
@@ -70,11 +86,27 @@ export class JoinHandler {
         this.gameEventEmitter.emitJoinDenied(
           client.id,
           'Partida no encontrada',
+          'GAME_NOT_FOUND',
         );
         this.logger.warn(`Partida inexistente: gameId=${data.gameId}`);
         return;
       }
 
+      // Validar que el creador no haya vetado al usuario
+      if (
+        await this.playerStateRedis.isBanned(data.gameId, client.data.userId)
+      ) {
+        this.gameEventEmitter.emitJoinDenied(
+          client.id,
+          'El creador te expulsó de esta partida',
+          'BANNED',
+        );
+        this.logger.warn(
+          `Usuario vetado intentó unirse: userId=${client.data.userId}, gameId=${data.gameId}`,
+        );
+        return;
+      }
+
       // Lógica específica para rol de jugador
       if (data.role === 'player') {
         // Verificar si el jugador ya estaba registrado en la partida (reconexión)
@@ -113,6 +145,7 @@ export class JoinHandler {
           this.gameEventEmitter.emitJoinDenied(
             client.id,
             'Partida ya iniciada',
+            'GAME_STARTED',
           );
           this.logger.warn(
             `Intento de unirse como jugador en partida iniciada.`,
@@ -120,9 +153,15 @@ export class JoinHandler {
           return;
         }
 
-        // Validar que la partida no esté llena
-        if (game.gamePlayers.length >= game.maxPlayers) {
-          this.gameEventEmitter.emitJoinDenied(client.id, 'Partida llena');
+        // Validar que la partida no esté llena (solo ocupan lugar los jugadores que no la abandonaron, como en el lobby)
+        if (
+          game.gamePlayers.filter((p) => !p.leftAt).length >= game.maxPlayers
+        ) {
+          this.gameEventEmitter.emitJoinDenied(
+            client.id,
+            'Partida llena',
+            'GAME_FULL',
+          );
           this.logger.warn(`Partida llena: gameId=${data.gameId}`);
           return;
         }
@@ -136,6 +175,7 @@ export class JoinHandler {
           this.gameEventEmitter.emitJoinDenied(
             client.id,
             'Fuiste expulsado por abandono',
+            'ABANDONED',
           );
           this.logger.warn(
             `Usuario ${client.data.userId} intentó reingresar después de abandono.`,
@@ -143,6 +183,33 @@ export class JoinHandler {
           return;
         }
 
+        // Validar el código de acceso de la partida privada
+        if (
+          !(await this.verifyAccessCode(
+            client,
+            data.gameId,
+            game.accessCodeHash,
+            data.accessCode,
+          ))
+        ) {
+          return;
+        }
+
+        // Registrar al jugador en la partida (comprobando de nuevo el cupo de forma atómica)
+        const added = await this.playerRepository.addPlayerToGame(
+          data.gameId,
+          client.data.userId,
+        );
+        if (!added) {
+          this.gameEventEmitter.emitJoinDenied(
+            client.id,
+            'Partida llena',
+            'GAME_FULL',
+          );
+          this.logger.warn(`Partida llena: gameId=${data.gameId}`);
+          return;
+        }
+
         // Registrar al jugador en la sala usando el adaptador
         await this.socketServerAdapter.joinGameRoom(client.id, data.gameId);
         await this.gameSocketMapRedisRepository.save(
@@ -163,6 +230,9 @@ export class JoinHandler {
           `Jugador socketId=${client.id} unido exitosamente a room=${room}`,
         );
 
+        // Actualizar la cantidad de jugadores en la lista pública
+        await this.lobbyManager.announcePlayerCount(data.gameId);
+
         // Enviar actualización del tablero si la partida está en curso
         if ((game.status as GameStatus) === GameStatus.in_progress) {
           await this.boardHandler.sendBoardUpdate(client, data.gameId);
@@ -202,6 +272,18 @@ export class JoinHandler {
           return;
         }
 
+        // Validar el código de acceso de la partida privada
+        if (
+          !(await this.verifyAccessCode(
+            client,
+            data.gameId,
+            game.accessCodeHash,
+            data.accessCode,
+          ))
+        ) {
+          return;
+        }
+
         // Registrar al nuevo espectador usando el adaptador
         await this.socketServerAdapter.joinGameRoom(client.id, data.gameId);
         await this.gameSocketMapRedisRepository.save(
@@ -231,6 +313,7 @@ export class JoinHandler {
       this.gameEventEmitter.emitJoinDenied(
         client.id,
         'Error interno al procesar la solicitud',
+        'INTERNAL_ERROR',
       );
     }
   }
@@ -390,4 +473,71 @@ export class JoinHandler {
       );
     }
   }
+
+  /**
+   * Verifica el código de acceso de una partida privada.
+   *
+   * - Las partidas sin código no requieren verificación
+   * - Cada intento se cuenta antes de verificar el código; si supera el máximo de la ventana
+   *   actual, se rechaza sin verificarlo
+   * - Un código correcto reinicia el contador
+   *
+   * Notifica `join:denied` al cliente cuando el código no es aceptado.
+   *
+   * @param client Socket del usuario que intenta unirse
+   * @param gameId ID de la partida
+   * @param accessCodeHash Hash del código de acceso de la partida (`null` si no tiene)
+   * @param accessCode Código enviado por el usuario
+   * @returns `true` si puede unirse a la partida
+   * @private
+   */
+  private async verifyAccessCode(
+    client: SocketWithUser,
+    gameId: number,
+    accessCodeHash: string | null,
+    accessCode?: string,
+  ): Promise<boolean> {
+    if (!accessCodeHash) return true;
+
+    const userId = client.data.userId;
+
+    // 1. Contar el intento antes de verificar: las verificaciones simultáneas no superan el máximo
+    const attempts = await this.accessAttemptRedis.registerAttempt(
+      gameId,
+      userId,
+      this.ACCESS_ATTEMPTS_WINDOW,
+    );
+    if (attempts > this.MAX_ACCESS_ATTEMPTS) {
+      this.gameEventEmitter.emitJoinDenied(
+        client.id,
+        'Demasiados intentos fallidos, espera antes de volver a intentarlo',
+        'TOO_MANY_ATTEMPTS',
+        await this.accessAttemptRedis.getRetryAfter(gameId, userId),
+      );
+      this.logger.warn(
+        `Unión bloqueada por intentos fallidos: userId=${userId}, gameId=${gameId}`,
+      );
+      return false;
+    }
+
+    // 2. Comparar el código recibido con el hash guardado
+    const valid =
+      !!accessCode && (await this.bcrypt.compare(accessCode, accessCodeHash));
+
+    if (!valid) {
+      this.gameEventEmitter.emitJoinDenied(
+        client.id,
+        'Código de acceso incorrecto',
+        'INVALID_ACCESS_CODE',
+      );
+      this.logger.warn(
+        `Código de acceso incorrecto: userId=${userId}, gameId=${gameId}, intentos=${attempts}`,
+      );
+      return false;
+    }
+
+    // 3. Código correcto: reiniciar los intentos
+    await this.accessAttemptRedis.clearAttempts(gameId, userId);
+    return true;
+  }
 }
@@ -3,10 +3,14 @@ import { RedisCleanerOrchestrator } from '../../orchestrators/redis-cleaner.orch
 import { SocketWithUser } from '../../../domain/types/socket.types';
 import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
 import { GameRepository } from '../../../domain/repository/game.repository';
+import { PlayerRepository } from '../../../domain/repository/player.repository';
+import { LobbyManager } from '../../managers/lobby.manager';
+import { GameTimeLimitManager } from '../../managers/game-time-limit.manager';
 import { GameEvents } from '../events/constants/game-events.enum';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { EventPayload } from '../events/types/events-payload.type';
 import { PlayerStateRedis } from '../../redis/player-state.redis';
+import { GameStatus } from '../../../../../prisma/prisma.enum';
 
 /**
  * Servicio especializado en gestionar la salida de jugadores de partidas en curso,
@@ -26,10 +30,13 @@ export class LeaveHandler {
 
   constructor(
     private readonly gameRepository: GameRepository,
+    private readonly playerRepository: PlayerRepository,
+    private readonly lobbyManager: LobbyManager,
     private readonly socketServerAdapter: SocketServerAdapter,
     private readonly redisUtils: RedisCleanerOrchestrator,
     private readonly gameEventEmitter: GameEventEmitter,
     private readonly playerStateRedis: PlayerStateRedis,
+    private readonly gameTimeLimitManager: GameTimeLimitManager,
   ) {}
 
   /**
@@ -101,14 +108,24 @@ export class LeaveHandler {
         // Eliminar de base de datos y Redis
         await this.gameRepository.removeAbandonedGames(gameId);
         await this.redisUtils.clearGameRedisState(gameId);
+        this.gameTimeLimitManager.cancel(gameId);
 
         // Asegurar que se limpian todos los estados de abandono
         await this.playerStateRedis.clearAllAbandoned(gameId);
 
+        // Quitar la partida de la lista pública
+        this.lobbyManager.announceGameRemoved(game);
+
         this.logger.log(`Partida gameId=${gameId} eliminada exitosamente.`);
         return;
       }
 
+      // 6. Si la partida sigue en espera, liberar su lugar y actualizar la lista pública
+      if (game.status === GameStatus.waiting) {
+        await this.playerRepository.removePlayerFromGame(gameId, userId);
+        await this.lobbyManager.announcePlayerCount(gameId);
+      }
+
       // 7. Si el jugador era el creador, asignar nuevo líder automáticamente
       if (game.createdById === userId) {
         this.logger.warn(
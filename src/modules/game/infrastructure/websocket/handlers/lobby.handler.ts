@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SocketWithUser } from '../../../domain/types/socket.types';
+import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
+
+/**
+ * Servicio encargado de las suscripciones a la lista pública de partidas.
+ *
+ * Los clientes suscritos reciben en tiempo real las partidas creadas, los cambios
+ * en la cantidad de jugadores, las partidas iniciadas y las eliminadas
+ * (ver `LobbyManager`).
+ */
+@Injectable()
+export class LobbyHandler {
+  private readonly logger = new Logger(LobbyHandler.name);
+
+  constructor(private readonly socketServerAdapter: SocketServerAdapter) {}
+
+  /**
+   * Suscribe al cliente a las actualizaciones de la lista pública de partidas.
+   *
+   * @param client Socket del cliente que se suscribe
+   */
+  async onLobbySubscribe(client: SocketWithUser): Promise<void> {
+    await this.socketServerAdapter.joinLobbyRoom(client.id);
+
+    this.logger.log(
+      `Cliente suscrito a la lista de partidas: socketId=${client.id}, userId=${client.data.userId}`,
+    );
+  }
+
+  /**
+   * Cancela la suscripción del cliente a la lista pública de partidas.
+   *
+   * @param client Socket del cliente que cancela la suscripción
+   */
+  async onLobbyUnsubscribe(client: SocketWithUser): Promise<void> {
+    await this.socketServerAdapter.leaveLobbyRoom(client.id);
+
+    this.logger.log(
+      `Cliente desuscrito de la lista de partidas: socketId=${client.id}, userId=${client.data.userId}`,
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SocketWithUser } from '../../../domain/types/socket.types';
+import { GameRepository } from '../../../domain/repository/game.repository';
+import { BoardGenerationUseCase } from '../../../application/use-cases/board-generation.use-case';
+import { PlacementStateRedis } from '../../redis/placement-state.redis';
+import { PlacementOrchestrator } from '../../orchestrators/placement.orchestrator';
+import { PlacementTimeoutManager } from '../../managers/placement-timeout.manager';
+import { GameEventEmitter } from '../events/emitters/game-event.emitter';
+import { GameEvents } from '../events/constants/game-events.enum';
+import { EventPayload } from '../events/types/events-payload.type';
+import { GameStatus } from '../../../../../prisma/prisma.enum';
+
+/**
+ * Servicio encargado de procesar la colocación manual de barcos
+ * durante la fase `placing` de una partida.
+ *
+ * Valida la flota enviada por cada jugador contra la flota de la dificultad,
+ * los límites del tablero y las colisiones con barcos de otros jugadores.
+ * Cuando todos los jugadores colocaron su flota, la partida comienza.
+ */
+@Injectable()
+export class PlacementHandler {
+  private readonly logger = new Logger(PlacementHandler.name);
+
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly boardGenerationService: BoardGenerationUseCase,
+    private readonly placementStateRedis: PlacementStateRedis,
+    private readonly placementOrchestrator: PlacementOrchestrator,
+    private readonly placementTimeoutManager: PlacementTimeoutManager,
+    private readonly gameEventEmitter: GameEventEmitter,
+  ) {}
+
+  /**
+   * Procesa la colocación de la flota de un jugador:
+   *
+   * 1. Valida que la partida esté en fase de colocación
+   * 2. Verifica que el usuario sea jugador de la partida
+   * 3. Valida la flota contra el layout y las posiciones ocupadas por otros
+   * 4. Guarda la flota (sin superposiciones, de forma atómica) y notifica a la sala
+   * 5. Si todos colocaron su flota, inicia la partida
+   *
+   * @param client Socket del jugador
+   * @param data Payload con el gameId y los barcos colocados
+   */
+  async onPlaceShips(
+    client: SocketWithUser,
+    data: EventPayload<GameEvents.PLAYER_PLACE_SHIPS>,
+  ): Promise<void> {
+    const gameId = data.gameId;
+    const userId = client.data.userId;
+
+    this.logger.log(
+      `Colocación recibida: gameId=${gameId}, userId=${userId}, barcos=${data.ships?.length ?? 0}`,
+    );
+
+    try {
+      // Paso 1: Validar partida y fase
+      const game = await this.gameRepository.findByIdWithPlayers(gameId);
+      if (!game) {
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          'Partida no encontrada',
+        );
+        return;
+      }
+
+      if (game.status !== GameStatus.placing) {
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          'La partida no está en fase de colocación',
+        );
+        return;
+      }
+
+      // Paso 2: Verificar que el usuario sea jugador
+      const isPlayer = game.gamePlayers.some((p) => p.userId === userId);
+      if (!isPlayer) {
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          'No eres jugador de esta partida',
+        );
+        return;
+      }
+
+      const layout = await this.placementStateRedis.getLayout(gameId);
+      if (!layout) {
+        this.logger.error(
+          `Layout de colocación no encontrado: gameId=${gameId}`,
+        );
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          'Fase de colocación no disponible',
+        );
+        return;
+      }
+
+      // Paso 3: Calcular posiciones ocupadas por otros jugadores
+      const placedShips =
+        await this.placementStateRedis.getAllPlayerShips(gameId);
+      const occupied = new Set<string>();
+
+      for (const [ownerId, ships] of Object.entries(placedShips)) {
+        if (+ownerId === userId) continue;
+        for (const ship of ships) {
+          for (const pos of ship.positions) {
+            occupied.add(`${pos.row}:${pos.col}`);
+          }
+        }
+      }
+
+      // Paso 4: Validar la flota enviada
+      const result = this.boardGenerationService.validatePlacement(
+        data.ships,
+        layout,
+        userId,
+        occupied,
+      );
+
+      if (!result.valid) {
+        this.logger.warn(
+          `Colocación rechazada: gameId=${gameId}, userId=${userId}, motivo=${result.reason}`,
+        );
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          result.reason,
+        );
+        return;
+      }
+
+      // Paso 5: Guardar flota (comprobando de nuevo la superposición de forma atómica) y notificar
+      const placedUserIds = await this.placementStateRedis.savePlayerShips(
+        gameId,
+        userId,
+        result.ships,
+      );
+
+      if (!placedUserIds) {
+        this.logger.warn(
+          `Colocación rechazada por superposición concurrente: gameId=${gameId}, userId=${userId}`,
+        );
+        this.gameEventEmitter.emitPlaceShipsAck(
+          client.id,
+          false,
+          'Otro jugador acaba de ocupar alguna de esas casillas.',
+        );
+        return;
+      }
+
+      this.gameEventEmitter.emitPlaceShipsAck(client.id, true);
+      this.gameEventEmitter.emitPlayerPlaced(gameId, userId);
+
+      // Paso 6: Si todos colocaron su flota (según el estado tras guardar), iniciar la partida
+      const allPlaced = game.gamePlayers.every((p) =>
+        placedUserIds.includes(p.userId),
+      );
+
+      if (allPlaced) {
+        this.logger.log(
+          `Todos los jugadores colocaron su flota. gameId=${gameId}`,
+        );
+        this.placementTimeoutManager.cancel(gameId);
+        await this.placementOrchestrator.finalizePlacement(gameId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error al procesar colocación: gameId=${gameId}, userId=${userId}`,
+        error,
+      );
+      this.gameEventEmitter.emitPlaceShipsAck(
+        client.id,
+        false,
+        'Error interno al procesar la colocación',
+      );
+    }
+  }
+}
@@ -7,6 +7,15 @@ import { GameSocketMapRedisRepository } from '../../repository/redis/game-socket
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
 import { PlayerStateRedis } from '../../redis/player-state.redis';
+import { ArsenalUseCase } from '../../../application/use-cases/arsenal.use-case';
+import { NuclearUseCase } from '../../../application/use-cases/nuclear.use-case';
+import { PlacementStateRedis } from '../../redis/placement-state.redis';
+import { PlacementTimeoutManager } from '../../managers/placement-timeout.manager';
+import { GameStatus } from '../../../../../prisma/prisma.enum';
+import {
+  parseArsenal,
+  parseRules,
+} from '../../../application/mapper/board.mapper';
 
 /**
  * Servicio especializado en la gestión de reconexiones de jugadores que se desconectaron
@@ -16,7 +25,8 @@ import { PlayerStateRedis } from '../../redis/player-state.redis';
  * Este servicio implementa una lógica robusta para:
  * - Verificar si el usuario estaba previamente en una partida activa
  * - Validar que el usuario tenga permisos para reconectarse como jugador
- * - Restaurar el estado visual del tablero tras la reconexión
+ * - Restaurar el estado visual del tablero, del arsenal y del medidor nuclear tras la reconexión
+ * - Restaurar la fase de colocación (layout, tiempo restante y flota propia) si aún no terminó
  * - Notificar a otros participantes sobre la reincorporación del jugador
  *
  * La funcionalidad de reconexión es crucial para mantener la experiencia de juego
@@ -34,6 +44,10 @@ export class ReconnectHandler {
     private readonly gameEventEmitter: GameEventEmitter,
     private readonly playerStateRedis: PlayerStateRedis,
     private readonly socketServerAdapter: SocketServerAdapter,
+    private readonly arsenalService: ArsenalUseCase,
+    private readonly nuclearService: NuclearUseCase,
+    private readonly placementStateRedis: PlacementStateRedis,
+    private readonly placementTimeoutManager: PlacementTimeoutManager,
   ) {}
 
   /**
@@ -44,7 +58,7 @@ export class ReconnectHandler {
    * 2. Validación de que la partida sigue activa y el usuario tiene acceso
    * 3. Reasignación del nuevo socket a la sala correspondiente
    * 4. Actualización de los mapeos de socket-juego en Redis
-   * 5. Restauración del estado visual del tablero para el jugador reconectado
+   * 5. Restauración del estado visual del tablero (o de la fase de colocación) para el jugador reconectado
    * 6. Notificación a todos los participantes sobre la reconexión
    *
    * El proceso incluye múltiples validaciones para garantizar una reconexión
@@ -130,9 +144,38 @@ export class ReconnectHandler {
         `Jugador reconectado: userId=${userId}, gameId=${gameId}`,
       );
 
+      // 6.1 Durante la colocación aún no hay tablero: restaurar la fase de colocación y confirmar
+      if (game.status === GameStatus.placing) {
+        await this.sendPlacementState(gameId, userId);
+
+        this.gameEventEmitter.emitPlayerReconnected(gameId, userId, nickname);
+        this.gameEventEmitter.emitReconnectAck(client.id, true);
+        return;
+      }
+
       // 7. Restaurar estado visual del tablero para el jugador
       await this.boardHandler.sendBoardUpdate(client, gameId);
 
+      // 7.1 Restaurar munición y enfriamientos del jugador
+      const arsenal = await this.arsenalService.getStatus(
+        gameId,
+        userId,
+        this.arsenalService.resolveConfig(parseArsenal(game.arsenal)),
+      );
+      this.gameEventEmitter.emitArsenalStatus(userId, { arsenal });
+
+      // 7.2 Restaurar el estado de su medidor nuclear (propio o de su equipo)
+      const nuclear = await this.nuclearService.getStatus(
+        gameId,
+        await this.nuclearService.resolveOwner(
+          gameId,
+          userId,
+          game.teamNuclear,
+        ),
+        parseRules(game.rules).nuclearThreshold,
+      );
+      this.gameEventEmitter.emitNuclearStatus(userId, nuclear);
+
       // 8. Notificar a la sala sobre la reconexión
       this.gameEventEmitter.emitPlayerReconnected(gameId, userId, nickname);
 
@@ -148,4 +191,37 @@ export class ReconnectHandler {
       );
     }
   }
+
+  /**
+   * Reenvía al jugador el estado de la fase de colocación:
+   * tamaño del tablero, flota, terreno, tiempo restante y los barcos que ya colocó.
+   *
+   * @param gameId ID de la partida
+   * @param userId ID del jugador reconectado
+   * @private
+   */
+  private async sendPlacementState(
+    gameId: number,
+    userId: number,
+  ): Promise<void> {
+    const layout = await this.placementStateRedis.getLayout(gameId);
+    if (!layout) {
+      this.logger.warn(`Layout de colocación no encontrado: gameId=${gameId}`);
+      return;
+    }
+
+    const ships = await this.placementStateRedis.getPlayerShips(gameId, userId);
+
+    this.gameEventEmitter.emitPlacementState(userId, {
+      gameId,
+      size: layout.size,
+      fleet: layout.fleet,
+      terrain: layout.terrain,
+      timeLimit: this.placementTimeoutManager.getRemainingTime(gameId),
+      ships: ships?.map((ship) => ({
+        positions: ship.positions.map(({ row, col }) => ({ row, col })),
+        shape: ship.shape,
+      })),
+    });
+  }
 }
@@ -0,0 +1,68 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { SocketWithUser } from '../../../domain/types/socket.types';
+import { PreviewShotUseCase } from '../../../application/use-cases/preview-shot.use-case';
+import { GameEvents } from '../events/constants/game-events.enum';
+import { GameEventEmitter } from '../events/emitters/game-event.emitter';
+import { EventPayload } from '../events/types/events-payload.type';
+
+/**
+ * Servicio que responde a las solicitudes de vista previa de disparos.
+ *
+ * La vista previa es de solo lectura: no valida turno, munición ni enfriamientos
+ * y no modifica la partida. Permite a los clientes dibujar el área de un disparo
+ * con el mismo cálculo que usa el servidor al ejecutarlo.
+ */
+@Injectable()
+export class ShotPreviewHandler {
+  private readonly logger = new Logger(ShotPreviewHandler.name);
+
+  constructor(
+    private readonly previewShotService: PreviewShotUseCase,
+    private readonly gameEventEmitter: GameEventEmitter,
+  ) {}
+
+  /**
+   * Calcula y envía al jugador las casillas que afectaría su disparo.
+   *
+   * @param client Socket del jugador que consulta
+   * @param data Payload del evento SHOT_PREVIEW
+   */
+  async onShotPreview(
+    client: SocketWithUser,
+    data: EventPayload<GameEvents.SHOT_PREVIEW>,
+  ): Promise<void> {
+    const { gameId, x, y, shotType, direction } = data;
+    const userId = client.data.userId;
+
+    try {
+      const preview = await this.previewShotService.execute(gameId, userId, {
+        shotType,
+        x,
+        y,
+        direction,
+      });
+
+      this.gameEventEmitter.emitShotPreviewResult(client.id, {
+        success: true,
+        preview,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        this.gameEventEmitter.emitShotPreviewResult(client.id, {
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
+      this.logger.error(
+        `Error al previsualizar disparo: gameId=${gameId}, userId=${userId}`,
+        error,
+      );
+      this.gameEventEmitter.emitShotPreviewResult(client.id, {
+        success: false,
+        error: 'Error interno al previsualizar el disparo.',
+      });
+    }
+  }
+}
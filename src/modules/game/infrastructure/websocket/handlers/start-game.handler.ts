@@ -3,14 +3,15 @@ import { SocketWithUser } from '../../../domain/types/socket.types';
 import { SocketServerAdapter } from '../../adapters/socket-server.adapter';
 import { ReadyStateRedis } from '../../redis/ready-state.redis';
 import { TeamStateRedis } from '../../redis/team-state.redis';
-import { TurnStateRedis } from '../../redis/turn-state.redis';
-import { BoardGenerationUseCase } from '../../../application/use-cases/board-generation.use-case';
-import { BoardHandler } from './board.handler';
+import { PlacementOrchestrator } from '../../orchestrators/placement.orchestrator';
+import { PlacementTimeoutManager } from '../../managers/placement-timeout.manager';
+import { LobbyManager } from '../../managers/lobby.manager';
 import { GameRepository } from '../../../domain/repository/game.repository';
 import { GameEventEmitter } from '../events/emitters/game-event.emitter';
 import { GameEvents } from '../events/constants/game-events.enum';
-import { Difficulty, Mode } from '../../../domain/models/board.model';
 import { EventPayload } from '../events/types/events-payload.type';
+import { GameStatus } from '../../../../../prisma/prisma.enum';
+import { parseRules } from '../../../application/mapper/board.mapper';
 
 /**
  * Servicio encargado de gestionar el inicio formal de una partida multijugador.
@@ -20,8 +21,8 @@ import { EventPayload } from '../events/types/events-payload.type';
  * - Jugadores listos
  * - Equipos correctamente configurados (modo teams)
  *
- * Luego genera el tablero global, asigna equipos a barcos, establece el primer turno,
- * notifica a los jugadores y emite sus tableros personalizados.
+ * Luego abre la fase de colocación de barcos. La partida comienza cuando todos
+ * colocan su flota o al expirar el tiempo de colocación (ver `PlacementOrchestrator`).
  */
 @Injectable()
 export class StartGameHandler {
@@ -31,10 +32,10 @@ export class StartGameHandler {
     private readonly gameRepository: GameRepository,
     private readonly readyStateRedis: ReadyStateRedis,
     private readonly teamStateRedis: TeamStateRedis,
-    private readonly turnStateRedis: TurnStateRedis,
     private readonly socketServerAdapter: SocketServerAdapter,
-    private readonly boardGenerationService: BoardGenerationUseCase,
-    private readonly boardHandler: BoardHandler,
+    private readonly placementOrchestrator: PlacementOrchestrator,
+    private readonly placementTimeoutManager: PlacementTimeoutManager,
+    private readonly lobbyManager: LobbyManager,
     private readonly gameEventEmitter: GameEventEmitter,
   ) {}
 
@@ -44,9 +45,9 @@ export class StartGameHandler {
    * 1. Valida que la solicitud proviene del creador
    * 2. Asegura que todos estén listos
    * 3. Valida equipos (si aplica)
-   * 4. Genera el tablero y lo persiste
-   * 5. Establece el primer turno
-   * 6. Notifica el inicio y envía tableros a cada jugador
+   * 4. Abre la fase de colocación e inicia su temporizador
+   * 5. Notifica a la sala el tamaño del tablero y la flota a colocar
+   * 6. Quita la partida de la lista pública de partidas en espera
    *
    * @param client Socket del creador
    * @param data Payload con el gameId a iniciar
@@ -84,6 +85,16 @@ export class StartGameHandler {
         return;
       }
 
+      if (game.status !== GameStatus.waiting) {
+        this.logger.warn(`La partida ya fue iniciada. gameId=${gameId}`);
+        this.gameEventEmitter.emitGameStartAck(
+          client.id,
+          false,
+          'La partida ya fue iniciada',
+        );
+        return;
+      }
+
       const readySocketIds = await this.readyStateRedis.getAllReady(gameId);
       const allSocketIds = this.socketServerAdapter.getSocketsInGame(gameId);
       const allReady = allSocketIds.every((id) => readySocketIds.includes(id));
@@ -136,75 +147,29 @@ export class StartGameHandler {
         }
       }
 
-      // Generar tablero con barcos para todos los jugadores
-      const playerIds = game.gamePlayers.map((p) => p.userId);
-      const board = this.boardGenerationService.generateGlobalBoard(
-        playerIds,
-        game.difficulty as Difficulty,
-        game.mode as Mode,
-      );
-
-      // Asignar equipos a barcos
-      if (game.mode === 'teams') {
-        board.ships.forEach((ship) => {
-          if (ship.ownerId !== null && teams[ship.ownerId] !== undefined) {
-            ship.teamId = teams[ship.ownerId];
-          }
-        });
-      }
-
-      await this.gameRepository.updateGameStartBoard(gameId, board);
-      await this.turnStateRedis.setCurrentTurn(gameId, game.createdById);
-
-      this.gameEventEmitter.emitTurnChanged(gameId, game.createdById);
-      this.gameEventEmitter.emitGameStarted(gameId);
+      // Abrir la fase de colocación de barcos
+      const layout = await this.placementOrchestrator.beginPlacement(game);
+      const { placementDuration } = parseRules(game.rules);
+      this.placementTimeoutManager.start(gameId, placementDuration);
+
+      this.gameEventEmitter.emitPlacementStarted(gameId, {
+        gameId,
+        size: layout.size,
+        fleet: layout.fleet,
+        terrain: layout.terrain,
+        timeLimit: placementDuration,
+      });
       this.gameEventEmitter.emitGameStartAck(client.id, true);
+      this.lobbyManager.announceGameStarted(game);
 
-      this.logger.log(`Partida iniciada correctamente. gameId=${gameId}`);
-
-      await this.sendInitialBoardState(allSocketIds, game.id);
+      this.logger.log(`Fase de colocación abierta. gameId=${gameId}`);
     } catch (error) {
       this.logger.error(`Error al iniciar partida: gameId=${gameId}`, error);
       this.gameEventEmitter.emitGameStartAck(
         client.id,
         false,
-        'Error al generar el tablero de juego',
+        'Error al preparar el tablero de juego',
       );
     }
   }
-
-  /**
-   * Envía el estado visual del tablero a todos los jugadores conectados.
-   *
-   * Cada jugador recibe su versión personalizada del tablero.
-   *
-   * @param socketIds Lista de sockets conectados en la partida
-   * @param gameId ID de la partida
-   * @returns Promesa que se resuelve cuando todos los estados han sido enviados
-   * @private
-   */
-  private async sendInitialBoardState(
-    socketIds: string[],
-    gameId: number,
-  ): Promise<void> {
-    for (const socketId of socketIds) {
-      const socket = this.socketServerAdapter
-        .getServer()
-        .sockets.sockets.get(socketId);
-
-      if (socket) {
-        await this.boardHandler.sendBoardUpdate(
-          socket as SocketWithUser,
-          gameId,
-        );
-        this.logger.debug(`Tablero enviado a socket ${socketId}`);
-      } else {
-        this.logger.warn(
-          `Socket no encontrado para envío de tablero: ${socketId}`,
-        );
-      }
-    }
-
-    this.logger.log(`Tableros iniciales enviados a todos. gameId=${gameId}`);
-  }
 }
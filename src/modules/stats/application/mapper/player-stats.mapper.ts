@@ -20,10 +20,13 @@ export function mapPlayerStatsToPrismaInput(
     successfulShots: stat.successfulShots,
     accuracy: stat.accuracy,
     shipsSunk: stat.shipsSunk,
+    friendlyShipsSunk: stat.friendlyShipsSunk,
     wasWinner: stat.wasWinner,
     turnsTaken: stat.turnsTaken,
     shipsRemaining: stat.shipsRemaining,
     wasEliminated: stat.wasEliminated,
+    eliminatedBy: stat.eliminatedBy,
+    victims: stat.victims,
     hitStreak: stat.hitStreak,
     lastShotWasHit: stat.lastShotWasHit,
     shotsByType: stat.shotsByType,
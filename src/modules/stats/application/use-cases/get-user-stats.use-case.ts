@@ -37,10 +37,13 @@ export class GetUserStatsUseCase {
       successfulShots: s.successfulShots,
       accuracy: s.accuracy,
       shipsSunk: s.shipsSunk,
+      friendlyShipsSunk: s.friendlyShipsSunk,
       wasWinner: s.wasWinner,
       turnsTaken: s.turnsTaken,
       shipsRemaining: s.shipsRemaining,
       wasEliminated: s.wasEliminated,
+      eliminatedBy: s.eliminatedBy,
+      victims: s.victims,
       hitStreak: s.hitStreak,
       lastShotWasHit: s.lastShotWasHit,
     }));
@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsBoolean, IsInt, IsNumber, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 
 export class GamePlayerStatsDto {
   @ApiProperty()
@@ -26,6 +32,10 @@ export class GamePlayerStatsDto {
   @IsInt()
   shipsSunk: number;
 
+  @ApiProperty()
+  @IsInt()
+  friendlyShipsSunk: number;
+
   @ApiProperty()
   @IsBoolean()
   wasWinner: boolean;
@@ -42,6 +52,15 @@ export class GamePlayerStatsDto {
   @IsBoolean()
   wasEliminated: boolean;
 
+  @ApiProperty({ nullable: true, type: Number })
+  @IsOptional()
+  @IsInt()
+  eliminatedBy: number | null;
+
+  @ApiProperty({ type: [Number] })
+  @IsInt({ each: true })
+  victims: number[];
+
   @ApiProperty()
   @IsInt()
   hitStreak: number;
@@ -1,7 +1,11 @@
-import { Shot, ShotType } from '../../../game/domain/models/shot.model';
+import { Scan, Shot, ShotType } from '../../../game/domain/models/shot.model';
 import { PlayerStats } from '../models/stats.model';
 import { parseBoard } from '../../../game/application/mapper/board.mapper';
 import { GameWithPlayers } from '../../../../prisma/prisma.types';
+import {
+  SHOT_TYPES,
+  getShotTypeDefinition,
+} from '../../../game/domain/logic/shot-type.registry';
 
 /**
  * Clase de lógica pura encargada de calcular estadísticas por jugador
@@ -26,6 +30,9 @@ export class StatsCalculatorLogic {
       const playerShots = board.shots.filter(
         (s) => s.shooterId === player.userId,
       );
+      const playerScans = (board.scans ?? []).filter(
+        (s) => s.shooterId === player.userId,
+      );
       const hits = playerShots.filter((s) => s.hit);
       const lastShot = playerShots[playerShots.length - 1];
 
@@ -42,16 +49,37 @@ export class StatsCalculatorLogic {
           .map((s) => s.sunkShipId),
       );
 
-      const shotsByType: Record<ShotType, number> = {
-        simple: 0,
-        cross: 0,
-        multi: 0,
-        area: 0,
-        nuclear: 0,
-      };
-      for (const shot of playerShots) {
-        shotsByType[shot.type] += 1;
-      }
+      // Con fuego amigo, los barcos propios y de compañeros hundidos se cuentan aparte
+      const shooterTeam = board.ships.find(
+        (ship) => ship.ownerId === player.userId,
+      )?.teamId;
+      const friendlyShipsSunk = board.ships.filter(
+        (ship) =>
+          sunkShipIds.has(ship.shipId) &&
+          (ship.ownerId === player.userId ||
+            (shooterTeam != null && ship.teamId === shooterTeam)),
+      ).length;
+
+      const shotsByType = this.countShotsByType(playerShots, playerScans);
+
+      // Atribución de eliminaciones según el historial de combate
+      const eliminations = (board.combatLog ?? []).filter(
+        (record) => record.kind === 'elimination',
+      );
+      const victims = [
+        ...new Set(
+          eliminations
+            .filter(
+              (record) =>
+                record.attackerUserId === player.userId &&
+                record.victimUserId !== player.userId,
+            )
+            .map((record) => record.victimUserId),
+        ),
+      ];
+      const eliminatedBy =
+        eliminations.findLast((record) => record.victimUserId === player.userId)
+          ?.attackerUserId ?? null;
 
       playerStats.set(player.userId, {
         userId: player.userId,
@@ -60,11 +88,14 @@ export class StatsCalculatorLogic {
         accuracy: playerShots.length
           ? +((hits.length / playerShots.length) * 100).toFixed(2)
           : 0,
-        shipsSunk: sunkShipIds.size,
+        shipsSunk: sunkShipIds.size - friendlyShipsSunk,
+        friendlyShipsSunk,
         wasWinner: player.isWinner,
-        turnsTaken: playerShots.length,
+        turnsTaken: playerShots.length + playerScans.length,
         shipsRemaining,
         wasEliminated,
+        eliminatedBy,
+        victims,
         hitStreak,
         lastShotWasHit: lastShot ? lastShot.hit : false,
         shotsByType,
@@ -74,6 +105,47 @@ export class StatsCalculatorLogic {
     return Array.from(playerStats.values());
   }
 
+  /**
+   * Cuenta los usos de cada tipo de disparo registrado.
+   *
+   * Cada tipo declara en el registro si se cuenta desde los disparos o desde
+   * los escaneos del tablero. Solo se cuentan acciones (el disparo principal),
+   * no cada casilla afectada por un disparo de área.
+   *
+   * @param shots Disparos realizados por el jugador.
+   * @param scans Escaneos realizados por el jugador.
+   * @returns Cantidad de usos por tipo de disparo.
+   */
+  private countShotsByType(
+    shots: Shot[],
+    scans: Scan[],
+  ): Record<ShotType, number> {
+    const primaryShots = shots.filter((shot) => shot.id !== -1);
+
+    return Object.fromEntries(
+      SHOT_TYPES.map((type) => {
+        const source =
+          getShotTypeDefinition(type).stats === 'scans' ? scans : primaryShots;
+        return [
+          type,
+          source.filter((entry) => this.typeOf(entry) === type).length,
+        ];
+      }),
+    ) as Record<ShotType, number>;
+  }
+
+  /**
+   * Obtiene el tipo de una acción registrada en el tablero.
+   *
+   * Los escaneos anteriores al registro de tipos no guardaban su tipo y se consideran `scan`.
+   *
+   * @param entry Disparo o escaneo.
+   * @returns Tipo de disparo de la acción.
+   */
+  private typeOf(entry: Shot | Scan): ShotType {
+    return entry.type ?? 'scan';
+  }
+
   /**
    * Calcula la mayor cantidad de aciertos consecutivos (racha).
    *
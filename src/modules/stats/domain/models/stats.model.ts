@@ -29,17 +29,22 @@ export type PlayerStats = {
   accuracy: number;
 
   /**
-   * Total de barcos hundidos por este jugador.
+   * Total de barcos enemigos hundidos por este jugador.
    */
   shipsSunk: number;
 
+  /**
+   * Barcos propios o de compañeros hundidos por este jugador (fuego amigo).
+   */
+  friendlyShipsSunk: number;
+
   /**
    * Indica si el jugador ganó la partida.
    */
   wasWinner: boolean;
 
   /**
-   * Cantidad de turnos que jugó (equivalente a disparos válidos).
+   * Cantidad de turnos que jugó (disparos válidos más escaneos de sonar).
    */
   turnsTaken: number;
 
@@ -53,6 +58,16 @@ export type PlayerStats = {
    */
   wasEliminated: boolean;
 
+  /**
+   * ID del jugador que hundió su último barco (`null` si no fue eliminado en combate).
+   */
+  eliminatedBy: number | null;
+
+  /**
+   * IDs de los jugadores a los que eliminó.
+   */
+  victims: number[];
+
   /**
    * Racha máxima de impactos consecutivos.
    */
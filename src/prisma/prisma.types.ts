@@ -17,6 +17,8 @@ export type {
   UserGlobalStats,
 } from '../../generated/prisma';
 
+export { Prisma } from '../../generated/prisma';
+
 export type GamePlayerWithUser = GamePlayer & { user: User };
 
 export type GameWithPlayers = Game & { gamePlayers: GamePlayer[] };
@@ -30,6 +32,17 @@ export type GameWithPlayersAndSpectator = Game & {
   spectators: Spectator[];
 };
 
+export type GameWithCreatorAndPlayerCount = Game & {
+  createdBy: Pick<User, 'nickname'> | null;
+  _count: { gamePlayers: number };
+};
+
+export type GameWithDetails = Game & {
+  createdBy: Pick<User, 'id' | 'nickname'> | null;
+  gamePlayers: (GamePlayer & { user: Pick<User, 'nickname' | 'color'> })[];
+  spectators: Pick<Spectator, 'userId'>[];
+};
+
 export type GamePlayerStatsWithUser = GamePlayerStats & {
   user: Pick<User, 'nickname'>;
 };
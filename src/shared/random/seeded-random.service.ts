@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { randomInt } from 'crypto';
+
+/**
+ * Generador de números pseudoaleatorios en el rango [0, 1),
+ * con la misma firma que `Math.random`.
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Servicio de aleatoriedad determinista basada en semilla.
+ *
+ * Permite reproducir exactamente una partida: con la misma semilla
+ * y la misma secuencia de disparos se obtienen los mismos tableros
+ * y las mismas dispersiones de disparo.
+ *
+ * Utiliza el algoritmo `mulberry32` (32 bits, rápido y sin dependencias).
+ */
+@Injectable()
+export class SeededRandomService {
+  /**
+   * Genera una nueva semilla aleatoria de 31 bits (cabe en un `Int` de PostgreSQL).
+   *
+   * @returns Semilla positiva
+   */
+  createSeed(): number {
+    return randomInt(0, 0x7fffffff);
+  }
+
+  /**
+   * Crea un generador determinista a partir de una semilla.
+   *
+   * Los valores de `salt` permiten derivar secuencias independientes
+   * de la misma semilla (por ejemplo, una por cada disparo de la partida).
+   *
+   * @param seed Semilla base de la partida
+   * @param salt Valores adicionales que se combinan con la semilla
+   * @returns Función generadora con la firma de `Math.random`
+   */
+  createGenerator(seed: number, ...salt: number[]): RandomGenerator {
+    let state = seed >>> 0;
+
+    for (const value of salt) {
+      state = Math.imul(state ^ (value >>> 0), 0x9e3779b1) >>> 0;
+      state ^= state >>> 16;
+    }
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}